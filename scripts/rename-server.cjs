@@ -1,14 +1,18 @@
 const fs = require('fs');
 const path = require('path');
 
-const source = path.join(__dirname, '../dist/index.js');
-const target = path.join(__dirname, '../dist/index.cjs');
+// tsc mirrors the repository layout (server/ and shared/) under dist/
+const source = path.join(__dirname, '../dist/server/index.js');
+const target = path.join(__dirname, '../dist/server/index.cjs');
 
 if (fs.existsSync(source)) {
   fs.renameSync(source, target);
   console.log('Renamed index.js to index.cjs');
 } else {
-  console.error('dist/index.js not found');
+  console.error('dist/server/index.js not found');
   process.exit(1);
 }
 
+// The root package.json sets "type": "module"; mark the compiled server modules as CommonJS
+// so index.cjs can require its siblings (e.g. dist/server/llm/*.js, dist/shared/*.js)
+fs.writeFileSync(path.join(__dirname, '../dist/package.json'), JSON.stringify({ type: 'commonjs' }, null, 2) + '\n');
@@ -0,0 +1,63 @@
+// server/app.test.ts
+import fs from "fs";
+import os from "os";
+import path from "path";
+import request from "supertest";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import type { Express } from "express";
+
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "resume-api-test-"));
+let app: Express;
+
+beforeAll(async () => {
+  // The app reads its configuration at import time, so point it at the mock provider and throwaway stores first
+  Object.assign(process.env, {
+    LLM_PROVIDER: "mock",
+    ANALYSIS_CACHE: "off",
+    AUTH_STORE_FILE: path.join(dataDir, "auth.json"),
+    JOBS_DB_FILE: path.join(dataDir, "jobs.db"),
+    USAGE_DB_FILE: path.join(dataDir, "usage.db"),
+    RESUMES_DB_FILE: path.join(dataDir, "resumes.db"),
+  });
+  ({ app } = await import("./app"));
+
+  // Let the stores finish loading before the first request
+  await vi.waitFor(async () => {
+    const res = await request(app).get("/health");
+    expect(JSON.stringify(res.body.dependencies)).not.toContain('"starting"');
+  });
+});
+
+afterAll(async () => {
+  // Token usage is recorded after each response, day then month; wait for the last write before removing the stores
+  await vi.waitFor(async () => {
+    const { body } = await request(app).get("/api/usage");
+    expect(body.month.calls).toBe(body.day.calls);
+  });
+  fs.rmSync(dataDir, { recursive: true, force: true });
+});
+
+describe("POST /api/analyze-resume", () => {
+  it("returns feedback, a customized resume and changes from the mock provider", async () => {
+    const res = await request(app)
+      .post("/api/analyze-resume")
+      .send({
+        resumeText: "Jane Doe\nSoftware Engineer at Example Corp\nSkills: JavaScript, React",
+        jobDescription: "We are hiring a software engineer with TypeScript, React and Node.js experience.",
+      });
+
+    expect(res.status).toBe(200);
+    expect(res.body.source).toBe("llm");
+    expect(res.body.strengths.length).toBeGreaterThan(0);
+    expect(res.body.customizedResume).toContain("JANE DOE");
+    expect(res.body.specificChanges.length).toBeGreaterThan(0);
+    expect(typeof res.body.coverLetter).toBe("string");
+  });
+
+  it("rejects a request without resume text", async () => {
+    const res = await request(app).post("/api/analyze-resume").send({ jobDescription: "Software engineer" });
+
+    expect(res.status).toBe(400);
+    expect(res.body.error.code).toBe("VALIDATION_FAILED");
+  });
+});
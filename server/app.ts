@@ -0,0 +1,787 @@
+﻿// server/app.ts
+import express from "express";
+import cors from "cors";
+import dotenv from "dotenv";
+import {
+  completeJson,
+  completeStructured,
+  completeText,
+  createProviderFromEnv,
+  type CompletionRequest,
+  type LLMProvider,
+} from "./llm";
+import { createApplicationRoutes, createApplicationStore } from "./applications";
+import { createResumeRoutes, createResumeStore } from "./resumes";
+import { createAuth } from "./auth";
+import { cacheKey, createFileCache } from "./cache";
+import { createDocumentRoutes } from "./documents";
+import { checkFabrication } from "./fabrication";
+import { analyzeResumeHeuristically } from "./heuristics";
+import { createJobQueue, type JobStep } from "./jobs";
+import { matchKeywords } from "./keywords";
+import { logger, requestLog, requestLogging, type Logger } from "./logger";
+import { createMetrics } from "./metrics";
+import type { z } from "zod";
+import type { AnalysisStep, ResumeAnalysis, ResumeChange, ResumeRequest } from "../shared/api";
+import { API_ROUTES, expressPath } from "../shared/routes";
+import {
+  ANALYSIS_STEPS,
+  analysisJobRequestSchema,
+  analyzeResumeRequestSchema,
+  fabricationCheckRequestSchema,
+  keywordMatchRequestSchema,
+  parseProfileRequestSchema,
+  RESUME_CHANGE_CATEGORIES,
+  resumeProfileSchema,
+  resumeRequestSchema,
+  tailoredResumeRequestSchema,
+} from "../shared/schemas";
+import { errorBody, parseBody, sendError, sendValidationError } from "./errors";
+import { createOpenApiDocument } from "./openapi";
+import { formatProfile, parseProfileDeterministically } from "./profile";
+import { resumeChangesResponseSchema } from "./schemas";
+import { loadTemplates, templateVersion } from "./templates";
+import { createAiRateLimit, createUsageLedger, meteredProvider, usageSubject } from "./usage";
+
+// Type declaration for Node.js process
+declare const process: {
+  env: {
+    [key: string]: string | undefined;
+    OPENAI_API_KEY?: string;
+    LLM_PROVIDER?: string;
+    ANALYSIS_CACHE?: string;
+    ANALYSIS_CACHE_DIR?: string;
+    ANALYSIS_CACHE_TTL_HOURS?: string;
+    ANALYSIS_CACHE_MAX_ENTRIES?: string;
+    ANALYSIS_CACHE_MAX_MB?: string;
+    PROMPTS_DIR?: string;
+    AUTH_STORE_FILE?: string;
+    AUTH_SESSION_DAYS?: string;
+    JOBS_DB_FILE?: string;
+    RESUMES_DB_FILE?: string;
+    USAGE_DB_FILE?: string;
+    DOCUMENT_MAX_MB?: string;
+    AI_DAILY_TOKEN_QUOTA?: string;
+    AI_MONTHLY_TOKEN_QUOTA?: string;
+    AI_RATE_LIMIT_PER_IP?: string;
+    AI_RATE_LIMIT_PER_USER?: string;
+    LLM_PRICE_INPUT_PER_MTOK?: string;
+    LLM_PRICE_OUTPUT_PER_MTOK?: string;
+    LOG_LEVEL?: string;
+    NODE_ENV?: string;
+    TRUST_PROXY?: string;
+  };
+};
+
+dotenv.config();
+
+// TRUST_PROXY as Express takes it: "true", a number of proxy hops, or a comma-separated list of proxy addresses
+const parseTrustProxy = (value = ""): boolean | number | string[] => {
+  const setting = value.trim();
+  if (!setting || setting === "false") return false;
+  if (setting === "true") return true;
+  if (/^\d+$/.test(setting)) return Number(setting);
+  return setting.split(",").map((entry) => entry.trim());
+};
+
+export const app = express();
+// Behind a proxy, req.ip is the proxy's address unless X-Forwarded-For is trusted; the per-IP rate limit and
+// guests' usage quotas are keyed on it
+app.set("trust proxy", parseTrustProxy(process.env.TRUST_PROXY));
+const metrics = createMetrics();
+// Request ids and metrics come first so every response, including errors, is logged and counted
+app.use(requestLogging());
+app.use(metrics.middleware);
+app.use(cors());
+app.use(express.json({ limit: '10mb' })); // Increase limit for large resume text
+
+// --- LLM provider (OpenAI by default, see server/llm) ---
+const llm = createProviderFromEnv(process.env);
+logger.info(llm ? "LLM provider configured" : "LLM provider not configured", llm ? { provider: llm.name, model: llm.model } : {});
+
+// --- Analysis cache (set ANALYSIS_CACHE=off to disable) ---
+const cache =
+  process.env.ANALYSIS_CACHE === "off"
+    ? null
+    : createFileCache({
+        dir: process.env.ANALYSIS_CACHE_DIR || ".cache/analysis",
+        ttlMs: Number(process.env.ANALYSIS_CACHE_TTL_HOURS || 24 * 7) * 60 * 60 * 1000,
+        maxEntries: Number(process.env.ANALYSIS_CACHE_MAX_ENTRIES || 500),
+        maxBytes: Number(process.env.ANALYSIS_CACHE_MAX_MB || 50) * 1024 * 1024,
+      });
+
+// --- Authentication (session cookie, users stored in AUTH_STORE_FILE) ---
+const auth = createAuth({
+  file: process.env.AUTH_STORE_FILE || ".data/auth.json",
+  sessionTtlMs: Number(process.env.AUTH_SESSION_DAYS || 30) * 24 * 60 * 60 * 1000,
+  secureCookies: process.env.NODE_ENV === "production",
+});
+app.use(auth.middleware);
+app.use("/api/auth", auth.router);
+
+// --- Job applications (per-user, embedded NeDB datafile) ---
+const applications = createApplicationStore({ filename: process.env.JOBS_DB_FILE || ".data/jobs.db" });
+applications.ready.catch((err) => logger.error("jobs: failed to load the database", { err }));
+app.use("/api/jobs", createApplicationRoutes(applications));
+
+// --- Resume library (per-user, embedded NeDB datafile) ---
+const resumes = createResumeStore({ filename: process.env.RESUMES_DB_FILE || ".data/resumes.db" });
+resumes.ready.catch((err) => logger.error("resumes: failed to load the database", { err }));
+app.use("/api/resumes", createResumeRoutes(resumes));
+
+// --- Resume file parsing (PDF, DOCX, RTF, Markdown, plain text) ---
+app.use("/api/documents", createDocumentRoutes({ maxBytes: Number(process.env.DOCUMENT_MAX_MB ?? 10) * 1024 * 1024 }));
+
+// --- ATS keyword match (rule-based, so outside the AI rate limit and quota) ---
+app.post(API_ROUTES.keywordMatch.path, (req: express.Request, res: express.Response) => {
+  const body = parseBody(keywordMatchRequestSchema, req.body, res);
+  if (!body) return;
+  const match = matchKeywords(body.resumeText, body.jobDescription);
+  requestLog(res).info(`${API_ROUTES.keywordMatch.path}: matched`, { score: match.score, terms: match.terms.length });
+  return res.json(match);
+});
+
+// --- Fabrication check of customized resumes (rule-based, like the keyword match) ---
+app.post(API_ROUTES.checkFabrication.path, (req: express.Request, res: express.Response) => {
+  const body = parseBody(fabricationCheckRequestSchema, req.body, res);
+  if (!body) return;
+  const flags = checkFabrication(body.resumeText, body.customizedResume, body.profile);
+  requestLog(res).info(`${API_ROUTES.checkFabrication.path}: checked`, { flags: flags.length, profile: Boolean(body.profile) });
+  return res.json({ flags });
+});
+
+// --- AI usage: per-minute rate limits, token/cost accounting and quotas (0 disables a limit) ---
+const usage = createUsageLedger({
+  filename: process.env.USAGE_DB_FILE || ".data/usage.db",
+  dailyTokens: Number(process.env.AI_DAILY_TOKEN_QUOTA ?? 200_000),
+  monthlyTokens: Number(process.env.AI_MONTHLY_TOKEN_QUOTA ?? 2_000_000),
+  // Prices for models the built-in table does not know (e.g. a local model with a nominal cost)
+  priceOverride: process.env.LLM_PRICE_INPUT_PER_MTOK
+    ? {
+        input: Number(process.env.LLM_PRICE_INPUT_PER_MTOK),
+        output: Number(process.env.LLM_PRICE_OUTPUT_PER_MTOK || process.env.LLM_PRICE_INPUT_PER_MTOK),
+      }
+    : undefined,
+});
+usage.ready.catch((err) => logger.error("usage: failed to load the database", { err }));
+
+const aiRateLimit = createAiRateLimit({
+  perIp: Number(process.env.AI_RATE_LIMIT_PER_IP ?? 10),
+  perUser: Number(process.env.AI_RATE_LIMIT_PER_USER ?? 20),
+});
+
+// For routes that answer some requests without the LLM: those rule-based answers are free, so only the rest count
+const aiRateLimitUnless =
+  (offline: (req: express.Request) => boolean): express.RequestHandler =>
+  (req, res, next) =>
+    offline(req) ? next() : aiRateLimit(req, res, next);
+
+app.get(API_ROUTES.usage.path, async (req: express.Request, res: express.Response) => {
+  return res.json(await usage.summary(usageSubject(req, res)));
+});
+
+// --- Health and metrics ---
+type DependencyStatus = "starting" | "ok" | "error";
+
+// Tracks a store's startup promise so /health can report it without awaiting
+const trackReady = (ready: Promise<unknown>) => {
+  let status: DependencyStatus = "starting";
+  ready.then(
+    () => (status = "ok"),
+    () => (status = "error"),
+  );
+  return () => status;
+};
+
+const storeStatus = {
+  authStore: trackReady(auth.ready),
+  jobsDb: trackReady(applications.ready),
+  resumesDb: trackReady(resumes.ready),
+  usageDb: trackReady(usage.ready),
+};
+
+// Answers 503 when a store failed to load; a missing LLM key only disables the AI routes
+app.get("/health", (_req: express.Request, res: express.Response) => {
+  const stores = Object.fromEntries(
+    Object.entries(storeStatus).map(([name, status]) => [name, { status: status() }]),
+  ) as Record<keyof typeof storeStatus, { status: DependencyStatus }>;
+  const ok = Object.values(stores).every(({ status }) => status !== "error");
+
+  res.status(ok ? 200 : 503).json({
+    ok,
+    openaiConfigured: Boolean(process.env.OPENAI_API_KEY),
+    llm: llm ? { provider: llm.name, model: llm.model } : null,
+    dependencies: {
+      llm: { status: llm ? "ok" : "not_configured" },
+      cache: { status: cache ? "enabled" : "disabled" },
+      ...stores,
+    },
+  });
+});
+
+// Prometheus text format
+app.get("/metrics", (_req: express.Request, res: express.Response) => {
+  res.type("text/plain; version=0.0.4").send(metrics.render());
+});
+
+type Analysis = ResumeAnalysis;
+
+type Feedback = Pick<Analysis, "strengths" | "improvements" | "tailoring">;
+
+// Validated request body shared by every resume endpoint, plus what the server knows about the caller
+type RequestContext = {
+  // Whose AI budget the request spends (see usageSubject)
+  subject: string;
+  // Logger tagged with the request id, also used by background job steps
+  log: Logger;
+};
+
+type ResumeRequestBody = z.infer<typeof resumeRequestSchema> & RequestContext;
+
+type Task = AnalysisStep;
+
+// Every prompt template: the analysis steps, plus the one that structures a resume into a profile
+type PromptId = Task | "profile";
+
+// Rule-based feedback for when there is no LLM to ask, or it failed; flagged so the UI does not present it as AI output
+const heuristicFeedback = (input: Pick<ResumeRequest, "resumeText" | "jobDescription">): Analysis => ({
+  ...analyzeResumeHeuristically(input),
+  source: "heuristic",
+});
+
+// --- Prompts (server/prompts/<task>.md, validated at startup) ---
+const TASKS: Task[] = [...ANALYSIS_STEPS];
+
+const PROMPT_IDS: PromptId[] = [...TASKS, "profile"];
+
+const prompts = loadTemplates(process.env.PROMPTS_DIR || "server/prompts", PROMPT_IDS);
+logger.info("prompt templates loaded", { templates: PROMPT_IDS.map((id) => templateVersion(prompts.get(id))) });
+
+const userMessage = (content: string) => [{ role: "user" as const, content }];
+
+// Renders a task's template into a completion request carrying the template's model settings
+const promptRequest = (
+  task: PromptId,
+  { resumeText, jobDescription, profile }: ResumeRequestBody,
+  signal?: AbortSignal,
+): CompletionRequest => {
+  const template = prompts.get(task);
+  const categories = RESUME_CHANGE_CATEGORIES.map((c) => `"${c}"`).join(", ");
+  const profileText = profile ? formatProfile(profile) : "Not provided; rely on the resume text.";
+  return {
+    task,
+    messages: userMessage(prompts.render(task, { resumeText, jobDescription, categories, profile: profileText })),
+    temperature: template.temperature,
+    model: template.model,
+    json: template.json,
+    signal,
+  };
+};
+
+const promptVersions = (tasks: Task[]): Partial<Record<Task, string>> =>
+  Object.fromEntries(tasks.map((task) => [task, templateVersion(prompts.get(task))]));
+
+// --- Generators (one LLM call each) ---
+const generateFeedback = async (llm: LLMProvider, input: ResumeRequestBody, signal?: AbortSignal): Promise<Feedback> => {
+  const parsed = await completeJson<Partial<Feedback>>(llm, promptRequest("feedback", input, signal));
+  return {
+    strengths: Array.isArray(parsed.strengths) ? parsed.strengths : [],
+    improvements: Array.isArray(parsed.improvements) ? parsed.improvements : [],
+    tailoring: Array.isArray(parsed.tailoring) ? parsed.tailoring : [],
+  };
+};
+
+const generateCustomizedResume = (llm: LLMProvider, input: ResumeRequestBody, signal?: AbortSignal) =>
+  completeText(llm, promptRequest("customize", input, signal));
+
+const generateSpecificChanges = async (
+  llm: LLMProvider,
+  input: ResumeRequestBody,
+  signal?: AbortSignal,
+): Promise<ResumeChange[]> => {
+  const { changes } = await completeStructured(
+    llm,
+    promptRequest("changes", input, signal),
+    resumeChangesResponseSchema,
+    { wrapArrayAs: "changes" },
+  );
+  return changes;
+};
+
+const generateCoverLetter = (llm: LLMProvider, input: ResumeRequestBody, signal?: AbortSignal) =>
+  completeText(llm, promptRequest("coverLetter", input, signal));
+
+const generateProfile = (llm: LLMProvider, input: ResumeRequestBody, signal?: AbortSignal) =>
+  completeStructured(llm, promptRequest("profile", input, signal), resumeProfileSchema);
+
+// Tasks whose output is plain text and can be streamed
+type StreamTask = "customize" | "coverLetter";
+
+// Validates the request body against `schema` and checks the caller's quota.
+// Sends the error response and returns null when the request cannot proceed.
+const readResumeRequest = async <T extends { resumeText?: string; jobDescription?: string; force?: boolean }>(
+  route: string,
+  req: express.Request,
+  res: express.Response,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+): Promise<(T & RequestContext) | null> => {
+  const log = requestLog(res);
+  if (!llm) {
+    log.error(`${route}: LLM provider not configured`);
+    sendError(res, "OPENAI_NOT_CONFIGURED", "The AI provider is not configured on the server.");
+    return null;
+  }
+
+  const body = parseBody(schema, req.body, res);
+  if (!body) {
+    log.warn(`${route}: invalid request body`);
+    return null;
+  }
+
+  const subject = usageSubject(req, res);
+  const exceeded = await usage.exceeded(subject);
+  if (exceeded) {
+    const { limit } = exceeded.summary[exceeded.period];
+    log.warn(`${route}: quota exceeded`, { period: exceeded.period });
+    sendError(
+      res,
+      "QUOTA_EXCEEDED",
+      exceeded.period === "day"
+        ? `You have used today's AI budget of ${limit?.toLocaleString("en-US")} tokens. It resets at midnight UTC.`
+        : `You have used this month's AI budget of ${limit?.toLocaleString("en-US")} tokens. It resets on the 1st (UTC).`,
+      { period: exceeded.period, usage: exceeded.summary },
+    );
+    return null;
+  }
+
+  // Only sizes are logged; resume and job text never reach the logs
+  log.info(`${route}: processing request`, {
+    resumeChars: body.resumeText.length,
+    jobDescriptionChars: (body.jobDescription ?? "").length,
+    profile: "profile" in body && Boolean(body.profile),
+    force: body.force,
+  });
+  return { ...body, subject, log };
+};
+
+const llmFailure = (err: unknown) =>
+  `The AI request failed: ${err instanceof Error ? err.message : "Unknown error occurred"}`;
+
+// The provider for one request: every completion is timed in /metrics and its token usage
+// is charged to the request's subject
+const llmFor = (input: ResumeRequestBody) =>
+  meteredProvider(metrics.instrumentProvider(llm!), (model, tokens) => {
+    usage.record(input.subject, model, tokens).catch((err) => input.log.warn("usage: failed to record usage", { err }));
+  });
+
+// The template version is part of the key, so bumping a template's version retires its cached results
+const keyFor = (task: PromptId, input: ResumeRequestBody) => {
+  const template = prompts.get(task);
+  return cacheKey({
+    kind: task,
+    resumeText: input.resumeText,
+    jobDescription: input.jobDescription,
+    profile: input.profile,
+    promptVersion: templateVersion(template),
+    model: `${llm!.name}/${template.model || llm!.model}`,
+  });
+};
+
+// Serves a generator's result from the cache when possible, otherwise generates and stores it.
+const withCache = async <T>(
+  task: PromptId,
+  input: ResumeRequestBody,
+  generate: (llm: LLMProvider, input: ResumeRequestBody, signal?: AbortSignal) => Promise<T>,
+  signal?: AbortSignal,
+): Promise<{ value: T; cached: boolean }> => {
+  const key = keyFor(task, input);
+  if (cache && !input.force) {
+    const hit = await cache.get<T>(key);
+    metrics.cacheLookup(task, Boolean(hit));
+    if (hit) {
+      input.log.info(`${task}: cache hit`);
+      return { value: hit.value, cached: true };
+    }
+  }
+
+  const value = await generate(llmFor(input), input, signal);
+  await cache?.set(key, value).catch((err) => input.log.warn(`${task}: failed to write cache`, { err }));
+  return { value, cached: false };
+};
+
+// Streaming counterpart of withCache: reports the text received so far through onText.
+// A cache hit is reported once with the full text.
+const streamWithCache = async (
+  task: StreamTask,
+  input: ResumeRequestBody,
+  onText: (text: string, chunk: string) => void,
+  signal?: AbortSignal,
+): Promise<{ value: string; cached: boolean }> => {
+  const key = keyFor(task, input);
+  const hit = cache && !input.force ? await cache.get<string>(key) : undefined;
+  if (cache && !input.force) metrics.cacheLookup(task, Boolean(hit));
+  if (hit) {
+    input.log.info(`${task}: cache hit`);
+    onText(hit.value, hit.value);
+    return { value: hit.value, cached: true };
+  }
+
+  const stream = llmFor(input).stream(promptRequest(task, input, signal));
+
+  let fullText = "";
+  for await (const chunk of stream) {
+    fullText += chunk;
+    onText(fullText, chunk);
+  }
+
+  const value = fullText.trim();
+  if (!value) {
+    throw new Error(`${llm!.name} returned an empty response`);
+  }
+  await cache?.set(key, value).catch((err) => input.log.warn(`${task}: failed to write cache`, { err }));
+  return { value, cached: false };
+};
+
+// Registers a POST route that runs a single generator and returns its part of the analysis.
+// Routes with an `offline` answer use it when no LLM is configured; it is free, so it skips the quota check.
+const artifactRoute = (
+  path: string,
+  task: Task,
+  generate: (input: ResumeRequestBody) => Promise<Partial<Analysis> & { cached: boolean }>,
+  schema: typeof resumeRequestSchema | typeof tailoredResumeRequestSchema,
+  offline?: (body: z.infer<typeof resumeRequestSchema>) => Partial<Analysis>,
+) => {
+  const rateLimit = aiRateLimitUnless(() => !llm && Boolean(offline));
+  app.post(path, rateLimit, async (req: express.Request, res: express.Response) => {
+    if (!llm && offline) {
+      const body = parseBody(schema, req.body, res);
+      if (!body) return;
+      requestLog(res).info(`${path}: no LLM configured, answering offline`);
+      return res.json({ ...offline(body), cached: false, promptVersions: {} });
+    }
+
+    const input = await readResumeRequest(path, req, res, schema);
+    if (!input) return;
+
+    try {
+      const result = await generate(input);
+      input.log.info(`${path}: ${result.cached ? "served from cache" : "generated"}`);
+      return res.json({ ...result, promptVersions: promptVersions([task]) });
+    } catch (err: unknown) {
+      input.log.error(`${path}: LLM request failed`, { err });
+      return sendError(res, "LLM_FAILED", llmFailure(err));
+    }
+  });
+};
+
+artifactRoute(
+  API_ROUTES.feedback.path,
+  "feedback",
+  async (input) => {
+    const { value, cached } = await withCache("feedback", input, generateFeedback);
+    return { ...value, source: "llm", cached };
+  },
+  resumeRequestSchema,
+  heuristicFeedback,
+);
+artifactRoute(
+  API_ROUTES.customizeResume.path,
+  "customize",
+  async (input) => {
+    const { value, cached } = await withCache("customize", input, generateCustomizedResume);
+    return { customizedResume: value, cached };
+  },
+  tailoredResumeRequestSchema,
+);
+artifactRoute(
+  API_ROUTES.specificChanges.path,
+  "changes",
+  async (input) => {
+    const { value, cached } = await withCache("changes", input, generateSpecificChanges);
+    return { specificChanges: value, cached };
+  },
+  tailoredResumeRequestSchema,
+);
+artifactRoute(
+  API_ROUTES.coverLetter.path,
+  "coverLetter",
+  async (input) => {
+    const { value, cached } = await withCache("coverLetter", input, generateCoverLetter);
+    return { coverLetter: value, cached };
+  },
+  tailoredResumeRequestSchema,
+);
+
+// --- Structured resume profile ---
+// The rule-based parser is free and needs no LLM, so it skips the quota check; the LLM mode falls back to it
+// when no provider is configured
+const profileRateLimit = aiRateLimitUnless((req) => req.body?.mode !== "llm" || !llm);
+app.post(API_ROUTES.parseProfile.path, profileRateLimit, async (req: express.Request, res: express.Response) => {
+  const path = API_ROUTES.parseProfile.path;
+  const body = parseBody(parseProfileRequestSchema, req.body, res);
+  if (!body) return;
+
+  if (body.mode === "deterministic" || !llm) {
+    requestLog(res).info(`${path}: parsed with the rule-based parser`, { requested: body.mode });
+    return res.json({ profile: parseProfileDeterministically(body.resumeText), mode: "deterministic", cached: false });
+  }
+
+  const input = await readResumeRequest(path, req, res, parseProfileRequestSchema);
+  if (!input) return;
+
+  try {
+    const { value, cached } = await withCache("profile", { ...input, jobDescription: "" }, generateProfile);
+    input.log.info(`${path}: ${cached ? "served from cache" : "generated"}`);
+    return res.json({ profile: value, mode: "llm", cached, promptVersion: templateVersion(prompts.get("profile")) });
+  } catch (err: unknown) {
+    input.log.error(`${path}: LLM request failed`, { err });
+    return sendError(res, "LLM_FAILED", llmFailure(err));
+  }
+});
+
+// --- Streaming (Server-Sent Events) ---
+// Events: `delta` ({ text }) for each token batch, then `done` ({ cached, promptVersions }) or `error` (the error envelope).
+// A cache hit is sent as a single delta.
+const sendEvent = (res: express.Response, event: string, data: unknown) => {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+};
+
+const streamRoute = (path: string, task: StreamTask) => {
+  app.post(path, aiRateLimit, async (req: express.Request, res: express.Response) => {
+    const input = await readResumeRequest(path, req, res, tailoredResumeRequestSchema);
+    if (!input) return;
+
+    // Stop paying for tokens as soon as the client goes away (cancel or dropped connection)
+    const controller = new AbortController();
+    res.on("close", () => controller.abort());
+
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    });
+
+    try {
+      const { value, cached } = await streamWithCache(
+        task,
+        input,
+        (_text, chunk) => sendEvent(res, "delta", { text: chunk }),
+        controller.signal,
+      );
+      input.log.info(`${path}: ${cached ? "served from cache" : "streamed"}`, { chars: value.length });
+      sendEvent(res, "done", { cached, promptVersions: promptVersions([task]) });
+    } catch (err: unknown) {
+      if (controller.signal.aborted) {
+        input.log.info(`${path}: client disconnected, stream cancelled`);
+        return;
+      }
+      input.log.error(`${path}: LLM stream failed`, { err });
+      sendEvent(res, "error", errorBody(res, "LLM_FAILED", llmFailure(err)));
+    }
+    res.end();
+  });
+};
+
+streamRoute(API_ROUTES.streamCustomizedResume.path, "customize");
+streamRoute(API_ROUTES.streamCoverLetter.path, "coverLetter");
+
+// --- Background analysis jobs ---
+// POST /api/analysis-jobs (or /api/analyze-resume with `"async": true`) enqueues a job and answers 202
+// right away; clients poll GET /api/analysis-jobs/:id for per-step progress and partial results.
+const analysisJobs = createJobQueue<Analysis>({ concurrency: 4, retentionMs: 60 * 60 * 1000 });
+
+// `promptVersions` covers every step of the job, so the shallow merge of step results keeps it whole
+const jobStep = (
+  task: Task,
+  input: ResumeRequestBody,
+  promptVersions: Analysis["promptVersions"],
+): JobStep<Analysis> => ({
+  name: task,
+  run: async ({ signal, update }) => {
+    switch (task) {
+      case "feedback": {
+        const { value, cached } = await withCache("feedback", input, generateFeedback, signal);
+        return { result: { ...value, source: "llm", promptVersions }, cached };
+      }
+      case "changes": {
+        const { value, cached } = await withCache("changes", input, generateSpecificChanges, signal);
+        return { result: { specificChanges: value, promptVersions }, cached };
+      }
+      case "customize": {
+        const { value, cached } = await streamWithCache(
+          "customize",
+          input,
+          (text) => update({ customizedResume: text }),
+          signal,
+        );
+        return { result: { customizedResume: value, promptVersions }, cached };
+      }
+      case "coverLetter": {
+        const { value, cached } = await streamWithCache(
+          "coverLetter",
+          input,
+          (text) => update({ coverLetter: text }),
+          signal,
+        );
+        return { result: { coverLetter: value, promptVersions }, cached };
+      }
+    }
+  },
+});
+
+// The schema has already checked that the steps exist and that a job description is present when needed
+const enqueueAnalysis = (res: express.Response, input: z.infer<typeof analysisJobRequestSchema> & RequestContext) => {
+  const steps = input.steps
+    ? TASKS.filter((task) => input.steps.includes(task))
+    : input.jobDescription
+      ? TASKS
+      : (["feedback"] as Task[]);
+
+  const versions = promptVersions(steps);
+  const job = analysisJobs.enqueue(steps.map((task) => jobStep(task, input, versions)), input.subject);
+  input.log.info("analysis-jobs: enqueued job", { jobId: job.id, steps });
+  return res.status(202).location(`/api/analysis-jobs/${job.id}`).json(job);
+};
+
+// Only enqueueing spends AI budget, so polling is not rate limited
+app.post(API_ROUTES.startAnalysisJob.path, aiRateLimit, async (req: express.Request, res: express.Response) => {
+  try {
+    const input = await readResumeRequest("analysis-jobs", req, res, analysisJobRequestSchema);
+    if (!input) return;
+    return enqueueAnalysis(res, input);
+  } catch (err: unknown) {
+    requestLog(res).error("analysis-jobs: unexpected error", { err });
+    return sendError(res, "INTERNAL", err instanceof Error ? err.message : "Unknown error occurred");
+  }
+});
+
+// Jobs are only visible to the user (or, for guests, the IP) that started them
+app.get(expressPath("analysisJob"), (req: express.Request, res: express.Response) => {
+  const job = analysisJobs.get(req.params.id, usageSubject(req, res));
+  if (!job) {
+    return sendError(res, "NOT_FOUND", "Analysis job not found");
+  }
+  return res.json(job);
+});
+
+app.post(expressPath("cancelAnalysisJob"), (req: express.Request, res: express.Response) => {
+  const job = analysisJobs.get(req.params.id, usageSubject(req, res));
+  if (!job) {
+    return sendError(res, "NOT_FOUND", "Analysis job not found");
+  }
+  if (!analysisJobs.cancel(job.id)) {
+    return sendError(res, "CONFLICT", `Analysis job is already ${job.status}`);
+  }
+  requestLog(res).info("analysis-jobs: cancelled job", { jobId: job.id });
+  return res.json(job);
+});
+
+// Composite endpoint: runs every generator in parallel and merges the results.
+// Without an LLM it answers with heuristic feedback only (background jobs still need the LLM).
+const analyzeRateLimit = aiRateLimitUnless((req) => !llm && !req.body?.async);
+app.post(API_ROUTES.analyzeResume.path, analyzeRateLimit, async (req: express.Request, res: express.Response) => {
+  const log = requestLog(res);
+  try {
+    if (!llm) {
+      const body = parseBody(analyzeResumeRequestSchema, req.body, res);
+      if (!body) return;
+      if (!body.async) {
+        log.info("analyze-resume: no LLM configured, returning heuristic analysis");
+        return res.json({ ...heuristicFeedback(body), cached: false, promptVersions: {} });
+      }
+    }
+
+    const input = await readResumeRequest("analyze-resume", req, res, analyzeResumeRequestSchema);
+    if (!input) return;
+
+    if (input.async) {
+      return enqueueAnalysis(res, input);
+    }
+
+    const hasJobDescription = Boolean(input.jobDescription);
+    const skip = Promise.resolve({ value: undefined, cached: true });
+
+    const results = await Promise.allSettled([
+      withCache("feedback", input, generateFeedback),
+      hasJobDescription ? withCache("customize", input, generateCustomizedResume) : skip,
+      hasJobDescription ? withCache("changes", input, generateSpecificChanges) : skip,
+      hasJobDescription ? withCache("coverLetter", input, generateCoverLetter) : skip,
+    ] as const);
+    const [feedback, customizedResume, specificChanges, coverLetter] = results;
+
+    const analysis: Analysis = {
+      ...(feedback.status === "fulfilled" ? { ...feedback.value.value, source: "llm" } : heuristicFeedback(input)),
+      cached: results.every((result) => result.status === "fulfilled" && result.value.cached),
+      // Only the parts that were actually generated; heuristic feedback has no template
+      promptVersions: promptVersions(
+        TASKS.filter((_task, i) => results[i].status === "fulfilled" && (i === 0 || hasJobDescription)),
+      ),
+    };
+
+    if (feedback.status === "rejected") {
+      log.error("analyze-resume: feedback failed, returning heuristic feedback", { err: feedback.reason });
+    }
+
+    if (customizedResume.status === "fulfilled") {
+      analysis.customizedResume = customizedResume.value.value;
+    } else {
+      log.error("analyze-resume: failed to generate customized resume", { err: customizedResume.reason });
+    }
+
+    if (specificChanges.status === "fulfilled") {
+      analysis.specificChanges = specificChanges.value.value;
+    } else {
+      log.error("analyze-resume: failed to generate specific changes", { err: specificChanges.reason });
+    }
+
+    if (hasJobDescription) {
+      if (coverLetter.status === "fulfilled") {
+        analysis.coverLetter = coverLetter.value.value;
+      } else {
+        log.error("analyze-resume: failed to generate cover letter", { err: coverLetter.reason });
+        // Set a fallback message instead of silently failing
+        const reason = coverLetter.reason instanceof Error ? coverLetter.reason.message : "Unknown error";
+        analysis.coverLetter = `Cover letter generation failed: ${reason}. Please try again.`;
+      }
+    }
+
+    return res.json(analysis);
+  } catch (err: unknown) {
+    log.error("analyze-resume: unexpected error", { err });
+    return sendError(res, "INTERNAL", err instanceof Error ? err.message : "Unknown error occurred");
+  }
+});
+
+// The API description, generated from the shared route table (shared/routes.ts)
+const openApiDocument = createOpenApiDocument();
+app.get("/api/openapi.json", (_req: express.Request, res: express.Response) => {
+  res.json(openApiDocument);
+});
+
+// Unknown API routes answer with the error envelope rather than Express's HTML page
+app.use("/api", (req: express.Request, res: express.Response) => {
+  sendError(res, "NOT_FOUND", `No route for ${req.method} ${req.baseUrl}${req.path}`);
+});
+
+// Error handling middleware (must be after all routes)
+app.use((err: unknown, req: express.Request, res: express.Response, next: express.NextFunction) => {
+  if (res.headersSent) {
+    requestLog(res).error("unhandled error after the response started", { err });
+    return;
+  }
+
+  // Raised by express.json() before any route runs
+  const type = (err as { type?: string } | null)?.type;
+  if (type === "entity.parse.failed") {
+    sendValidationError(res, [{ path: "", message: "Request body is not valid JSON" }]);
+    return;
+  }
+  if (type === "entity.too.large") {
+    sendError(res, "PAYLOAD_TOO_LARGE", "Request body is too large");
+    return;
+  }
+
+  requestLog(res).error("unhandled error", { err });
+  sendError(res, "INTERNAL", err instanceof Error ? err.message : "Unknown error occurred");
+});
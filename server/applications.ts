@@ -0,0 +1,19 @@
+// server/applications.ts
+import type { JobApplication } from "../shared/api";
+import { jobApplicationSchema } from "../shared/schemas";
+import { createUserCollection, createUserCollectionRoutes, type UserCollection } from "./userCollection";
+
+type ApplicationStoreOptions = {
+  // NeDB datafile (append-only, compacted on startup)
+  filename: string;
+};
+
+// Job applications, most recently applied first
+export const createApplicationStore = ({ filename }: ApplicationStoreOptions) =>
+  createUserCollection<JobApplication>({ filename, newestFirst: "dateApplied" });
+
+export type ApplicationStore = UserCollection<JobApplication>;
+
+// CRUD for the signed-in user's applications, mounted at /api/jobs
+export const createApplicationRoutes = (store: ApplicationStore) =>
+  createUserCollectionRoutes(store, { schema: jobApplicationSchema, noun: "Job application", component: "jobs" });
@@ -0,0 +1,78 @@
+// server/auth.test.ts
+import express from "express";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import request from "supertest";
+import { afterAll, describe, expect, it } from "vitest";
+import { createAuth, hashPassword, SESSION_COOKIE, verifyPassword } from "./auth";
+
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "auth-test-"));
+
+const authApp = () => {
+  const auth = createAuth({
+    file: path.join(dataDir, `${Math.random()}.json`),
+    sessionTtlMs: 60_000,
+    secureCookies: false,
+  });
+  const app = express();
+  app.use(express.json());
+  app.use(auth.middleware);
+  app.use("/api/auth", auth.router);
+  return app;
+};
+
+const sessionCookie = (res: request.Response) =>
+  ([] as string[]).concat(res.headers["set-cookie"] ?? []).find((cookie) => cookie.startsWith(`${SESSION_COOKIE}=`));
+
+afterAll(() => {
+  fs.rmSync(dataDir, { recursive: true, force: true });
+});
+
+describe("password hashing", () => {
+  it("verifies the right password and rejects a wrong one", async () => {
+    const stored = await hashPassword("correct horse");
+
+    expect(stored).not.toContain("correct horse");
+    expect(await verifyPassword("correct horse", stored)).toBe(true);
+    expect(await verifyPassword("battery staple", stored)).toBe(false);
+  });
+
+  it("salts every hash", async () => {
+    expect(await hashPassword("same")).not.toBe(await hashPassword("same"));
+  });
+});
+
+describe("sessions", () => {
+  const credentials = { email: "jane@example.com", password: "correct horse" };
+
+  it("signs up, resolves the session cookie and signs out", async () => {
+    const app = authApp();
+    const signup = await request(app).post("/api/auth/signup").send(credentials);
+    expect(signup.status).toBe(201);
+    const cookie = sessionCookie(signup)!.split(";")[0];
+
+    const me = await request(app).get("/api/auth/me").set("Cookie", cookie);
+    expect(me.body.user.email).toBe(credentials.email);
+
+    await request(app).post("/api/auth/logout").set("Cookie", cookie).expect(204);
+    await request(app).get("/api/auth/me").set("Cookie", cookie).expect(401);
+  });
+
+  it("rejects a wrong password and a second signup with the same email", async () => {
+    const app = authApp();
+    await request(app).post("/api/auth/signup").send(credentials).expect(201);
+
+    const login = await request(app).post("/api/auth/login").send({ ...credentials, password: "wrong password" });
+    expect(login.body.error.code).toBe("INVALID_CREDENTIALS");
+    expect((await request(app).post("/api/auth/signup").send(credentials)).status).toBe(409);
+  });
+
+  it("treats a malformed session cookie as signed out", async () => {
+    const app = authApp();
+    const cookie = `${SESSION_COOKIE}=%E0%A4%A`;
+
+    await request(app).get("/api/auth/me").set("Cookie", cookie).expect(401);
+    await request(app).post("/api/auth/signup").set("Cookie", cookie).send(credentials).expect(201);
+  });
+});
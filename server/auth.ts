@@ -0,0 +1,265 @@
+// server/auth.ts
+import { createHash, randomBytes, randomUUID, scrypt, timingSafeEqual } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import express from "express";
+import { parseBody, sendError } from "./errors";
+import { logger, requestLog } from "./logger";
+import { loginRequestSchema, signupRequestSchema } from "../shared/schemas";
+
+export type User = {
+  id: string;
+  email: string;
+  name?: string;
+  createdAt: string;
+};
+
+type StoredUser = User & {
+  // `scrypt$<salt>$<hash>`, both hex encoded
+  passwordHash: string;
+};
+
+type Session = {
+  userId: string;
+  expiresAt: number;
+};
+
+type AuthData = {
+  users: StoredUser[];
+  // Keyed by the sha256 of the session token, so a leaked file does not leak live cookies
+  sessions: Record<string, Session>;
+};
+
+type AuthOptions = {
+  // JSON file holding users and sessions
+  file: string;
+  sessionTtlMs: number;
+  // Send the cookie with `Secure` (needs HTTPS)
+  secureCookies: boolean;
+};
+
+export const SESSION_COOKIE = "smartapply_session";
+
+// --- Password hashing (scrypt with a random salt per user) ---
+const KEY_LENGTH = 64;
+
+const deriveKey = (password: string, salt: Buffer) =>
+  new Promise<Buffer>((resolve, reject) => {
+    scrypt(password.normalize("NFKC"), salt, KEY_LENGTH, (err, key) => (err ? reject(err) : resolve(key)));
+  });
+
+export const hashPassword = async (password: string): Promise<string> => {
+  const salt = randomBytes(16);
+  const key = await deriveKey(password, salt);
+  return `scrypt$${salt.toString("hex")}$${key.toString("hex")}`;
+};
+
+export const verifyPassword = async (password: string, stored: string): Promise<boolean> => {
+  const [scheme, salt, hash] = stored.split("$");
+  if (scheme !== "scrypt" || !salt || !hash) return false;
+  const expected = Buffer.from(hash, "hex");
+  const key = await deriveKey(password, Buffer.from(salt, "hex"));
+  return key.length === expected.length && timingSafeEqual(key, expected);
+};
+
+// Used when the email is unknown so a failed login takes as long as a wrong password
+const DUMMY_HASH = hashPassword(randomUUID());
+
+const hashToken = (token: string) => createHash("sha256").update(token).digest("hex");
+
+const publicUser = ({ id, email, name, createdAt }: StoredUser): User => ({ id, email, name, createdAt });
+
+// Minimal Cookie header parser; we only ever read our own session cookie. A value that is not valid
+// percent-encoding counts as no cookie, so a mangled cookie cannot break every request from that browser
+const readCookie = (req: express.Request, name: string): string | undefined => {
+  for (const part of (req.headers.cookie || "").split(";")) {
+    const eq = part.indexOf("=");
+    if (eq !== -1 && part.slice(0, eq).trim() === name) {
+      try {
+        return decodeURIComponent(part.slice(eq + 1).trim());
+      } catch {
+        return undefined;
+      }
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Users and sessions in a single JSON file. Writes are serialized and go through a temp file,
+ * so concurrent requests never interleave and a crash never leaves a half-written store.
+ */
+const createAuthStore = (file: string) => {
+  let writing = Promise.resolve();
+
+  const data: Promise<AuthData> = fs
+    .readFile(file, "utf8")
+    .then((raw) => JSON.parse(raw) as AuthData)
+    .catch((err: NodeJS.ErrnoException) => {
+      if (err.code !== "ENOENT") throw err;
+      return { users: [], sessions: {} };
+    });
+
+  const save = async () => {
+    const snapshot = JSON.stringify(await data);
+    // A failed write must not block the ones queued after it
+    writing = writing.catch(() => undefined).then(async () => {
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      const tmp = `${file}.${process.pid}.tmp`;
+      await fs.writeFile(tmp, snapshot, "utf8");
+      await fs.rename(tmp, file);
+    });
+    return writing;
+  };
+
+  return {
+    ready: data.then(() => undefined),
+
+    async findUserByEmail(email: string) {
+      return (await data).users.find((user) => user.email === email);
+    },
+
+    // Returns false when the email was registered in the meantime (e.g. a double-submitted form)
+    async createUser(user: StoredUser) {
+      const store = await data;
+      if (store.users.some((existing) => existing.email === user.email)) return false;
+      store.users.push(user);
+      await save();
+      return true;
+    },
+
+    // Returns the user behind a session token, dropping the session once it has expired
+    async userForToken(token: string) {
+      const store = await data;
+      const key = hashToken(token);
+      const session = store.sessions[key];
+      if (!session) return undefined;
+      if (session.expiresAt < Date.now()) {
+        delete store.sessions[key];
+        await save();
+        return undefined;
+      }
+      return store.users.find((user) => user.id === session.userId);
+    },
+
+    async createSession(userId: string, ttlMs: number) {
+      const store = await data;
+      const now = Date.now();
+      for (const [key, session] of Object.entries(store.sessions)) {
+        if (session.expiresAt < now) delete store.sessions[key];
+      }
+      const token = randomBytes(32).toString("base64url");
+      store.sessions[hashToken(token)] = { userId, expiresAt: now + ttlMs };
+      await save();
+      return token;
+    },
+
+    async deleteSession(token: string) {
+      delete (await data).sessions[hashToken(token)];
+      await save();
+    },
+  };
+};
+
+// The signed-in user for this request, set by the auth middleware
+export const currentUser = (res: express.Response): User | undefined => res.locals.user as User | undefined;
+
+// Rejects requests without a session; handlers after it can rely on currentUser(res)
+export const requireUser: express.RequestHandler = (_req, res, next) => {
+  if (!currentUser(res)) {
+    sendError(res, "UNAUTHENTICATED", "Not signed in");
+    return;
+  }
+  next();
+};
+
+/**
+ * Session-cookie authentication. Returns a middleware that resolves the session cookie into
+ * `res.locals.user` (see `currentUser`) and a router with the /signup, /login, /logout and /me endpoints.
+ */
+export const createAuth = ({ file, sessionTtlMs, secureCookies }: AuthOptions) => {
+  const store = createAuthStore(file);
+  store.ready.catch((err) => logger.error("auth: failed to load the user store", { file, err }));
+
+  const startSession = async (res: express.Response, user: StoredUser) => {
+    const token = await store.createSession(user.id, sessionTtlMs);
+    res.cookie(SESSION_COOKIE, token, {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: secureCookies,
+      maxAge: sessionTtlMs,
+      path: "/",
+    });
+  };
+
+  const middleware: express.RequestHandler = async (req, res, next) => {
+    const token = readCookie(req, SESSION_COOKIE);
+    if (token) {
+      try {
+        const user = await store.userForToken(token);
+        if (user) res.locals.user = publicUser(user);
+      } catch (err) {
+        requestLog(res).error("auth: failed to resolve session", { err });
+      }
+    }
+    next();
+  };
+
+  const router = express.Router();
+
+  router.post("/signup", async (req: express.Request, res: express.Response) => {
+    const body = parseBody(signupRequestSchema, req.body, res);
+    if (!body) return;
+    const { email, password, name } = body;
+
+    const user: StoredUser = {
+      id: randomUUID(),
+      email,
+      name: name || undefined,
+      createdAt: new Date().toISOString(),
+      passwordHash: await hashPassword(password),
+    };
+    if (!(await store.createUser(user))) {
+      requestLog(res).info("auth/signup: email already registered");
+      return sendError(res, "CONFLICT", "An account with this email already exists");
+    }
+    await startSession(res, user);
+
+    requestLog(res).info("auth/signup: created user", { userId: user.id });
+    return res.status(201).json({ user: publicUser(user) });
+  });
+
+  router.post("/login", async (req: express.Request, res: express.Response) => {
+    const body = parseBody(loginRequestSchema, req.body, res);
+    if (!body) return;
+    const { email, password } = body;
+
+    const user = await store.findUserByEmail(email);
+    const valid = await verifyPassword(password, user?.passwordHash ?? (await DUMMY_HASH));
+    if (!user || !valid) {
+      requestLog(res).info("auth/login: invalid credentials");
+      return sendError(res, "INVALID_CREDENTIALS", "Email or password is incorrect");
+    }
+
+    await startSession(res, user);
+    requestLog(res).info("auth/login: user signed in", { userId: user.id });
+    return res.json({ user: publicUser(user) });
+  });
+
+  router.post("/logout", async (req: express.Request, res: express.Response) => {
+    const token = readCookie(req, SESSION_COOKIE);
+    if (token) await store.deleteSession(token);
+    res.clearCookie(SESSION_COOKIE, { httpOnly: true, sameSite: "lax", secure: secureCookies, path: "/" });
+    return res.status(204).end();
+  });
+
+  router.get("/me", (_req: express.Request, res: express.Response) => {
+    const user = currentUser(res);
+    if (!user) {
+      return sendError(res, "UNAUTHENTICATED", "Not signed in");
+    }
+    return res.json({ user });
+  });
+
+  return { middleware, router, ready: store.ready };
+};
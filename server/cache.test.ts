@@ -0,0 +1,84 @@
+// server/cache.test.ts
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterAll, describe, expect, it, vi } from "vitest";
+import { cacheKey, createFileCache } from "./cache";
+
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "cache-test-"));
+
+const PARTS = {
+  kind: "feedback",
+  resumeText: "Jane Doe\nSoftware Engineer",
+  jobDescription: "We need a React developer.",
+  promptVersion: "feedback@2",
+  model: "mock",
+};
+
+const cacheIn = (name: string, options: Partial<Parameters<typeof createFileCache>[0]> = {}) =>
+  createFileCache({ dir: path.join(dataDir, name), ttlMs: 60_000, maxEntries: 10, maxBytes: 1024 * 1024, ...options });
+
+afterAll(() => {
+  fs.rmSync(dataDir, { recursive: true, force: true });
+});
+
+describe("cacheKey", () => {
+  it("ignores whitespace-only differences", () => {
+    const reformatted = { ...PARTS, resumeText: "  Jane  Doe\r\n\r\n\r\nSoftware Engineer  " };
+
+    expect(cacheKey(reformatted)).toBe(cacheKey({ ...PARTS, resumeText: "Jane Doe\n\nSoftware Engineer" }));
+  });
+
+  it("changes with the kind, prompt version, model, texts and profile", () => {
+    const key = cacheKey(PARTS);
+
+    expect(cacheKey({ ...PARTS, kind: "customize" })).not.toBe(key);
+    expect(cacheKey({ ...PARTS, promptVersion: "feedback@3" })).not.toBe(key);
+    expect(cacheKey({ ...PARTS, model: "gpt-4o" })).not.toBe(key);
+    expect(cacheKey({ ...PARTS, jobDescription: "We need a Vue developer." })).not.toBe(key);
+    expect(cacheKey({ ...PARTS, profile: { summary: "Engineer" } })).not.toBe(key);
+  });
+});
+
+describe("createFileCache", () => {
+  it("returns what was stored and survives a restart", async () => {
+    await cacheIn("restart").set("a", { answer: 42 });
+
+    expect((await cacheIn("restart").get("a"))?.value).toEqual({ answer: 42 });
+    expect(await cacheIn("restart").get("b")).toBeUndefined();
+  });
+
+  it("handles concurrent writes of the same key", async () => {
+    const cache = cacheIn("concurrent");
+    await Promise.all([cache.set("a", 1), cache.set("a", 2)]);
+
+    expect([1, 2]).toContain((await cache.get("a"))?.value);
+    expect(fs.readdirSync(path.join(dataDir, "concurrent"))).toEqual(["a.json"]);
+  });
+
+  it("drops expired entries", async () => {
+    const cache = cacheIn("expired", { ttlMs: -1 });
+    await cache.set("a", 1);
+
+    expect(await cache.get("a")).toBeUndefined();
+  });
+
+  it("evicts the least recently used entry once full", async () => {
+    // Only the clock is faked, so each step gets its own access time
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const tick = () => vi.setSystemTime(Date.now() + 1000);
+    const cache = cacheIn("full", { maxEntries: 2 });
+    await cache.set("a", 1);
+    tick();
+    await cache.set("b", 2);
+    tick();
+    await cache.get("a");
+    tick();
+    await cache.set("c", 3);
+    vi.useRealTimers();
+
+    expect(await cache.get("b")).toBeUndefined();
+    expect((await cache.get("a"))?.value).toBe(1);
+    expect((await cache.get("c"))?.value).toBe(3);
+  });
+});
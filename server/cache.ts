@@ -0,0 +1,157 @@
+// server/cache.ts
+import { createHash, randomBytes } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import { normalizeText } from "./documents/text";
+import { logger } from "./logger";
+
+const log = logger.child({ component: "cache" });
+
+type CacheOptions = {
+  dir: string;
+  ttlMs: number;
+  maxEntries: number;
+  maxBytes: number;
+};
+
+type IndexEntry = {
+  size: number;
+  createdAt: number;
+  lastAccess: number;
+};
+
+type StoredEntry<T> = {
+  createdAt: number;
+  value: T;
+};
+
+export type CacheHit<T> = {
+  value: T;
+  createdAt: number;
+};
+
+export interface AnalysisCache {
+  get<T>(key: string): Promise<CacheHit<T> | undefined>;
+  set<T>(key: string, value: T): Promise<void>;
+}
+
+export type CacheKeyParts = {
+  // Which artifact the entry holds ("feedback", "customize", ...)
+  kind: string;
+  resumeText: string;
+  jobDescription: string;
+  // The reviewed resume profile sent with the request, if any
+  profile?: unknown;
+  promptVersion: string;
+  model: string;
+};
+
+// Texts are normalized the way uploads are, so whitespace-only edits (re-pasting, PDF re-extraction) still hit
+export const cacheKey = ({ kind, resumeText, jobDescription, profile, promptVersion, model }: CacheKeyParts) =>
+  createHash("sha256")
+    .update(
+      JSON.stringify([
+        kind,
+        promptVersion,
+        model,
+        normalizeText(resumeText),
+        normalizeText(jobDescription),
+        profile ?? null,
+      ]),
+    )
+    .digest("hex");
+
+/**
+ * Stores one JSON file per key in `dir`. An in-memory index (rebuilt from the directory on startup)
+ * tracks sizes and access times so expired entries are dropped and the least recently used ones are
+ * evicted once `maxEntries` or `maxBytes` is exceeded.
+ */
+export const createFileCache = ({ dir, ttlMs, maxEntries, maxBytes }: CacheOptions): AnalysisCache => {
+  const index = new Map<string, IndexEntry>();
+  let totalBytes = 0;
+
+  const fileFor = (key: string) => path.join(dir, `${key}.json`);
+
+  const remove = async (key: string) => {
+    const entry = index.get(key);
+    if (entry) {
+      totalBytes -= entry.size;
+      index.delete(key);
+    }
+    await fs.rm(fileFor(key), { force: true });
+  };
+
+  const ready = (async () => {
+    await fs.mkdir(dir, { recursive: true });
+    for (const name of await fs.readdir(dir)) {
+      if (!name.endsWith(".json")) continue;
+      const stat = await fs.stat(path.join(dir, name));
+      index.set(name.slice(0, -".json".length), {
+        size: stat.size,
+        createdAt: stat.mtimeMs,
+        lastAccess: stat.mtimeMs,
+      });
+      totalBytes += stat.size;
+    }
+  })().catch((err) => {
+    log.error("failed to load cache directory, starting empty", { dir, err });
+  });
+
+  const evict = async () => {
+    const now = Date.now();
+    for (const [key, entry] of index) {
+      if (now - entry.createdAt > ttlMs) await remove(key);
+    }
+    if (index.size <= maxEntries && totalBytes <= maxBytes) return;
+
+    const byAge = [...index.entries()].sort((a, b) => a[1].lastAccess - b[1].lastAccess);
+    for (const [key] of byAge) {
+      if (index.size <= maxEntries && totalBytes <= maxBytes) break;
+      await remove(key);
+    }
+  };
+
+  return {
+    async get<T>(key: string) {
+      await ready;
+      const entry = index.get(key);
+      if (!entry) return undefined;
+
+      if (Date.now() - entry.createdAt > ttlMs) {
+        await remove(key);
+        return undefined;
+      }
+
+      try {
+        const stored = JSON.parse(await fs.readFile(fileFor(key), "utf8")) as StoredEntry<T>;
+        entry.lastAccess = Date.now();
+        return { value: stored.value, createdAt: stored.createdAt };
+      } catch (err) {
+        log.warn("dropping unreadable entry", { key, err });
+        await remove(key);
+        return undefined;
+      }
+    },
+
+    async set<T>(key: string, value: T) {
+      await ready;
+      const createdAt = Date.now();
+      const body = JSON.stringify({ createdAt, value } satisfies StoredEntry<T>);
+      const size = Buffer.byteLength(body);
+      if (size > maxBytes) return;
+
+      // Write to a temp file first so a crash never leaves a half-written entry behind; its name is unique so two
+      // concurrent misses for the same key never write the same file
+      const tmp = `${fileFor(key)}.${process.pid}.${randomBytes(6).toString("hex")}.tmp`;
+      await fs.writeFile(tmp, body, "utf8");
+      await fs.rename(tmp, fileFor(key));
+
+      const previous = index.get(key);
+      if (previous) totalBytes -= previous.size;
+      index.set(key, { size, createdAt, lastAccess: createdAt });
+      totalBytes += size;
+
+      await evict();
+    },
+  };
+};
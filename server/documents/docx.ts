@@ -0,0 +1,14 @@
+// server/documents/docx.ts
+import mammoth from "mammoth";
+
+/** Extracts the body text of a Word document, one paragraph per line. */
+export const extractDocx = async (data: Buffer): Promise<{ parser: string; text: string }> => {
+  let value: string;
+  try {
+    ({ value } = await mammoth.extractRawText({ buffer: data }));
+  } catch {
+    throw new Error("This file could not be read as a Word document.");
+  }
+  // mammoth ends every paragraph with a blank line
+  return { parser: "mammoth", text: value.replace(/\n\n/g, "\n") };
+};
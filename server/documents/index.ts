@@ -0,0 +1,158 @@
+// server/documents/index.ts
+import path from "path";
+import express from "express";
+import type { DocumentFormat, ParsedDocument } from "../../shared/api";
+import { parseDocumentQuerySchema } from "../../shared/schemas";
+import { parseBody, sendError } from "../errors";
+import { requestLog } from "../logger";
+import { extractDocx } from "./docx";
+import { markdownToText } from "./markdown";
+import { extractPdf } from "./pdf";
+import { rtfToText } from "./rtf";
+import { detectSections, normalizeText } from "./text";
+
+const MARKDOWN_EXTENSIONS = new Set([".md", ".markdown"]);
+
+const startsWith = (data: Buffer, signature: string) =>
+  data.subarray(0, signature.length).toString("latin1") === signature;
+
+const utf8 = new TextDecoder("utf-8", { fatal: true });
+
+// UTF-8 (with or without a byte order mark) or UTF-16 with one; null for anything else
+const decodeText = (data: Buffer): string | null => {
+  if (data[0] === 0xff && data[1] === 0xfe) return new TextDecoder("utf-16le").decode(data.subarray(2));
+  if (data[0] === 0xfe && data[1] === 0xff) return new TextDecoder("utf-16be").decode(data.subarray(2));
+  try {
+    const text = utf8.decode(data);
+    return text.includes("\u0000") ? null : text;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Detects the format from the file's signature; the name only tells Markdown from plain text,
+ * since browsers report inconsistent content types for both.
+ */
+export const detectFormat = (data: Buffer, filename = ""): DocumentFormat | null => {
+  if (startsWith(data, "%PDF-")) return "pdf";
+  if (startsWith(data, "{\\rtf")) return "rtf";
+  // A ZIP archive; DOCX files always contain word/document.xml
+  if (startsWith(data, "PK\u0003\u0004")) return data.includes("word/document.xml") ? "docx" : null;
+  if (decodeText(data) === null) return null;
+  return MARKDOWN_EXTENSIONS.has(path.extname(filename).toLowerCase()) ? "markdown" : "text";
+};
+
+/**
+ * Extracts normalized text from a PDF, DOCX, RTF, Markdown or plain text file, with PDF page ranges
+ * and the resume sections found in the text. Rejects with a user-facing message when the file cannot be read.
+ */
+export const parseDocument = async (data: Buffer, format: DocumentFormat): Promise<ParsedDocument> => {
+  const warnings: string[] = [];
+  let parser: string;
+  let text: string;
+  const pages: ParsedDocument["pages"] = [];
+
+  switch (format) {
+    case "pdf": {
+      const extracted = await extractPdf(data);
+      parser = extracted.parser;
+      // Pages are normalized one by one so their ranges stay exact in the joined text
+      const pageTexts = extracted.pages.map((page) => normalizeText(page.text));
+      text = "";
+      pageTexts.forEach((pageText, index) => {
+        if (text && pageText) text += "\n\n";
+        pages.push({
+          number: index + 1,
+          start: text.length,
+          end: text.length + pageText.length,
+          columns: extracted.pages[index].columns,
+        });
+        text += pageText;
+      });
+      const blank = pageTexts.filter((pageText) => !pageText).length;
+      if (blank && blank < pageTexts.length) {
+        warnings.push(`${blank} of ${pageTexts.length} pages have no selectable text (they may be scanned images).`);
+      }
+      break;
+    }
+    case "docx": {
+      const extracted = await extractDocx(data);
+      parser = extracted.parser;
+      text = normalizeText(extracted.text);
+      break;
+    }
+    case "rtf":
+      parser = "rtf";
+      text = normalizeText(rtfToText(data.toString("latin1")));
+      break;
+    case "markdown":
+      parser = "markdown";
+      text = normalizeText(markdownToText(decodeText(data) ?? ""));
+      break;
+    case "text":
+      parser = "plain text";
+      text = normalizeText(decodeText(data) ?? "");
+      break;
+  }
+
+  if (!text) {
+    throw new Error(
+      format === "pdf"
+        ? "No text was found in this PDF. It may be a scanned image; export it as a text PDF or upload a DOCX instead."
+        : "No text was found in this file.",
+    );
+  }
+
+  return { format, parser, text, pages, sections: detectSections(text), warnings };
+};
+
+type DocumentRoutesOptions = {
+  // Largest accepted upload, in bytes
+  maxBytes: number;
+};
+
+/** Router for /api/documents. */
+export const createDocumentRoutes = ({ maxBytes }: DocumentRoutesOptions) => {
+  const router = express.Router();
+
+  // The body is the file itself, whatever content type the browser gave it
+  router.post("/parse", express.raw({ type: () => true, limit: maxBytes }), async (req, res) => {
+    const log = requestLog(res);
+    const query = parseBody(parseDocumentQuerySchema, req.query, res);
+    if (!query) return;
+
+    const data = req.body as Buffer;
+    if (!Buffer.isBuffer(data) || data.length === 0) {
+      return sendError(res, "VALIDATION_FAILED", "The request body must be the file to parse");
+    }
+
+    const format = detectFormat(data, query.filename);
+    if (!format) {
+      log.warn("documents: unsupported file", { bytes: data.length, contentType: req.get("content-type") });
+      return sendError(res, "UNSUPPORTED_DOCUMENT", "Upload a PDF, DOCX, RTF, Markdown or plain text file.");
+    }
+
+    try {
+      const document = await parseDocument(data, format);
+      log.info("documents: parsed file", {
+        format,
+        parser: document.parser,
+        bytes: data.length,
+        chars: document.text.length,
+        pages: document.pages.length,
+        sections: document.sections.length,
+      });
+      return res.json(document);
+    } catch (err: unknown) {
+      log.warn("documents: could not parse file", { format, err });
+      return sendError(
+        res,
+        "UNREADABLE_DOCUMENT",
+        err instanceof Error ? err.message : "The file could not be read.",
+      );
+    }
+  });
+
+  return router;
+};
@@ -0,0 +1,76 @@
+// server/documents/layout.test.ts
+import type { TextItem } from "pdfjs-dist/types/src/display/api";
+import { describe, expect, it } from "vitest";
+import { reconstructPage } from "./layout";
+
+// A text run at (x, y) with y counted up from the bottom of the page, about half a point wide per character
+const item = (str: string, x: number, y: number, size = 10): TextItem => ({
+  str,
+  dir: "ltr",
+  transform: [size, 0, 0, size, x, y],
+  width: str.length * size * 0.5,
+  height: size,
+  fontName: "F1",
+  hasEOL: false,
+});
+
+describe("reconstructPage", () => {
+  it("joins fragments on a baseline and turns wider gaps into paragraph breaks", () => {
+    const { text, columns } = reconstructPage(
+      [
+        item("Jane", 50, 700, 16),
+        item("Doe", 90, 700, 16),
+        item("Experience", 50, 660),
+        item("Acme Corp, Engineer", 50, 646),
+        item("2019 - 2023", 450, 646),
+        item("Built the billing service", 50, 632),
+      ],
+      0,
+      612,
+    );
+
+    expect(columns).toBe(1);
+    expect(text).toBe("Jane Doe\n\nExperience\nAcme Corp, Engineer 2019 - 2023\nBuilt the billing service");
+  });
+
+  it("normalizes bullet glyphs and joins wrapped bullet points", () => {
+    const { text } = reconstructPage(
+      [
+        // The bullet as the Symbol font encodes it
+        item("\uf0b7", 50, 700),
+        item("Cut deploy time from an hour to ten", 62, 700),
+        item("minutes with blue-green releases", 62, 686),
+        item("- Mentored four engineers", 50, 672),
+      ],
+      0,
+      612,
+    );
+
+    expect(text).toBe("• Cut deploy time from an hour to ten minutes with blue-green releases\n• Mentored four engineers");
+  });
+
+  it("reads a two-column page column by column", () => {
+    const left = ["Skills", "TypeScript", "PostgreSQL", "Kubernetes"];
+    const right = ["Experience", "Senior Engineer at Acme", "Led the payments team", "Shipped the new checkout"];
+    const { text, columns } = reconstructPage(
+      [
+        item("Jane Doe", 50, 740, 16),
+        ...left.map((line, i) => item(line, 50, 700 - i * 14)),
+        ...right.map((line, i) => item(line, 250, 700 - i * 14)),
+      ],
+      0,
+      612,
+    );
+
+    expect(columns).toBe(2);
+    expect(text).toBe([["Jane Doe"], left, right].map((lines) => lines.join("\n")).join("\n\n"));
+  });
+
+  it("skips whitespace and rotated text", () => {
+    const rotated = { ...item("Sidebar", 20, 400), transform: [0, 10, -10, 0, 20, 400] };
+    const { text } = reconstructPage([item("   ", 50, 700), rotated, item("Summary", 50, 680)], 0, 612);
+
+    expect(text).toBe("Summary");
+    expect(reconstructPage([], 0, 612)).toEqual({ text: "", columns: 1 });
+  });
+});
@@ -0,0 +1,190 @@
+// server/documents/layout.ts
+import type { TextItem } from "pdfjs-dist/types/src/display/api";
+
+// A run of text on the page, in PDF units with y growing upwards (baseline position)
+type Fragment = { text: string; x: number; right: number; y: number; size: number };
+
+type Line = { fragments: Fragment[]; x: number; y: number; size: number };
+
+type Flow = "left" | "right" | "spanning";
+
+// A reconstructed line: which flow it belongs to and whether it opens a bullet point
+type TextLine = { text: string; x: number; y: number; size: number; flow: Flow; bullet: boolean };
+
+// Bullet glyphs, including the private-use ones the Symbol and Wingdings fonts map them to
+const BULLET = /^\s*(?:[\u2022\u25cf\u25aa\u25a0\u25e6\u2023\u2043\u2219\u27a2\u27a4\u25ba\u2713\u2714\uf0b7\uf0a7\uf076\uf0d8*]|[-\u2013](?=\s))\s*/;
+
+const median = (values: number[]) => {
+  if (!values.length) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+const toFragment = (item: TextItem): Fragment | null => {
+  const [a, b, c, d, x, y] = item.transform;
+  // Whitespace items carry no text; the gaps between fragments say where spaces go.
+  // Rotated text (e.g. a vertical sidebar label) cannot be placed in lines.
+  if (!item.str.trim() || Math.abs(b) > Math.abs(a)) return null;
+  const size = Math.hypot(c, d) || item.height || 10;
+  return { text: item.str, x, right: x + item.width, y, size };
+};
+
+// Fragments on the same baseline form a line; small vertical offsets (superscripts, mixed fonts) are tolerated
+const groupLines = (fragments: Fragment[]): Line[] => {
+  const lines: Line[] = [];
+  for (const fragment of [...fragments].sort((p, q) => q.y - p.y || p.x - q.x)) {
+    const line = lines.find(
+      (candidate) => Math.abs(candidate.y - fragment.y) <= Math.min(candidate.size, fragment.size) * 0.45,
+    );
+    if (line) {
+      line.fragments.push(fragment);
+      line.x = Math.min(line.x, fragment.x);
+      line.size = Math.max(line.size, fragment.size);
+    } else {
+      lines.push({ fragments: [fragment], x: fragment.x, y: fragment.y, size: fragment.size });
+    }
+  }
+  for (const line of lines) line.fragments.sort((p, q) => p.x - q.x);
+  return lines.sort((p, q) => q.y - p.y);
+};
+
+// Joins a line's fragments, adding a space where the gap between two is wider than letter spacing
+const lineText = ({ fragments }: Line) => {
+  let text = "";
+  let previous: Fragment | undefined;
+  for (const fragment of fragments) {
+    if (previous && !/\s$/.test(text) && !/^\s/.test(fragment.text) && fragment.x - previous.right > fragment.size * 0.15) {
+      text += " ";
+    }
+    text += fragment.text;
+    previous = fragment;
+  }
+  return text.trim();
+};
+
+/**
+ * Finds where a two-column page splits: the middle of a vertical strip that few fragments cross, with a real share
+ * of the text on both sides. A column of right-aligned dates is too small to count, so single-column resumes stay
+ * whole. Strips crossed by fewer fragments are tried first, so a sparse column cannot be taken for gutter space.
+ */
+const findGutter = (fragments: Fragment[], pageLeft: number, pageRight: number): number | null => {
+  const chars = (list: Fragment[]) => list.reduce((sum, fragment) => sum + fragment.text.length, 0);
+  const total = chars(fragments);
+  const size = median(fragments.map((fragment) => fragment.size)) || 10;
+  // Headings and a name line may span both columns
+  const allowedCrossings = Math.max(2, Math.floor(fragments.length * 0.05));
+
+  const from = Math.ceil(pageLeft + (pageRight - pageLeft) * 0.2);
+  const to = Math.floor(pageLeft + (pageRight - pageLeft) * 0.8);
+  const crossings: number[] = [];
+  for (let x = from; x <= to; x += 1) {
+    crossings.push(fragments.filter((f) => f.x < x && f.right > x).length);
+  }
+
+  // Each side needs more fragments than the crossings the strip tolerates, or the tolerance could cover a column
+  const splitAt = (start: number, end: number, tolerated: number) => {
+    const middle = (start + end) / 2;
+    const left = fragments.filter((fragment) => fragment.right <= middle);
+    const right = fragments.filter((fragment) => fragment.x >= middle);
+    const balanced = chars(left) >= total * 0.2 && chars(right) >= total * 0.2;
+    return balanced && left.length > tolerated && right.length > tolerated ? middle : null;
+  };
+
+  for (let tolerated = 0; tolerated <= allowedCrossings; tolerated++) {
+    let best: { start: number; end: number; middle: number } | null = null;
+    let runStart: number | null = null;
+    for (let i = 0; i <= crossings.length; i++) {
+      const open = i < crossings.length && crossings[i] <= tolerated;
+      if (open && runStart === null) runStart = from + i;
+      if (!open && runStart !== null) {
+        const end = from + i;
+        const middle = end - runStart >= Math.max(8, size) ? splitAt(runStart, end, tolerated) : null;
+        if (middle !== null && (!best || end - runStart > best.end - best.start)) best = { start: runStart, end, middle };
+        runStart = null;
+      }
+    }
+    if (best) return best.middle;
+  }
+  return null;
+};
+
+// Column text above a spanning line (a full-width heading) is read before it, column by column
+const readingOrder = (left: Line[], right: Line[], spanning: Line[]) => {
+  const ordered: [Line, Flow][] = [];
+  let leftRest = left;
+  let rightRest = right;
+  for (const line of spanning) {
+    ordered.push(...leftRest.filter((l) => l.y > line.y).map((l): [Line, Flow] => [l, "left"]));
+    ordered.push(...rightRest.filter((l) => l.y > line.y).map((l): [Line, Flow] => [l, "right"]));
+    leftRest = leftRest.filter((l) => l.y <= line.y);
+    rightRest = rightRest.filter((l) => l.y <= line.y);
+    ordered.push([line, "spanning"]);
+  }
+  ordered.push(...leftRest.map((l): [Line, Flow] => [l, "left"]));
+  ordered.push(...rightRest.map((l): [Line, Flow] => [l, "right"]));
+  return ordered;
+};
+
+/**
+ * Rebuilds a page's text from pdf.js text items using their positions: fragments become lines, a two-column
+ * layout is read column by column, larger vertical gaps become paragraph breaks, bullet markers are normalized
+ * to "• " and bullet points wrapped over several lines are joined back together.
+ */
+export const reconstructPage = (
+  items: TextItem[],
+  pageLeft: number,
+  pageRight: number,
+): { text: string; columns: number } => {
+  const fragments = items.map(toFragment).filter((fragment): fragment is Fragment => fragment !== null);
+  if (!fragments.length) return { text: "", columns: 1 };
+
+  const gutter = findGutter(fragments, pageLeft, pageRight);
+  const ordered =
+    gutter !== null
+      ? readingOrder(
+          groupLines(fragments.filter((f) => f.right <= gutter)),
+          groupLines(fragments.filter((f) => f.x >= gutter)),
+          groupLines(fragments.filter((f) => f.x < gutter && f.right > gutter)),
+        )
+      : groupLines(fragments).map((line): [Line, Flow] => [line, "spanning"]);
+
+  const lines: TextLine[] = ordered.map(([line, flow]) => {
+    const text = lineText(line);
+    const bullet = BULLET.test(text);
+    return { text: bullet ? `\u2022 ${text.replace(BULLET, "")}` : text, x: line.x, y: line.y, size: line.size, flow, bullet };
+  });
+
+  // Typical distance between consecutive lines of the same flow
+  const spacing =
+    median(
+      lines
+        .slice(1)
+        .map((line, i) => (line.flow === lines[i].flow ? lines[i].y - line.y : 0))
+        .filter((gap) => gap > 0),
+    ) || 14;
+
+  const out: string[] = [];
+  let previous: TextLine | undefined;
+  let inBullet = false;
+  for (const line of lines) {
+    const gap = previous && previous.flow === line.flow ? previous.y - line.y : Infinity;
+    // A wrapped bullet point: the next line is indented past the bullet glyph and follows closely
+    const continuesBullet =
+      inBullet && !line.bullet && gap <= spacing * 1.4 && line.x - previous.x >= line.size * 0.3 && line.x - previous.x <= line.size * 3;
+    if (continuesBullet) {
+      const last = out.length - 1;
+      out[last] = /[a-z]-$/.test(out[last]) && /^[a-z]/.test(line.text)
+        ? out[last].slice(0, -1) + line.text
+        : `${out[last]} ${line.text}`;
+    } else {
+      if (previous && (previous.flow !== line.flow || gap > spacing * 1.6)) out.push("");
+      out.push(line.text);
+      inBullet = line.bullet;
+    }
+    // Wrapped lines are compared with the bullet's own first line, not with each other
+    if (!continuesBullet) previous = line;
+    else previous = { ...previous, y: line.y };
+  }
+
+  return { text: out.join("\n"), columns: gutter !== null ? 2 : 1 };
+};
@@ -0,0 +1,35 @@
+// server/documents/markdown.test.ts
+import { describe, expect, it } from "vitest";
+import { markdownToText } from "./markdown";
+
+describe("markdownToText", () => {
+  it("keeps headings and list items and drops formatting marks", () => {
+    const markdown = [
+      "---",
+      "title: Resume",
+      "---",
+      "# Jane Doe",
+      "",
+      "## Experience",
+      "---",
+      "- **Led** the _payments_ team",
+      "* Shipped `checkout` v2",
+      "> Quoted ~~text~~",
+    ].join("\n");
+
+    expect(markdownToText(markdown)).toBe(
+      "Jane Doe\n\nExperience\n• Led the payments team\n• Shipped checkout v2\nQuoted text",
+    );
+  });
+
+  it("keeps link addresses once and drops images", () => {
+    expect(markdownToText("[Portfolio](https://jane.dev) ![me](me.png)")).toBe("Portfolio (https://jane.dev) ");
+    expect(markdownToText("[jane@x.dev](mailto:jane@x.dev) <https://jane.dev>")).toBe("jane@x.dev https://jane.dev");
+  });
+
+  it("flattens tables and keeps fenced code as is", () => {
+    const markdown = ["| Skill | Years |", "|---|:--:|", "| Go | 3 |", "```", "**raw**", "```"].join("\n");
+
+    expect(markdownToText(markdown)).toBe("Skill | Years\nGo | 3\n**raw**");
+  });
+});
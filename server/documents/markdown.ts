@@ -0,0 +1,71 @@
+// server/documents/markdown.ts
+
+const INLINE: [RegExp, string][] = [
+  // Images carry no resume text
+  [/!\[[^\]]*\]\([^)]*\)/g, ""],
+  // [text](url): keep the address too, unless the text already is the address
+  [/\[([^\]]+)\]\((?:mailto:)?([^)\s]+)[^)]*\)/g, "$1 ($2)"],
+  [/<(?:mailto:)?((?:https?:\/\/|[\w.+-]+@)[^>\s]+)>/g, "$1"],
+  [/<\/?[a-z][^>]*>/gi, ""],
+  [/`([^`]+)`/g, "$1"],
+  [/(\*\*|__)(?=\S)(.+?)(?<=\S)\1/g, "$2"],
+  [/(?<![\w*])\*(?=\S)(.+?)(?<=\S)\*(?![\w*])/g, "$1"],
+  [/(?<![\w_])_(?=\S)(.+?)(?<=\S)_(?![\w_])/g, "$1"],
+  [/~~(.+?)~~/g, "$1"],
+  [/\\([\\`*_{}[\]()#+\-.!|>~])/g, "$1"],
+];
+
+const inline = (line: string) => {
+  let text = line;
+  for (const [pattern, replacement] of INLINE) {
+    text = text.replace(pattern, replacement);
+  }
+  // "(https://x.dev) (https://x.dev)" from a link whose text was its own address
+  return text.replace(/(\S+) \(\1\)/g, "$1");
+};
+
+/** Converts Markdown to plain text: headings, lists and tables keep their text, formatting marks are dropped. */
+export const markdownToText = (markdown: string): string => {
+  const lines = markdown.replace(/\r\n?/g, "\n").split("\n");
+  // YAML front matter
+  if (lines[0]?.trim() === "---") {
+    const close = lines.indexOf("---", 1);
+    if (close > 0) lines.splice(0, close + 1);
+  }
+
+  const out: string[] = [];
+  let inFence = false;
+  for (const line of lines) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+      continue;
+    }
+    if (inFence) {
+      out.push(line);
+      continue;
+    }
+    // Setext underlines, horizontal rules and table separator rows
+    if (/^\s*(?:[-=_*]\s*){3,}$/.test(line) || /^\s*\|?\s*:?-+:?\s*(?:\|\s*:?-+:?\s*)+\|?\s*$/.test(line)) {
+      continue;
+    }
+
+    const heading = /^\s{0,3}#{1,6}\s+(.*?)\s*#*\s*$/.exec(line);
+    if (heading) {
+      out.push(inline(heading[1]));
+      continue;
+    }
+
+    let text = line.replace(/^\s*(?:>\s?)+/, "");
+    text = text.replace(/^(\s*)[-*+]\s+(?:\[[ xX]\]\s+)?/, "$1• ");
+    if (/^\s*\|.*\|\s*$/.test(text)) {
+      text = text
+        .trim()
+        .slice(1, -1)
+        .split("|")
+        .map((cell) => cell.trim())
+        .join(" | ");
+    }
+    out.push(inline(text));
+  }
+  return out.join("\n");
+};
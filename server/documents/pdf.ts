@@ -0,0 +1,48 @@
+// server/documents/pdf.ts
+import type { TextItem } from "pdfjs-dist/types/src/display/api";
+import { reconstructPage } from "./layout";
+
+// pdf.js is an ES module; Node 20.19+ can require() it from this CommonJS build
+const loadPdfjs = () => import("pdfjs-dist/legacy/build/pdf.mjs");
+
+const isTextItem = (item: object): item is TextItem => "str" in item;
+
+/**
+ * Extracts the text of each page, rebuilt from the positions of its text items rather than the order they are
+ * stored in, along with the number of text columns found on it.
+ */
+export const extractPdf = async (
+  data: Buffer,
+): Promise<{ parser: string; pages: { text: string; columns: number }[] }> => {
+  const pdfjs = await loadPdfjs();
+  let doc: Awaited<ReturnType<typeof pdfjs.getDocument>["promise"]>;
+  try {
+    doc = await pdfjs.getDocument({
+      // pdf.js takes ownership of the array, so give it a copy
+      data: new Uint8Array(data),
+      isEvalSupported: false,
+      disableFontFace: true,
+      useSystemFonts: false,
+      verbosity: 0,
+    }).promise;
+  } catch (err: unknown) {
+    if (err instanceof Error && err.name === "PasswordException") {
+      throw new Error("This PDF is password protected. Remove the password and upload it again.");
+    }
+    throw new Error("This file could not be read as a PDF.");
+  }
+
+  try {
+    const pages: { text: string; columns: number }[] = [];
+    for (let number = 1; number <= doc.numPages; number++) {
+      const page = await doc.getPage(number);
+      const { items } = await page.getTextContent();
+      const [left, , right] = page.view;
+      pages.push(reconstructPage(items.filter(isTextItem), left, right));
+      page.cleanup();
+    }
+    return { parser: `pdf.js ${pdfjs.version}`, pages };
+  } finally {
+    await doc.destroy();
+  }
+};
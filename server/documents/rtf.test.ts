@@ -0,0 +1,31 @@
+// server/documents/rtf.test.ts
+import { describe, expect, it } from "vitest";
+import { rtfToText } from "./rtf";
+
+describe("rtfToText", () => {
+  it("keeps body text and paragraph breaks and drops formatting and tables", () => {
+    const rtf = [
+      "{\\rtf1\\ansi\\deff0",
+      "{\\fonttbl{\\f0 Calibri;}}{\\colortbl;\\red0\\green0\\blue0;}",
+      "{\\info{\\author Jane}}{\\header Page header}",
+      "{\\*\\generator Word}",
+      "\\pard\\b Jane Doe\\b0\\par",
+      "Engineer\\tab 2019\\par",
+      "}",
+    ].join("\n");
+
+    expect(rtfToText(rtf)).toBe("Jane Doe\nEngineer\t2019\n");
+  });
+
+  it("decodes code page escapes, unicode escapes and named symbols", () => {
+    expect(rtfToText("{\\rtf1 Caf\\'e9 \\u8364? \\bullet  \\ldblquote hi\\rdblquote  a\\emdash b}")).toBe(
+      "Café € • “hi” a—b",
+    );
+    // \uc2 means two fallback characters follow each \u escape
+    expect(rtfToText("{\\rtf1\\uc2 \\u20320\\'c4\\'e3 ok}")).toBe("你 ok");
+  });
+
+  it("unescapes braces and backslashes", () => {
+    expect(rtfToText("{\\rtf1 a\\{b\\}c\\\\d\\~e\\_f}")).toBe("a{b}c\\d e-f");
+  });
+});
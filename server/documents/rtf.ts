@@ -0,0 +1,131 @@
+// server/documents/rtf.ts
+
+// Groups whose content is not part of the document text
+const SKIPPED_DESTINATIONS = new Set([
+  "colortbl",
+  "datastore",
+  "fonttbl",
+  "footer",
+  "footerf",
+  "footerl",
+  "footerr",
+  "header",
+  "headerf",
+  "headerl",
+  "headerr",
+  "info",
+  "listoverridetable",
+  "listtable",
+  "object",
+  "pict",
+  "revtbl",
+  "rsidtbl",
+  "stylesheet",
+  "themedata",
+  "xmlnstbl",
+]);
+
+const SYMBOLS = new Map([
+  ["par", "\n"],
+  ["line", "\n"],
+  ["row", "\n"],
+  ["page", "\n"],
+  ["sect", "\n"],
+  ["tab", "\t"],
+  ["cell", " "],
+  ["bullet", "•"],
+  ["emdash", "—"],
+  ["endash", "–"],
+  ["lquote", "‘"],
+  ["rquote", "’"],
+  ["ldblquote", "“"],
+  ["rdblquote", "”"],
+]);
+
+const cp1252 = new TextDecoder("windows-1252");
+
+const CONTROL_WORD = /^([a-z]+)(-?\d+)? ?/i;
+
+/**
+ * Converts RTF to plain text: keeps the body text, paragraph breaks, tabs and special characters,
+ * and drops formatting, font and color tables, headers, footers and embedded pictures.
+ */
+export const rtfToText = (rtf: string): string => {
+  let out = "";
+  // Per group: whether its text is skipped, and how many fallback characters follow a \u escape
+  const stack: { skip: boolean; unicodeSkip: number }[] = [];
+  let skip = false;
+  let unicodeSkip = 1;
+  let i = 0;
+
+  const emit = (text: string) => {
+    if (!skip) out += text;
+  };
+
+  // After \uN, skip the N-character ANSI fallback that follows it
+  const skipFallback = () => {
+    for (let n = 0; n < unicodeSkip && i < rtf.length; n++) {
+      if (rtf.startsWith("\\'", i)) i += 4;
+      else if (rtf[i] === "\\" || rtf[i] === "{" || rtf[i] === "}") break;
+      else i += 1;
+    }
+  };
+
+  while (i < rtf.length) {
+    const char = rtf[i];
+    if (char === "{") {
+      stack.push({ skip, unicodeSkip });
+      i += 1;
+    } else if (char === "}") {
+      ({ skip, unicodeSkip } = stack.pop() ?? { skip: false, unicodeSkip: 1 });
+      i += 1;
+    } else if (char === "\r" || char === "\n") {
+      i += 1;
+    } else if (char !== "\\") {
+      emit(char);
+      i += 1;
+    } else {
+      const next = rtf[i + 1];
+      if (next === "\\" || next === "{" || next === "}") {
+        emit(next);
+        i += 2;
+      } else if (next === "'") {
+        emit(cp1252.decode(Uint8Array.of(parseInt(rtf.slice(i + 2, i + 4), 16) || 0x3f)));
+        i += 4;
+      } else if (next === "*") {
+        // An ignorable destination ({\*\name ...}); none of them hold body text
+        skip = true;
+        i += 2;
+      } else if (next === "~") {
+        emit(" ");
+        i += 2;
+      } else if (next === "_") {
+        emit("-");
+        i += 2;
+      } else if (next === "\r" || next === "\n") {
+        emit("\n");
+        i += 2;
+      } else {
+        const match = CONTROL_WORD.exec(rtf.slice(i + 1, i + 40));
+        if (!match) {
+          i += 2;
+          continue;
+        }
+        const [whole, word, param] = match;
+        i += 1 + whole.length;
+        if (SKIPPED_DESTINATIONS.has(word)) {
+          skip = true;
+        } else if (word === "u" && param !== undefined) {
+          const code = Number(param);
+          emit(String.fromCharCode(code < 0 ? code + 65536 : code));
+          skipFallback();
+        } else if (word === "uc" && param !== undefined) {
+          unicodeSkip = Number(param);
+        } else if (SYMBOLS.has(word)) {
+          emit(SYMBOLS.get(word));
+        }
+      }
+    }
+  }
+  return out;
+};
@@ -0,0 +1,85 @@
+// server/documents/text.ts
+import type { ParsedDocument, SectionKind } from "../../shared/api";
+
+const REPLACEMENTS: [RegExp, string][] = [
+  [/\r\n?/g, "\n"],
+  // Control characters other than tab and newline
+  [/[^\P{Cc}\t\n]/gu, ""],
+  // Zero-width characters, soft hyphens and stray byte order marks
+  [/[\u00ad\u200b-\u200d\u2060\ufeff]/g, ""],
+  // Non-breaking and typographic spaces
+  [/[\u00a0\u2000-\u200a\u202f\u205f\u3000]/g, " "],
+  // Ligatures PDF fonts often use
+  [/\ufb00/g, "ff"],
+  [/\ufb01/g, "fi"],
+  [/\ufb02/g, "fl"],
+  [/\ufb03/g, "ffi"],
+  [/\ufb04/g, "ffl"],
+  // Bullet variants, including the private-use glyphs of the Symbol and Wingdings fonts
+  [/[\u25cf\u25aa\u25a0\u25e6\u2023\u2043\u2219\u27a2\uf0b7\uf0a7\uf076\uf0d8]/g, "\u2022"],
+];
+
+/**
+ * Cleans up extracted text the same way for every format: Unix newlines, single spaces,
+ * one bullet character, no trailing spaces and at most one blank line in a row.
+ */
+export const normalizeText = (raw: string): string => {
+  let text = raw;
+  for (const [pattern, replacement] of REPLACEMENTS) {
+    text = text.replace(pattern, replacement);
+  }
+  return text
+    .split("\n")
+    .map((line) => line.replace(/[^\S\n]+/g, " ").trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+};
+
+const SECTION_HEADINGS: [SectionKind, RegExp][] = [
+  ["contact", /^(?:contact(?: info(?:rmation)?| details)?|personal (?:info(?:rmation)?|details))$/],
+  ["summary", /^(?:(?:professional |career |executive )?(?:summary|profile|objective)|about(?: me)?)$/],
+  [
+    "experience",
+    /^(?:(?:professional |work |relevant |career )?experience|employment(?: history)?|work history|career history)$/,
+  ],
+  ["education", /^(?:education(?: and training)?|academic (?:background|history)|qualifications)$/],
+  ["skills", /^(?:(?:technical |core |key )?skills(?: (?:and|&) (?:tools|technologies|competencies))?|competencies|technologies|tech stack|tools)$/],
+  ["projects", /^(?:(?:personal |selected |side )?projects)$/],
+  ["certifications", /^(?:certifications?|licen[cs]es(?: (?:and|&) certifications)?|courses)$/],
+  ["awards", /^(?:awards?|honou?rs(?: (?:and|&) awards)?|achievements)$/],
+  ["publications", /^(?:publications|papers|talks)$/],
+  ["languages", /^languages?$/],
+  ["volunteering", /^(?:volunteer(?:ing)?(?: experience| work)?|community(?: involvement)?)$/],
+  ["interests", /^(?:interests|hobbies(?: (?:and|&) interests)?)$/],
+];
+
+// Short lines in capitals (e.g. "TECHNICAL LEADERSHIP") are treated as headings even when not recognized
+const isCapitalizedHeading = (line: string) =>
+  line.length <= 40 && /^[A-Z][A-Z &/,-]+$/.test(line) && line.split(" ").length <= 4;
+
+const headingKind = (line: string): SectionKind | null | undefined => {
+  const title = line
+    .replace(/^[#•\s]+/, "")
+    .replace(/[:\s]+$/, "")
+    .toLowerCase();
+  if (title.length > 50) return undefined;
+  const known = SECTION_HEADINGS.find(([, pattern]) => pattern.test(title));
+  if (known) return known[0];
+  return isCapitalizedHeading(line.replace(/[:\s]+$/, "")) ? null : undefined;
+};
+
+// Splits normalized text into headed sections; text before the first heading (usually the name and contact line) is not a section
+export const detectSections = (text: string): ParsedDocument["sections"] => {
+  const sections: ParsedDocument["sections"] = [];
+  let offset = 0;
+  for (const line of text.split("\n")) {
+    const kind = headingKind(line);
+    if (kind !== undefined) {
+      if (sections.length) sections[sections.length - 1].end = offset;
+      sections.push({ title: line.replace(/[:\s]+$/, ""), kind, start: offset, end: text.length });
+    }
+    offset += line.length + 1;
+  }
+  return sections;
+};
@@ -0,0 +1,64 @@
+// server/errors.ts
+import express from "express";
+import type { z, ZodError, ZodTypeAny } from "zod";
+import type { ApiErrorBody, ApiErrorCode, ApiErrorDetails, ApiErrorResponse, ValidationIssue } from "../shared/api";
+
+const STATUS: Record<ApiErrorCode, number> = {
+  VALIDATION_FAILED: 400,
+  UNAUTHENTICATED: 401,
+  INVALID_CREDENTIALS: 401,
+  NOT_FOUND: 404,
+  CONFLICT: 409,
+  PAYLOAD_TOO_LARGE: 413,
+  UNSUPPORTED_DOCUMENT: 415,
+  UNREADABLE_DOCUMENT: 422,
+  RATE_LIMITED: 429,
+  QUOTA_EXCEEDED: 429,
+  INTERNAL: 500,
+  LLM_FAILED: 502,
+  OPENAI_NOT_CONFIGURED: 503,
+};
+
+// The error envelope, tagged with the request id (for the SSE `error` event, which has no status)
+export const errorBody = <C extends ApiErrorCode>(
+  res: express.Response,
+  code: C,
+  message: string,
+  details?: ApiErrorDetails<C>,
+): ApiErrorResponse => ({
+  error: {
+    code,
+    message,
+    ...(details === undefined ? {} : { details }),
+    requestId: res.locals.requestId as string | undefined,
+  } as ApiErrorBody,
+});
+
+// Sends `{ error: { code, message, details?, requestId } }` with the status that belongs to the code
+export const sendError = <C extends ApiErrorCode>(
+  res: express.Response,
+  code: C,
+  message: string,
+  details?: ApiErrorDetails<C>,
+) => res.status(STATUS[code]).json(errorBody(res, code, message, details));
+
+export const validationIssues = (error: ZodError): ValidationIssue[] =>
+  error.issues.map((issue) => ({ path: issue.path.join("."), message: issue.message }));
+
+// Sends VALIDATION_FAILED listing every issue; the first one doubles as the message
+export const sendValidationError = (res: express.Response, issues: ValidationIssue[]) =>
+  sendError(res, "VALIDATION_FAILED", issues[0]?.message || "Invalid request body", { issues });
+
+// Parses a request body. Sends VALIDATION_FAILED and returns undefined when it does not match.
+export const parseBody = <S extends ZodTypeAny>(
+  schema: S,
+  body: unknown,
+  res: express.Response,
+): z.infer<S> | undefined => {
+  const parsed = schema.safeParse(body ?? {});
+  if (!parsed.success) {
+    sendValidationError(res, validationIssues(parsed.error));
+    return undefined;
+  }
+  return parsed.data;
+};
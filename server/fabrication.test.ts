@@ -0,0 +1,36 @@
+// server/fabrication.test.ts
+import { describe, expect, it } from "vitest";
+import { checkFabrication } from "./fabrication";
+
+const ORIGINAL = ["Jane Doe", "Software Engineer at Initech", "Led team projects"].join("\n");
+
+describe("checkFabrication", () => {
+  it("flags a capitalized employer after at", () => {
+    const flags = checkFabrication(ORIGINAL, "Software Engineer at Globex\nLed team projects");
+
+    expect(flags.map(({ kind, text }) => [kind, text])).toContainEqual(["organization", "Globex"]);
+  });
+
+  it("keeps an employer name on its own line", () => {
+    const customized = "Software Engineer at Globex\nLed Team Projects";
+    const flags = checkFabrication(ORIGINAL, customized);
+    const flag = flags.find(({ kind }) => kind === "organization");
+
+    expect(flag?.text).toBe("Globex");
+    // Reverting swaps the employer's line back and leaves the next line alone
+    const reverted = customized.slice(0, flag!.revert.start) + flag!.revert.text + customized.slice(flag!.revert.end);
+    expect(reverted).toBe("Software Engineer at Initech\nLed Team Projects");
+  });
+
+  it("flags an employer even when a skill follows on the next line", () => {
+    const flags = checkFabrication(ORIGINAL, "Software Engineer at Globex\nSKILLS\nJavaScript");
+
+    expect(flags.map(({ kind, text }) => [kind, text])).toContainEqual(["organization", "Globex"]);
+  });
+
+  it("leaves skills after with to the skill check", () => {
+    const flags = checkFabrication(`${ORIGINAL}\nBuilt dashboards with React`, "Built dashboards with React");
+
+    expect(flags).toEqual([]);
+  });
+});
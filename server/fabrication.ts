@@ -0,0 +1,196 @@
+// server/fabrication.ts
+import type { FabricationFlag, FabricationKind, ResumeProfile } from "../shared/api";
+import { normalizeText } from "./documents/text";
+import { findSkills } from "./keywords";
+import { formatProfile, parseProfileDeterministically } from "./profile";
+
+type Finding = { kind: FabricationKind; start: number; end: number; message: string };
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+// "Mar 2020", "March 2020", "03/2020", "2020-03" or a bare year
+const DATE =
+  /\b(?:(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\.?\s+((?:19|20)\d{2})|(\d{1,2})\/((?:19|20)\d{2})|((?:19|20)\d{2})-(\d{2})|((?:19|20)\d{2}))\b/gi;
+
+// "40%", "$1.2M", "3x", "10,000+", "250k"
+const NUMBER = /(?<![\w./-])([$\u20ac\u00a3])?(\d+(?:[.,]\d+)*)(?:\s?(%|percent\b|[kmb]\b|mm\b|bn\b|x\b|\+))?/gi;
+
+const NUMBER_WORDS = [
+  "zero", "one", "two", "three", "four", "five", "six", "seven", "eight", "nine", "ten", "eleven", "twelve",
+];
+
+// Capitalized names ending in a word that marks an organization, e.g. "Globex Corporation", "Stanford University"
+const ORGANIZATION =
+  /\b(?:[A-Z][\w&'-]*\s+){1,4}(?:Inc|LLC|Ltd|Corp|Corporation|Company|GmbH|Group|Labs|Technologies|Systems|Solutions|University|College|Institute|Bank|Foundation|Agency|Hospital)\b\.?/g;
+
+// Capitalized names after "at", "for" or "with", e.g. "Senior Engineer at Google", "consultant for Acme & Partners"
+// Words are joined by spaces or tabs only, so a name never runs into the next line
+const NAMED_AFTER = /\b(?:at|for|with)[^\S\n]+([A-Z][\w&'-]*(?:[^\S\n]+(?:(?:of|&)[^\S\n]+)?[A-Z][\w&'-]*)*)/g;
+
+// Achievements that need a source: the cue word and the rest of its clause
+const CLAIM =
+  /\b(?:award(?:ed|s)?|patent(?:ed|s)?|published|promoted|certified|won|winner|ranked|recogni[sz]ed|keynote|(?:co-)?founded)\b[^.;\n]*/gi;
+
+// Lines at least this similar (shared words) count as the same line of the original
+const MIN_LINE_SIMILARITY = 0.4;
+
+const escape = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const simplify = (text: string) =>
+  normalizeText(text)
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}+#%$]+/gu, " ")
+    .trim();
+
+const dateKey = (match: RegExpMatchArray) => {
+  const [, monthName, monthYear, monthNumber, slashYear, isoYear, isoMonth, year] = match;
+  if (monthName) return `${monthYear}-${MONTHS.indexOf(monthName.toLowerCase().slice(0, 3)) + 1}`;
+  if (slashYear) return `${slashYear}-${Number(monthNumber)}`;
+  if (isoYear) return `${isoYear}-${Number(isoMonth)}`;
+  return year;
+};
+
+// A number's value, so "10,000" and "10k" are the same figure
+const numberValue = (digits: string, unit = "") => {
+  const plain = /^\d{1,3}(?:,\d{3})+$/.test(digits) ? digits.replace(/,/g, "") : digits.replace(",", ".");
+  const scale = { k: 1e3, m: 1e6, mm: 1e6, b: 1e9, bn: 1e9 }[unit.toLowerCase()] ?? 1;
+  return Number(plain) * scale;
+};
+
+const words = (line: string) => new Set(simplify(line).split(" ").filter((word) => word.length > 1));
+
+// Share of words two lines have in common (Dice coefficient)
+const similarity = (a: Set<string>, b: Set<string>) => {
+  if (!a.size || !b.size) return 0;
+  let shared = 0;
+  for (const word of a) if (b.has(word)) shared += 1;
+  return (2 * shared) / (a.size + b.size);
+};
+
+const overlaps = (a: { start: number; end: number }, b: { start: number; end: number }) =>
+  a.start < b.end && b.start < a.end;
+
+/**
+ * Compares a customized resume with the original (and the profile the user reviewed) and flags what the original
+ * does not back up: employers, job titles, degrees, dates and numbers it never mentions, skills it does not list,
+ * and claims such as awards, patents or promotions. Rule-based, so a flag means "check this", not "this is false".
+ */
+export const checkFabrication = (
+  resumeText: string,
+  customizedResume: string,
+  profile?: ResumeProfile,
+): FabricationFlag[] => {
+  const facts = profile ? `${resumeText}\n${formatProfile(profile)}` : resumeText;
+  const simpleFacts = ` ${simplify(facts)} `;
+  const mentioned = (text: string) => simpleFacts.includes(` ${simplify(text)} `);
+
+  const findings: Finding[] = [];
+  const flagText = (kind: FabricationKind, value: string, message: string) => {
+    if (!value || mentioned(value)) return;
+    const pattern = new RegExp(value.trim().split(/\s+/).map(escape).join(String.raw`\s+`), "gi");
+    for (const match of customizedResume.matchAll(pattern)) {
+      findings.push({ kind, start: match.index, end: match.index + match[0].length, message });
+    }
+  };
+
+  // Entries as the rule-based parser reads them
+  const customized = parseProfileDeterministically(customizedResume);
+  for (const { employer, title } of customized.experience) {
+    flagText("organization", employer, `"${employer}" does not appear in your original resume.`);
+    flagText("title", title, `The job title "${title}" does not appear in your original resume.`);
+  }
+  for (const { institution, degree } of customized.education) {
+    flagText("organization", institution, `"${institution}" does not appear in your original resume.`);
+    flagText("degree", degree, `The degree "${degree}" does not appear in your original resume.`);
+  }
+  for (const { name, issuer } of customized.certifications) {
+    flagText("claim", name, `The certification "${name}" does not appear in your original resume.`);
+    flagText("organization", issuer, `"${issuer}" does not appear in your original resume.`);
+  }
+  for (const [name] of customizedResume.matchAll(ORGANIZATION)) {
+    flagText("organization", name, `"${name}" does not appear in your original resume.`);
+  }
+  // Employers and clients without a telling suffix; skills ("with React") are checked on their own below
+  for (const [, name] of customizedResume.matchAll(NAMED_AFTER)) {
+    if (findSkills(name).length) continue;
+    flagText("organization", name, `"${name}" does not appear in your original resume.`);
+  }
+
+  // Dates: a month the original does not give for that year counts as changed
+  const factDates = new Set([...facts.matchAll(DATE)].map(dateKey));
+  const dates = [...customizedResume.matchAll(DATE)];
+  for (const match of dates) {
+    if (factDates.has(dateKey(match))) continue;
+    findings.push({
+      kind: "date",
+      start: match.index,
+      end: match.index + match[0].length,
+      message: `The date "${match[0]}" does not match any date in your original resume.`,
+    });
+  }
+  const dateSpans = dates.map((match) => ({ start: match.index, end: match.index + match[0].length }));
+
+  // Numbers, compared by value; written-out small numbers in the original count too
+  const factNumbers = new Set([...facts.matchAll(NUMBER)].map(([, , digits, unit]) => numberValue(digits, unit)));
+  for (const word of simpleFacts.split(" ")) {
+    if (NUMBER_WORDS.includes(word)) factNumbers.add(NUMBER_WORDS.indexOf(word));
+  }
+  for (const match of customizedResume.matchAll(NUMBER)) {
+    const span = { start: match.index, end: match.index + match[0].length };
+    if (dateSpans.some((date) => overlaps(date, span)) || factNumbers.has(numberValue(match[2], match[3]))) continue;
+    findings.push({
+      kind: "number",
+      ...span,
+      message: `The figure "${match[0].trim()}" does not appear in your original resume.`,
+    });
+  }
+
+  // Skills and achievements the original never claims
+  const factSkills = new Set(findSkills(facts).map(({ term }) => term));
+  for (const { term, matches } of findSkills(customizedResume)) {
+    if (factSkills.has(term)) continue;
+    for (const { start, end } of matches) {
+      findings.push({ kind: "claim", start, end, message: `Your original resume does not mention ${term}.` });
+    }
+  }
+  for (const match of customizedResume.matchAll(CLAIM)) {
+    if (mentioned(match[0].split(/\s+/)[0])) continue;
+    findings.push({
+      kind: "claim",
+      start: match.index,
+      end: match.index + match[0].trimEnd().length,
+      message: "This achievement does not appear in your original resume.",
+    });
+  }
+
+  // One flag per span, in reading order; where two overlap the earlier (then longer) one is kept
+  const kept: Finding[] = [];
+  for (const finding of findings.sort((a, b) => a.start - b.start || b.end - a.end)) {
+    if (!kept.some((other) => overlaps(other, finding))) kept.push(finding);
+  }
+
+  const originalLines = resumeText
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => ({ line, words: words(line) }));
+
+  return kept.map((finding) => {
+    const lineStart = customizedResume.lastIndexOf("\n", finding.start - 1) + 1;
+    const newline = customizedResume.indexOf("\n", finding.end);
+    const lineEnd = newline === -1 ? customizedResume.length : newline;
+    const line = customizedResume.slice(lineStart, lineEnd);
+    const lineWords = words(line);
+    const closest = originalLines
+      .map((original) => ({ ...original, score: similarity(lineWords, original.words) }))
+      .sort((a, b) => b.score - a.score)[0];
+
+    const revert =
+      closest && closest.score >= MIN_LINE_SIMILARITY
+        ? { start: lineStart, end: lineEnd, text: `${line.match(/^\s*/)?.[0] ?? ""}${closest.line}` }
+        : // Nothing like it in the original: drop the line with its line break
+          { start: lineStart, end: newline === -1 ? lineEnd : lineEnd + 1, text: "" };
+
+    return { ...finding, text: customizedResume.slice(finding.start, finding.end), revert };
+  });
+};
@@ -0,0 +1,60 @@
+// server/heuristics.test.ts
+import { describe, expect, it } from "vitest";
+import { analyzeResumeHeuristically } from "./heuristics";
+
+const strongResume = [
+  "Jane Doe",
+  "jane@example.com",
+  "Summary",
+  "Backend engineer with eight years of TypeScript and PostgreSQL.",
+  "Experience",
+  "- Cut checkout latency by 40% across three regions",
+  "- Led a team of 5 engineers through the billing migration",
+  "Education",
+  "BSc Computer Science",
+  "Skills",
+  "TypeScript, PostgreSQL, Kubernetes",
+].join("\n");
+
+describe("analyzeResumeHeuristically", () => {
+  it("credits quantified bullets, a summary and the standard sections", () => {
+    const feedback = analyzeResumeHeuristically({ resumeText: strongResume });
+
+    expect(feedback.strengths).toEqual([
+      "2 of 2 bullet points include numbers or metrics.",
+      "Opens with a summary section.",
+      "Has contact details and the standard Experience, Education and Skills sections.",
+      "Bullet points are a readable length.",
+      "Bullet points use active phrasing.",
+    ]);
+    expect(feedback.improvements).toEqual([]);
+    expect(feedback.tailoring).toEqual(["Add a job description to compare your resume's keywords against it."]);
+  });
+
+  it("flags missing sections, unquantified, short and passive bullets", () => {
+    const feedback = analyzeResumeHeuristically({
+      resumeText: ["Experience", "- Was responsible for the deploy pipeline", "- Wrote docs"].join("\n"),
+    });
+
+    expect(feedback.strengths).toEqual([]);
+    expect(feedback.improvements).toEqual([
+      "Only 0 of 2 bullet points include numbers. Add metrics such as percentages, amounts, team sizes or time saved.",
+      "Add a two to three line summary at the top that states your role and strongest skills.",
+      "Could not find these sections: Education, Skills, contact details.",
+      "1 bullet point has fewer than 5 words. Say what you did and what came of it.",
+      '1 bullet point uses passive phrasing such as "was responsible for". Start with an action verb instead, e.g. "Led", "Built" or "Reduced".',
+    ]);
+  });
+
+  it("lists required skills the resume is missing", () => {
+    const feedback = analyzeResumeHeuristically({
+      resumeText: strongResume,
+      jobDescription: "Requirements: TypeScript, Go and Terraform.",
+    });
+
+    expect(feedback.tailoring).toEqual([
+      "Covers 1 of the job description's 3 skills and keywords (keyword match 33%).",
+      "Required terms missing from your resume: Terraform, Go. Work in the ones that match your experience.",
+    ]);
+  });
+});
@@ -0,0 +1,147 @@
+// server/heuristics.ts
+import type { ResumeAnalysis, ResumeRequest } from "../shared/api";
+import { matchKeywords } from "./keywords";
+
+type Feedback = Pick<ResumeAnalysis, "strengths" | "improvements" | "tailoring">;
+
+const BULLET = /^\s*(?:[-*•●▪◦‣–]|\d+[.)])\s+/;
+const NUMBER = /\d|%|[$€£]/;
+// "was promoted", "were responsible for": a past-tense auxiliary followed by a participle
+const PASSIVE = /\b(?:was|were|been|being|is|are)\s+(?:\w+ed|built|made|led|run|given|taken|written|chosen|driven|shown)\b|\bresponsible for\b|\bduties included\b/i;
+
+const SECTIONS: { name: string; heading: RegExp }[] = [
+  { name: "Experience", heading: /^(?:professional |work )?(?:experience|employment(?: history)?|work history)\b/i },
+  { name: "Education", heading: /^education\b/i },
+  { name: "Skills", heading: /^(?:technical |core )?(?:skills|competencies|technologies)\b/i },
+];
+const SUMMARY_HEADING = /^(?:professional |career )?(?:summary|profile|objective|about me)\b/i;
+
+const EMAIL = /[\w.+-]+@[\w-]+\.[\w.]+/;
+const PHONE = /\+?\d[\d\s().-]{7,}\d/;
+
+const MAX_BULLET_WORDS = 30;
+const MIN_BULLET_WORDS = 5;
+
+const words = (text: string) => text.trim().split(/\s+/).filter(Boolean);
+
+// A short line that is all a section name, optionally followed by a colon
+const isHeading = (line: string, heading: RegExp) => line.length <= 40 && heading.test(line.replace(/[:\s]+$/, ""));
+
+// Bulleted lines; PDF text often loses the bullet characters, so sentence-length lines count when none are found
+const bulletsOf = (lines: string[]) => {
+  const marked = lines.filter((line) => BULLET.test(line)).map((line) => line.replace(BULLET, ""));
+  return marked.length ? marked : lines.filter((line) => words(line).length >= 8);
+};
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? "" : "s"}`;
+
+/**
+ * Rule-based resume review used when no LLM is available. It only looks at the text's structure and
+ * wording (numbers in bullets, a summary, standard sections, keyword overlap, bullet length, passive voice),
+ * so the same input always gives the same feedback.
+ */
+export const analyzeResumeHeuristically = ({
+  resumeText,
+  jobDescription,
+}: Pick<ResumeRequest, "resumeText" | "jobDescription">): Feedback => {
+  const feedback: Feedback = { strengths: [], improvements: [], tailoring: [] };
+  const lines = resumeText
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean);
+  const bullets = bulletsOf(lines);
+
+  // Quantified bullets
+  if (bullets.length) {
+    const quantified = bullets.filter((bullet) => NUMBER.test(bullet)).length;
+    if (quantified / bullets.length >= 0.5) {
+      feedback.strengths.push(
+        `${quantified} of ${plural(bullets.length, "bullet point")} ${quantified === 1 ? "includes" : "include"} ` +
+          "numbers or metrics.",
+      );
+    } else {
+      feedback.improvements.push(
+        `Only ${quantified} of ${plural(bullets.length, "bullet point")} ${quantified === 1 ? "includes" : "include"} numbers. ` +
+          "Add metrics such as percentages, amounts, team sizes or time saved.",
+      );
+    }
+  } else {
+    feedback.improvements.push("No bullet points were found. List achievements as short bullet points under each role.");
+  }
+
+  // Summary
+  if (lines.some((line) => isHeading(line, SUMMARY_HEADING))) {
+    feedback.strengths.push("Opens with a summary section.");
+  } else {
+    feedback.improvements.push("Add a two to three line summary at the top that states your role and strongest skills.");
+  }
+
+  // Section completeness
+  const missing = SECTIONS.filter(({ heading }) => !lines.some((line) => isHeading(line, heading))).map(
+    ({ name }) => name,
+  );
+  if (!EMAIL.test(resumeText) && !PHONE.test(resumeText)) missing.push("contact details");
+  if (missing.length) {
+    feedback.improvements.push(`Could not find these sections: ${missing.join(", ")}.`);
+  } else {
+    feedback.strengths.push("Has contact details and the standard Experience, Education and Skills sections.");
+  }
+
+  // Bullet length
+  const long = bullets.filter((bullet) => words(bullet).length > MAX_BULLET_WORDS).length;
+  const short = bullets.filter((bullet) => words(bullet).length < MIN_BULLET_WORDS).length;
+  if (long) {
+    feedback.improvements.push(
+      `${plural(long, "bullet point")} ${long === 1 ? "is" : "are"} longer than ${MAX_BULLET_WORDS} words. ` +
+        "Split them or cut each down to one or two lines.",
+    );
+  }
+  if (short) {
+    feedback.improvements.push(
+      `${plural(short, "bullet point")} ${short === 1 ? "has" : "have"} fewer than ${MIN_BULLET_WORDS} words. ` +
+        "Say what you did and what came of it.",
+    );
+  }
+  if (bullets.length && !long && !short) {
+    feedback.strengths.push("Bullet points are a readable length.");
+  }
+
+  // Passive voice
+  const passive = bullets.filter((bullet) => PASSIVE.test(bullet)).length;
+  if (passive) {
+    feedback.improvements.push(
+      `${plural(passive, "bullet point")} ${passive === 1 ? "uses" : "use"} passive phrasing such as ` +
+        '"was responsible for". Start with an action verb instead, e.g. "Led", "Built" or "Reduced".',
+    );
+  } else if (bullets.length) {
+    feedback.strengths.push("Bullet points use active phrasing.");
+  }
+
+  // Keyword overlap with the job description
+  const match = jobDescription ? matchKeywords(resumeText, jobDescription) : null;
+  if (match?.score == null) {
+    feedback.tailoring.push("Add a job description to compare your resume's keywords against it.");
+    return feedback;
+  }
+  const found = match.terms.filter((term) => term.locations.length).length;
+  const covers = `Covers ${found} of the job description's ${match.terms.length} skills and keywords`;
+  if (match.score >= 60) {
+    feedback.strengths.push(`${covers} (keyword match ${match.score}%).`);
+  } else {
+    feedback.tailoring.push(`${covers} (keyword match ${match.score}%).`);
+  }
+  const absent = (importance: string) =>
+    match.terms.filter((term) => term.importance === importance && !term.locations.length).map((term) => term.term);
+  const mustHaves = absent("must");
+  const niceToHaves = absent("nice");
+  if (mustHaves.length) {
+    feedback.tailoring.push(
+      `Required terms missing from your resume: ${mustHaves.slice(0, 8).join(", ")}. ` +
+        "Work in the ones that match your experience.",
+    );
+  }
+  if (niceToHaves.length) {
+    feedback.tailoring.push(`Nice-to-have terms you could add: ${niceToHaves.slice(0, 8).join(", ")}.`);
+  }
+  return feedback;
+};
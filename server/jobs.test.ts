@@ -0,0 +1,78 @@
+// server/jobs.test.ts
+import { describe, expect, it, vi } from "vitest";
+import { createJobQueue, type JobStep } from "./jobs";
+
+type Result = { text?: string; count?: number };
+
+// A step that finishes when `release` is called, or fails when the job is cancelled
+const heldStep = (name: string, result: Result) => {
+  let release = () => {};
+  const step: JobStep<Result> = {
+    name,
+    run: ({ signal, update }) =>
+      new Promise((resolve, reject) => {
+        update({ text: "partial" });
+        release = () => resolve({ result, cached: false });
+        signal.addEventListener("abort", () => reject(new Error("aborted")));
+      }),
+  };
+  return { step, release: () => release() };
+};
+
+const queue = () => createJobQueue<Result>({ concurrency: 1, retentionMs: 60_000 });
+
+describe("createJobQueue", () => {
+  it("merges partial and final step results", async () => {
+    const jobs = queue();
+    const text = heldStep("text", { text: "done" });
+    const count = heldStep("count", { count: 3 });
+    const { id } = jobs.enqueue([text.step, count.step], "user:ann");
+
+    await vi.waitFor(() => expect(jobs.get(id, "user:ann")?.result.text).toBe("partial"));
+    text.release();
+    count.release();
+
+    await vi.waitFor(() => expect(jobs.get(id, "user:ann")?.status).toBe("completed"));
+    expect(jobs.get(id, "user:ann")).toMatchObject({
+      result: { text: "done", count: 3 },
+      steps: [
+        { name: "text", status: "completed", cached: false },
+        { name: "count", status: "completed", cached: false },
+      ],
+    });
+  });
+
+  it("reports a failed step on the job", async () => {
+    const jobs = queue();
+    const failing: JobStep<Result> = { name: "broken", run: async () => Promise.reject(new Error("model error")) };
+    const { id } = jobs.enqueue([failing], "user:ann");
+
+    await vi.waitFor(() => expect(jobs.get(id, "user:ann")?.status).toBe("failed"));
+    expect(jobs.get(id, "user:ann")?.error).toBe("broken: model error");
+  });
+
+  it("shows a job only to the subject that enqueued it", () => {
+    const jobs = queue();
+    const { id } = jobs.enqueue([heldStep("text", {}).step], "user:ann");
+
+    expect(jobs.get(id, "user:ann")).toBeDefined();
+    expect(jobs.get(id, "user:bob")).toBeUndefined();
+    expect(jobs.get(id, "ip:127.0.0.1")).toBeUndefined();
+  });
+
+  it("cancels running and queued jobs once", async () => {
+    const jobs = queue();
+    const first = jobs.enqueue([heldStep("text", {}).step], "user:ann");
+    // Waits behind the first job, since only one runs at a time
+    const second = jobs.enqueue([heldStep("text", {}).step], "user:ann");
+    expect(second.status).toBe("queued");
+
+    expect(jobs.cancel(first.id)).toBe(true);
+    expect(jobs.cancel(second.id)).toBe(true);
+    expect(jobs.cancel(first.id)).toBe(false);
+
+    await vi.waitFor(() => expect(jobs.get(first.id, "user:ann")?.steps[0].status).toBe("cancelled"));
+    expect(jobs.get(first.id, "user:ann")?.status).toBe("cancelled");
+    expect(jobs.get(second.id, "user:ann")).toMatchObject({ status: "cancelled", steps: [{ status: "cancelled" }] });
+  });
+});
@@ -0,0 +1,177 @@
+// server/jobs.ts
+import { randomUUID } from "crypto";
+import { logger } from "./logger";
+
+const log = logger.child({ component: "jobs" });
+
+export type JobStatus = "queued" | "running" | "completed" | "failed" | "cancelled";
+export type StepStatus = "pending" | "running" | "completed" | "failed" | "cancelled";
+
+type StepContext<R> = {
+  signal: AbortSignal;
+  // Publishes partial output (e.g. streamed text) while the step is still running
+  update: (partial: Partial<R>) => void;
+};
+
+export type JobStep<R> = {
+  name: string;
+  run: (ctx: StepContext<R>) => Promise<{ result: Partial<R>; cached: boolean }>;
+};
+
+export type JobStepView = {
+  name: string;
+  status: StepStatus;
+  cached?: boolean;
+  error?: string;
+};
+
+export type JobView<R> = {
+  id: string;
+  status: JobStatus;
+  createdAt: string;
+  updatedAt: string;
+  steps: JobStepView[];
+  result: Partial<R>;
+  error?: string;
+};
+
+type Job<R> = {
+  view: JobView<R>;
+  // Who enqueued the job; only they can read or cancel it
+  owner: string;
+  steps: JobStep<R>[];
+  controller: AbortController;
+  finishedAt?: number;
+};
+
+type JobQueueOptions = {
+  // Jobs allowed to run at the same time; the rest wait in order
+  concurrency: number;
+  // How long a finished job stays available for polling
+  retentionMs: number;
+};
+
+const errorMessage = (err: unknown) => (err instanceof Error ? err.message : "Unknown error occurred");
+
+/**
+ * In-memory job queue. Each job runs its steps in parallel, merges every step's result into
+ * `view.result` as it arrives, and can be cancelled while queued or running.
+ */
+export const createJobQueue = <R>({ concurrency, retentionMs }: JobQueueOptions) => {
+  const jobs = new Map<string, Job<R>>();
+  const waiting: Job<R>[] = [];
+  let running = 0;
+
+  const touch = (job: Job<R>) => {
+    job.view.updatedAt = new Date().toISOString();
+  };
+
+  const finish = (job: Job<R>, status: JobStatus, error?: string) => {
+    job.view.status = status;
+    job.view.error = error;
+    job.finishedAt = Date.now();
+    touch(job);
+  };
+
+  const prune = () => {
+    const now = Date.now();
+    for (const [id, job] of jobs) {
+      if (job.finishedAt && now - job.finishedAt > retentionMs) jobs.delete(id);
+    }
+  };
+
+  const runJob = async (job: Job<R>) => {
+    running++;
+    job.view.status = "running";
+    touch(job);
+
+    await Promise.all(
+      job.steps.map(async (step, index) => {
+        const stepView = job.view.steps[index];
+        stepView.status = "running";
+        touch(job);
+        try {
+          const { result, cached } = await step.run({
+            signal: job.controller.signal,
+            update: (partial) => {
+              if (job.controller.signal.aborted) return;
+              Object.assign(job.view.result, partial);
+              touch(job);
+            },
+          });
+          if (job.controller.signal.aborted) return;
+          Object.assign(job.view.result, result);
+          stepView.status = "completed";
+          stepView.cached = cached;
+        } catch (err: unknown) {
+          if (job.controller.signal.aborted) {
+            stepView.status = "cancelled";
+          } else {
+            log.error("step failed", { jobId: job.view.id, step: step.name, err });
+            stepView.status = "failed";
+            stepView.error = errorMessage(err);
+          }
+        }
+        touch(job);
+      }),
+    );
+
+    running--;
+    if (job.view.status === "running") {
+      const failed = job.view.steps.find((step) => step.status === "failed");
+      finish(job, failed ? "failed" : "completed", failed ? `${failed.name}: ${failed.error}` : undefined);
+    }
+    next();
+  };
+
+  const next = () => {
+    while (running < concurrency && waiting.length) {
+      const job = waiting.shift()!;
+      if (job.view.status === "queued") void runJob(job);
+    }
+  };
+
+  return {
+    enqueue(steps: JobStep<R>[], owner: string): JobView<R> {
+      prune();
+      const now = new Date().toISOString();
+      const job: Job<R> = {
+        view: {
+          id: randomUUID(),
+          status: "queued",
+          createdAt: now,
+          updatedAt: now,
+          steps: steps.map((step) => ({ name: step.name, status: "pending" })),
+          result: {},
+        },
+        owner,
+        steps,
+        controller: new AbortController(),
+      };
+      jobs.set(job.view.id, job);
+      waiting.push(job);
+      next();
+      return job.view;
+    },
+
+    // Someone else's job is reported as unknown, so ids cannot be probed
+    get(id: string, owner: string): JobView<R> | undefined {
+      prune();
+      const job = jobs.get(id);
+      return job?.owner === owner ? job.view : undefined;
+    },
+
+    // Returns false when the job is unknown or already finished
+    cancel(id: string): boolean {
+      const job = jobs.get(id);
+      if (!job || (job.view.status !== "queued" && job.view.status !== "running")) return false;
+
+      job.controller.abort();
+      for (const step of job.view.steps) {
+        if (step.status === "pending" || step.status === "running") step.status = "cancelled";
+      }
+      finish(job, "cancelled");
+      return true;
+    },
+  };
+};
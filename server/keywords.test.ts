@@ -0,0 +1,41 @@
+// server/keywords.test.ts
+import { describe, expect, it } from "vitest";
+import { findSkills, matchKeywords } from "./keywords";
+
+const JOB = ["Requirements:", "- Strong React and TypeScript experience", "", "Nice to have:", "- Docker"].join("\n");
+
+const termOf = (resumeText: string, term: string) =>
+  matchKeywords(resumeText, JOB).terms.find((entry) => entry.term === term);
+
+describe("findSkills", () => {
+  it("counts a longer skill name once instead of also as the shorter one", () => {
+    expect(findSkills("Built apps in React Native").map(({ term }) => term)).toEqual(["React Native"]);
+  });
+
+  it("finds skills by their synonyms", () => {
+    expect(findSkills("Frontend in reactjs").map(({ term }) => term)).toEqual(["React"]);
+  });
+});
+
+describe("matchKeywords", () => {
+  it("tells must-haves from nice-to-haves by heading", () => {
+    expect(termOf("", "React")?.importance).toBe("must");
+    expect(termOf("", "Docker")?.importance).toBe("nice");
+  });
+
+  it("reports where the resume mentions a term", () => {
+    const react = termOf("SKILLS\nReact, TypeScript", "React");
+
+    expect(react?.locations).toHaveLength(1);
+    expect(react?.locations[0]).toMatchObject({ start: 7, end: 12, excerpt: "React, TypeScript" });
+  });
+
+  it("does not count React Native in the resume as React", () => {
+    expect(termOf("Built mobile apps in React Native", "React")?.locations).toEqual([]);
+  });
+
+  it("weighs must-haves twice as much as nice-to-haves", () => {
+    // React and TypeScript are must-haves (2 each), Docker is nice (1): 4 of 5
+    expect(matchKeywords("React and TypeScript", JOB).score).toBe(80);
+  });
+});
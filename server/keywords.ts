@@ -0,0 +1,335 @@
+// server/keywords.ts
+import type { KeywordImportance, KeywordMatch } from "../shared/api";
+import { detectSections } from "./documents/text";
+
+type Term = KeywordMatch["terms"][number];
+
+type Skill = {
+  term: string;
+  // Other spellings and synonyms, matched without regard to case
+  aliases?: string[];
+  // Spellings only matched with this capitalization, for names that are also everyday words ("Go", "React")
+  exact?: string[];
+};
+
+// Skills recognized by name and synonym; anything else the job description repeats is found as a plain keyword
+const SKILLS: Skill[] = [
+  // Languages
+  { term: "JavaScript", aliases: ["js", "ecmascript", "es6"] },
+  { term: "TypeScript", aliases: ["ts"] },
+  { term: "Python" },
+  { term: "Java" },
+  { term: "Go", aliases: ["golang"], exact: ["Go"] },
+  { term: "Rust", exact: ["Rust"] },
+  { term: "C#", aliases: ["csharp", "c sharp"] },
+  { term: "C++", aliases: ["cpp"] },
+  { term: "Ruby" },
+  { term: "PHP" },
+  { term: "Kotlin" },
+  { term: "Swift", exact: ["Swift"] },
+  { term: "Scala" },
+  { term: "SQL" },
+  { term: "HTML", aliases: ["html5"] },
+  { term: "CSS", aliases: ["css3"] },
+  { term: "Bash", aliases: ["shell scripting"] },
+  // Frameworks and libraries
+  { term: "React", aliases: ["react.js", "reactjs"], exact: ["React"] },
+  { term: "React Native" },
+  { term: "Next.js", aliases: ["nextjs"] },
+  { term: "Vue.js", aliases: ["vue", "vuejs"] },
+  { term: "Angular", aliases: ["angularjs"] },
+  { term: "Node.js", aliases: ["node", "nodejs"] },
+  { term: "Express", aliases: ["express.js", "expressjs"], exact: ["Express"] },
+  { term: "Django" },
+  { term: "Flask" },
+  { term: "FastAPI" },
+  { term: "Spring Boot", aliases: ["spring"] },
+  { term: "Ruby on Rails", aliases: ["rails"] },
+  { term: ".NET", aliases: ["dotnet", "asp.net"] },
+  { term: "Redux" },
+  { term: "Tailwind CSS", aliases: ["tailwind", "tailwindcss"] },
+  { term: "GraphQL" },
+  { term: "REST APIs", aliases: ["restful", "restful api", "rest api"], exact: ["REST"] },
+  { term: "gRPC" },
+  { term: "Microservices", aliases: ["microservice", "micro-services", "microservice architecture"] },
+  // Data and storage
+  { term: "PostgreSQL", aliases: ["postgres", "psql"] },
+  { term: "MySQL" },
+  { term: "MongoDB", aliases: ["mongo"] },
+  { term: "Redis" },
+  { term: "Elasticsearch", aliases: ["elastic search", "opensearch"] },
+  { term: "NoSQL" },
+  { term: "Kafka", aliases: ["apache kafka"] },
+  { term: "Spark", aliases: ["apache spark", "pyspark"] },
+  { term: "Airflow", aliases: ["apache airflow"] },
+  { term: "Snowflake" },
+  { term: "dbt" },
+  { term: "ETL", aliases: ["elt", "data pipelines", "data pipeline"] },
+  { term: "Data analysis", aliases: ["data analytics", "analyzing data"] },
+  { term: "Data visualization", aliases: ["data visualisation"] },
+  { term: "Tableau" },
+  { term: "Power BI", aliases: ["powerbi"] },
+  { term: "Excel", aliases: ["microsoft excel", "spreadsheets"], exact: ["Excel"] },
+  { term: "Pandas" },
+  { term: "NumPy" },
+  // Machine learning
+  { term: "Machine learning", aliases: ["ml"] },
+  { term: "Deep learning" },
+  { term: "Natural language processing", aliases: ["nlp"] },
+  { term: "Computer vision" },
+  { term: "LLMs", aliases: ["llm", "large language models", "large language model", "generative ai", "genai"] },
+  { term: "PyTorch" },
+  { term: "TensorFlow" },
+  { term: "scikit-learn", aliases: ["sklearn"] },
+  // Cloud and operations
+  { term: "AWS", aliases: ["amazon web services"] },
+  { term: "Google Cloud", aliases: ["gcp", "google cloud platform"] },
+  { term: "Azure", aliases: ["microsoft azure"] },
+  { term: "Docker", aliases: ["containers", "containerization"] },
+  { term: "Kubernetes", aliases: ["k8s"] },
+  { term: "Terraform", aliases: ["infrastructure as code", "iac"] },
+  {
+    term: "CI/CD",
+    aliases: ["cicd", "continuous integration", "continuous delivery", "continuous deployment"],
+    exact: ["CI"],
+  },
+  { term: "GitHub Actions" },
+  { term: "Jenkins" },
+  { term: "Git", aliases: ["github", "gitlab"] },
+  { term: "Linux", aliases: ["unix"] },
+  { term: "Observability", aliases: ["monitoring", "prometheus", "grafana", "datadog"] },
+  { term: "Security", aliases: ["cybersecurity", "application security", "appsec"] },
+  // Testing
+  { term: "Unit testing", aliases: ["unit tests", "jest", "pytest", "junit"] },
+  { term: "Test automation", aliases: ["automated testing", "cypress", "playwright", "selenium"] },
+  // Design and product
+  { term: "Figma" },
+  { term: "UX design", aliases: ["ux", "user experience", "ui/ux", "ux/ui"] },
+  { term: "A/B testing", aliases: ["ab testing", "experimentation"] },
+  { term: "Product management", aliases: ["product manager", "roadmap", "roadmaps"] },
+  { term: "Project management", aliases: ["project manager", "pmp"] },
+  { term: "Agile", aliases: ["scrum", "kanban"] },
+  { term: "Jira" },
+  { term: "SEO", aliases: ["search engine optimization"] },
+  { term: "Salesforce" },
+  // Working with people
+  { term: "Stakeholder management", aliases: ["stakeholders", "cross-functional"] },
+  { term: "Communication", aliases: ["communication skills", "communicator"] },
+  { term: "Leadership", aliases: ["leading teams", "team lead"] },
+  { term: "Mentoring", aliases: ["mentorship", "mentor", "coaching"] },
+  { term: "Problem solving", aliases: ["problem-solving"] },
+];
+
+const STOPWORDS = new Set(
+  (
+    "a about above after all also an and any are as at be because been being both but by can could did do does " +
+    "doing during each few for from further had has have having he her here hers how i if in into is it its just " +
+    "more most my no nor not of off on once only or other our out over own same she should so some such than that " +
+    "the their them then there these they this those through to too under until up very was we were what when " +
+    "where which while who whom why will with would you your us " +
+    // Job ad boilerplate
+    "ability able across candidate company etc experience including join looking must need needs new plus preferred " +
+    "required requirements responsibilities role seeking strong team want work working years " +
+    "benefits bonus environment excellent familiarity good great ideal ideally knowledge opportunity position " +
+    "qualifications salary skills understanding well within year day help make build building using use"
+  ).split(" "),
+);
+
+// Headings and phrases that say whether the text under or around them is a requirement or a bonus
+const NICE_CUE =
+  /\b(?:nice[- ]to[- ]haves?|(?:is|are|as) a (?:plus|bonus)|bonus points?|pluses|preferred|preferably|ideally|desired|desirable|optional|good to have|familiarity with|exposure to|not required)\b/i;
+const MUST_CUE =
+  /\b(?:requirements?|required|must(?:[- ]haves?)?|need to|mandatory|essential|minimum|qualifications|what you(?:'ll)? (?:need|bring)|you have|\d+\+?\s*years)\b/i;
+
+const BULLET = /^\s*(?:[-*\u2022\u25cf\u25aa\u25e6\u2023\u2013]|\d+[.)])\s+/;
+
+// Most repeated other keywords that are reported next to the known skills
+const MAX_KEYWORDS = 10;
+// Resume locations reported per term
+const MAX_LOCATIONS = 5;
+
+const WEIGHT: Record<KeywordImportance, number> = { must: 2, nice: 1 };
+
+const escape = (text: string) => text.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+
+// A spelling as a pattern: any whitespace or hyphen between words, an optional plural, no partial words
+const spellingPattern = (spelling: string, plural: boolean) => {
+  const words = spelling.trim().split(/[\s-]+/).map(escape).join(String.raw`[\s-]+`);
+  if (!plural || !/[a-z]$/i.test(spelling)) return String.raw`(?<![\w+#.])${words}(?![\w+#]|\.\w)`;
+  const stem = /[^aeiou]y$/i.test(spelling) ? `${words.slice(0, -1)}(?:y|ies)` : `${words}(?:e?s)?`;
+  return String.raw`(?<![\w+#.])${stem}(?![\w+#]|\.\w)`;
+};
+
+const skillPattern = ({ term, aliases = [], exact = [] }: Skill) => {
+  const anyCase = [term, ...aliases].filter((spelling) => !exact.includes(spelling));
+  return {
+    anyCase: anyCase.length ? new RegExp(anyCase.map((s) => spellingPattern(s, true)).join("|"), "gi") : null,
+    exact: exact.length ? new RegExp(exact.map((s) => spellingPattern(s, false)).join("|"), "g") : null,
+  };
+};
+
+const SKILL_PATTERNS = SKILLS.map((skill) => ({ skill, ...skillPattern(skill) }));
+
+const matchesOf = (text: string, pattern: RegExp | null) =>
+  pattern ? [...text.matchAll(pattern)].map((match) => ({ start: match.index, end: match.index + match[0].length })) : [];
+
+// Matches of any spelling, once per place ("REST APIs" is not also counted as "REST")
+const skillMatches = (text: string, patterns: (typeof SKILL_PATTERNS)[number]) =>
+  [...matchesOf(text, patterns.anyCase), ...matchesOf(text, patterns.exact)]
+    .sort((a, b) => a.start - b.start || b.end - a.end)
+    .filter((match, i, all) => !all.slice(0, i).some((other) => match.start < other.end));
+
+// Known skills in the text with where they appear; longer names first, so "React Native" is not also counted as "React"
+const skillsIn = (text: string) => {
+  const covered: { start: number; end: number }[] = [];
+  const found: { patterns: (typeof SKILL_PATTERNS)[number]; matches: { start: number; end: number }[] }[] = [];
+  for (const patterns of [...SKILL_PATTERNS].sort((a, b) => b.skill.term.length - a.skill.term.length)) {
+    const matches = skillMatches(text, patterns).filter(
+      (match) => !covered.some((span) => match.start < span.end && match.end > span.start),
+    );
+    if (!matches.length) continue;
+    covered.push(...matches);
+    found.push({ patterns, matches });
+  }
+  return found;
+};
+
+/** The known skills a text names (by name or synonym) and the character range of each mention. */
+export const findSkills = (text: string) =>
+  skillsIn(text).map(({ patterns, matches }) => ({ term: patterns.skill.term, matches }));
+
+// Requirement level of every character range in the job description: from the heading it sits under,
+// unless the sentence itself says otherwise
+const importanceMap = (jobDescription: string) => {
+  const ranges: { start: number; end: number; importance: KeywordImportance }[] = [];
+  let heading: KeywordImportance | null = null;
+  let offset = 0;
+  for (const line of jobDescription.split("\n")) {
+    const trimmed = line.trim();
+    const isHeading = trimmed.length > 0 && trimmed.length <= 60 && !BULLET.test(line) && !/[.!?]$/.test(trimmed);
+    if (isHeading && (NICE_CUE.test(trimmed) || MUST_CUE.test(trimmed) || trimmed.endsWith(":"))) {
+      heading = NICE_CUE.test(trimmed) ? "nice" : MUST_CUE.test(trimmed) ? "must" : null;
+    }
+    for (const { 0: sentence, index } of line.matchAll(/[^.;!?]+[.;!?]*/g)) {
+      const own = NICE_CUE.test(sentence) ? "nice" : MUST_CUE.test(sentence) ? "must" : null;
+      ranges.push({ start: offset + index, end: offset + index + sentence.length, importance: own ?? heading ?? "must" });
+    }
+    offset += line.length + 1;
+  }
+  return (position: number) => ranges.find((range) => position >= range.start && position < range.end)?.importance ?? "must";
+};
+
+// A term is a nice-to-have only when every mention of it is
+const importanceOf = (positions: number[], at: (position: number) => KeywordImportance): KeywordImportance =>
+  positions.every((position) => at(position) === "nice") ? "nice" : "must";
+
+const stem = (word: string) => {
+  const lower = word.toLowerCase().replace(/'s$/, "");
+  if (lower.length > 4 && lower.endsWith("ies")) return `${lower.slice(0, -3)}y`;
+  if (lower.length > 3 && lower.endsWith("s") && !/(?:ss|us|is)$/.test(lower)) return lower.slice(0, -1);
+  return lower;
+};
+
+/**
+ * Repeated words and two-word phrases of the job description that are not known skills or boilerplate,
+ * plus acronyms ("HIPAA", "SOC"), most frequent first.
+ */
+const otherKeywords = (jobDescription: string, covered: { start: number; end: number }[]) => {
+  const tokens = [...jobDescription.matchAll(/[A-Za-z][A-Za-z0-9+#'-]*[A-Za-z0-9+#]|[A-Za-z]/g)]
+    .filter((match) => !covered.some((span) => match.index >= span.start && match.index < span.end))
+    .map((match) => ({ word: match[0], key: stem(match[0]), start: match.index, end: match.index + match[0].length }))
+    .filter(({ word, key }) => key.length >= 3 && !STOPWORDS.has(key) && !STOPWORDS.has(word.toLowerCase()));
+
+  const counts = new Map<string, { surface: string; positions: number[]; acronym: boolean }>();
+  const count = (key: string, surface: string, position: number, acronym = false) => {
+    const entry = counts.get(key) ?? { surface, positions: [], acronym };
+    entry.positions.push(position);
+    counts.set(key, entry);
+  };
+
+  tokens.forEach((token, i) => {
+    count(token.key, token.word.toLowerCase(), token.start, /^[A-Z]{2,6}$/.test(token.word));
+    const next = tokens[i + 1];
+    // Neighbours only, not across punctuation or a skipped word
+    if (next && /^[ -]$/.test(jobDescription.slice(token.end, next.start))) {
+      count(`${token.key} ${next.key}`, `${token.word} ${next.word}`.toLowerCase(), token.start);
+    }
+  });
+
+  const phrases = [...counts.entries()].filter(([key, { positions }]) => key.includes(" ") && positions.length >= 2);
+  // Words that mostly appear inside a repeated phrase are reported as the phrase
+  const inPhrases = (key: string) =>
+    phrases.filter(([phrase]) => phrase.split(" ").includes(key)).reduce((sum, [, { positions }]) => sum + positions.length, 0);
+
+  return [...counts.entries()]
+    .filter(([key, { positions, acronym }]) =>
+      key.includes(" ") ? positions.length >= 2 : positions.length - inPhrases(key) >= 2 || (acronym && !inPhrases(key)),
+    )
+    .sort(([, a], [, b]) => b.positions.length - a.positions.length || a.positions[0] - b.positions[0])
+    .slice(0, MAX_KEYWORDS)
+    .map(([key, { surface, positions }]) => ({ term: surface, key, positions }));
+};
+
+// The resume line around a match, shortened to a readable excerpt
+const excerptAt = (text: string, start: number, end: number) => {
+  const lineStart = text.lastIndexOf("\n", start - 1) + 1;
+  const lineEnd = text.indexOf("\n", end);
+  const line = text.slice(lineStart, lineEnd === -1 ? text.length : lineEnd);
+  const from = Math.max(0, start - lineStart - 40);
+  const to = Math.min(line.length, end - lineStart + 40);
+  return `${from > 0 ? "\u2026" : ""}${line.slice(from, to).trim()}${to < line.length ? "\u2026" : ""}`;
+};
+
+/**
+ * Deterministic ATS-style comparison: finds the job description's known skills (with synonyms and multi-word
+ * names) and its other repeated keywords, tells must-haves from nice-to-haves by headings and wording, and
+ * reports where the resume mentions each one. The score weighs must-haves twice as much as nice-to-haves.
+ */
+export const matchKeywords = (resumeText: string, jobDescription: string): KeywordMatch => {
+  const importanceAt = importanceMap(jobDescription);
+  const sections = detectSections(resumeText);
+  const sectionAt = (position: number) =>
+    sections.find((section) => position >= section.start && position < section.end)?.title ?? null;
+
+  const locate = (matches: { start: number; end: number }[]) =>
+    matches.slice(0, MAX_LOCATIONS).map(({ start, end }) => ({
+      section: sectionAt(start),
+      start,
+      end,
+      excerpt: excerptAt(resumeText, start, end),
+    }));
+
+  const skills = skillsIn(jobDescription);
+  // Resume mentions go through the same longest-name-first pass, so "React Native" does not count as "React"
+  const resumeSkills = new Map(skillsIn(resumeText).map(({ patterns, matches }) => [patterns.skill.term, matches]));
+  const terms: Term[] = [];
+  for (const { patterns, matches } of skills) {
+    terms.push({
+      term: patterns.skill.term,
+      kind: "skill",
+      importance: importanceOf(
+        matches.map((match) => match.start),
+        importanceAt,
+      ),
+      mentions: matches.length,
+      locations: locate(resumeSkills.get(patterns.skill.term) ?? []),
+    });
+  }
+  const covered = skills.flatMap(({ matches }) => matches);
+
+  for (const { term, key, positions } of otherKeywords(jobDescription, covered)) {
+    terms.push({
+      term,
+      kind: "keyword",
+      importance: importanceOf(positions, importanceAt),
+      mentions: positions.length,
+      // By stem, so "dashboards" also finds "dashboard"
+      locations: locate(matchesOf(resumeText, new RegExp(spellingPattern(key, true), "gi"))),
+    });
+  }
+
+  terms.sort((a, b) => WEIGHT[b.importance] - WEIGHT[a.importance] || b.mentions - a.mentions);
+  const total = terms.reduce((sum, term) => sum + WEIGHT[term.importance], 0);
+  const found = terms.filter((term) => term.locations.length).reduce((sum, term) => sum + WEIGHT[term.importance], 0);
+  return { score: total ? Math.round((found / total) * 100) : null, terms };
+};
@@ -0,0 +1,63 @@
+// server/llm/index.ts
+import { createMockProvider } from "./mock";
+import { createOpenAIProvider } from "./openai";
+import { extractJson } from "./structured";
+import type { CompletionRequest, LLMProvider } from "./types";
+
+export { completeStructured, extractJson } from "./structured";
+export type { ChatMessage, CompletionRequest, CompletionResult, LLMProvider, TokenUsage } from "./types";
+
+type Env = { [key: string]: string | undefined };
+
+/**
+ * Picks the provider from the environment:
+ * - LLM_PROVIDER=openai (default): needs OPENAI_API_KEY
+ * - LLM_PROVIDER=openai-compatible: any OpenAI-style endpoint (Ollama, llama.cpp), needs LLM_BASE_URL
+ * - LLM_PROVIDER=mock: canned responses, optionally overridden from LLM_MOCK_FIXTURES
+ * LLM_MODEL overrides the model name for the real providers.
+ * Returns null when the selected provider is missing its credentials.
+ */
+export const createProviderFromEnv = (env: Env): LLMProvider | null => {
+  const kind = (env.LLM_PROVIDER || "openai").trim().toLowerCase();
+
+  switch (kind) {
+    case "openai":
+      if (!env.OPENAI_API_KEY) return null;
+      return createOpenAIProvider({
+        name: "openai",
+        model: env.LLM_MODEL || "gpt-4o-mini",
+        apiKey: env.OPENAI_API_KEY,
+      });
+    case "openai-compatible":
+      if (!env.LLM_BASE_URL) {
+        throw new Error("LLM_BASE_URL is required when LLM_PROVIDER=openai-compatible");
+      }
+      return createOpenAIProvider({
+        name: "openai-compatible",
+        model: env.LLM_MODEL || "llama3.1",
+        // Local servers usually ignore the key, but the client requires one
+        apiKey: env.LLM_API_KEY || "not-needed",
+        baseURL: env.LLM_BASE_URL,
+      });
+    case "mock":
+      return createMockProvider({ fixturesDir: env.LLM_MOCK_FIXTURES });
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${kind}" (expected openai, openai-compatible or mock)`);
+  }
+};
+
+// Runs a completion and returns its trimmed text, failing on an empty answer.
+export const completeText = async (llm: LLMProvider, request: CompletionRequest): Promise<string> => {
+  const { text } = await llm.complete(request);
+  const trimmed = text.trim();
+  if (!trimmed) {
+    throw new Error(`${llm.name} returned an empty response`);
+  }
+  return trimmed;
+};
+
+// Runs a completion in JSON mode and parses the first JSON object in the answer.
+export const completeJson = async <T = unknown>(llm: LLMProvider, request: CompletionRequest): Promise<T> => {
+  const text = await completeText(llm, { ...request, json: true });
+  return extractJson(text) as T;
+};
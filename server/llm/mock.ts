@@ -0,0 +1,149 @@
+// server/llm/mock.ts
+import fs from "fs";
+import path from "path";
+import type { CompletionRequest, LLMProvider, TokenUsage } from "./types";
+
+// Built-in responses, one per analyzer task. A fixtures directory can override any of them.
+const DEFAULT_FIXTURES: Record<string, string> = {
+  feedback: JSON.stringify({
+    strengths: [
+      "Clear progression of responsibility across roles.",
+      "Technical skills are listed in a dedicated section.",
+    ],
+    improvements: [
+      "Add metrics to the most recent role's bullet points.",
+      "Open with a two-line professional summary.",
+    ],
+    tailoring: [
+      "Reuse the job description's wording for the core tools.",
+      "Move the most relevant project to the top of the experience section.",
+    ],
+  }),
+  customize: [
+    "JANE DOE",
+    "Software Engineer",
+    "",
+    "PROFESSIONAL SUMMARY",
+    "Engineer with five years of experience building reliable web applications.",
+    "",
+    "EXPERIENCE",
+    "Software Engineer, Example Corp (2020 - Present)",
+    "- Built and shipped customer-facing features in React and TypeScript.",
+    "- Cut API response times by improving database queries.",
+    "",
+    "SKILLS",
+    "TypeScript, React, Node.js, SQL",
+  ].join("\n"),
+  changes: JSON.stringify({
+    changes: [
+      {
+        section: "Professional Summary",
+        current: "Engineer with experience building web applications.",
+        proposed: "Engineer with five years of experience building reliable web applications in React and TypeScript.",
+        rationale: "States seniority and names the stack the role asks for.",
+        category: "summary",
+      },
+      {
+        section: "Skills Section",
+        current: "JavaScript, React",
+        proposed: "TypeScript, React, Node.js, SQL",
+        rationale: "Lists the required tools using the job description's wording.",
+        category: "skills",
+      },
+    ],
+  }),
+  profile: JSON.stringify({
+    contact: { name: "Jane Doe", email: "jane@example.com", phone: "", location: "Berlin, Germany", links: [] },
+    summary: "Engineer with experience building web applications.",
+    experience: [
+      {
+        employer: "Example Corp",
+        title: "Software Engineer",
+        location: "",
+        startDate: "2020",
+        endDate: "Present",
+        bullets: ["Built customer-facing features in React.", "Improved database queries behind the public API."],
+      },
+    ],
+    education: [
+      { institution: "Example University", degree: "BSc", field: "Computer Science", startDate: "", endDate: "2019", details: [] },
+    ],
+    skills: ["JavaScript", "React", "SQL"],
+    projects: [],
+    certifications: [],
+  }),
+  coverLetter: [
+    "Jane Doe",
+    "Software Engineer",
+    "",
+    "jane@example.com",
+    "",
+    "------------------------------",
+    "",
+    "COVER LETTER",
+    "",
+    "Date: January 1, 2025",
+    "",
+    "Dear Hiring Manager,",
+    "",
+    "I am excited to apply for this role.",
+    "",
+    "My experience building web applications matches what your team is looking for.",
+    "",
+    "Sincerely,",
+    "",
+    "Jane Doe",
+  ].join("\n"),
+};
+
+// Roughly four characters per token, enough to exercise usage accounting
+const estimateUsage = ({ messages }: CompletionRequest, text: string): TokenUsage => {
+  const promptTokens = Math.ceil(messages.reduce((sum, m) => sum + m.content.length, 0) / 4);
+  const completionTokens = Math.ceil(text.length / 4);
+  return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+};
+
+type MockProviderOptions = {
+  // Directory holding `<task>.txt` or `<task>.json` files that replace the built-in responses
+  fixturesDir?: string;
+};
+
+// Deterministic provider for offline development and repeatable tests: the same task always
+// returns the same text, and streaming splits it into the same chunks.
+export const createMockProvider = ({ fixturesDir }: MockProviderOptions = {}): LLMProvider => {
+  const readFixture = ({ task }: CompletionRequest): string => {
+    if (fixturesDir) {
+      for (const ext of [".txt", ".json"]) {
+        const file = path.join(fixturesDir, `${task}${ext}`);
+        if (fs.existsSync(file)) return fs.readFileSync(file, "utf8");
+      }
+    }
+    const fixture = DEFAULT_FIXTURES[task];
+    if (fixture === undefined) {
+      throw new Error(`Mock provider has no fixture for task "${task}"`);
+    }
+    return fixture;
+  };
+
+  return {
+    name: "mock",
+    model: "mock",
+
+    async complete(request) {
+      const text = readFixture(request);
+      return { text, usage: estimateUsage(request, text) };
+    },
+
+    async *stream(request) {
+      const text = readFixture(request);
+      // Split after whitespace so the chunks concatenate back to the exact fixture
+      for (const chunk of text.match(/\S+\s*|\s+/g) || []) {
+        if (request.signal?.aborted) {
+          throw new Error("Request was aborted");
+        }
+        yield chunk;
+      }
+      request.onUsage?.(estimateUsage(request, text));
+    },
+  };
+};
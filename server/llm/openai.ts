@@ -0,0 +1,69 @@
+// server/llm/openai.ts
+import OpenAI from "openai";
+import type { LLMProvider } from "./types";
+
+type OpenAIProviderOptions = {
+  name: string;
+  model: string;
+  apiKey: string;
+  // Set for OpenAI-compatible servers such as Ollama (http://localhost:11434/v1) or llama.cpp
+  baseURL?: string;
+};
+
+export const createOpenAIProvider = ({ name, model, apiKey, baseURL }: OpenAIProviderOptions): LLMProvider => {
+  const client = new OpenAI({ apiKey, baseURL });
+
+  return {
+    name,
+    model,
+
+    async complete({ messages, temperature, json, signal, model: modelOverride }) {
+      const resp = await client.chat.completions.create(
+        {
+          model: modelOverride || model,
+          messages,
+          temperature,
+          ...(json ? { response_format: { type: "json_object" as const } } : {}),
+        },
+        { signal },
+      );
+
+      return {
+        text: resp.choices[0]?.message?.content || "",
+        usage: resp.usage
+          ? {
+              promptTokens: resp.usage.prompt_tokens,
+              completionTokens: resp.usage.completion_tokens,
+              totalTokens: resp.usage.total_tokens,
+            }
+          : undefined,
+      };
+    },
+
+    async *stream({ messages, temperature, signal, model: modelOverride, onUsage }) {
+      const stream = await client.chat.completions.create(
+        {
+          model: modelOverride || model,
+          messages,
+          temperature,
+          stream: true,
+          // Adds a final chunk with the token usage
+          stream_options: { include_usage: true },
+        },
+        { signal },
+      );
+
+      for await (const chunk of stream) {
+        const text = chunk.choices[0]?.delta?.content;
+        if (text) yield text;
+        if (chunk.usage) {
+          onUsage?.({
+            promptTokens: chunk.usage.prompt_tokens,
+            completionTokens: chunk.usage.completion_tokens,
+            totalTokens: chunk.usage.total_tokens,
+          });
+        }
+      }
+    },
+  };
+};
@@ -0,0 +1,70 @@
+// server/llm/structured.test.ts
+import { z } from "zod";
+import { describe, expect, it } from "vitest";
+import { completeStructured, extractJson } from "./structured";
+import type { CompletionRequest, LLMProvider } from "./types";
+
+// Answers with the given texts in turn and records every request
+const scriptedProvider = (answers: string[]) => {
+  const requests: CompletionRequest[] = [];
+  const llm: LLMProvider = {
+    name: "scripted",
+    model: "scripted",
+    async complete(request) {
+      requests.push(request);
+      return { text: answers[requests.length - 1] ?? "" };
+    },
+    async *stream() {},
+  };
+  return { llm, requests };
+};
+
+const schema = z.object({ skills: z.array(z.string()) });
+const request: CompletionRequest = { task: "test", messages: [{ role: "user", content: "List the skills" }] };
+
+describe("extractJson", () => {
+  it("cuts the JSON out of prose and code fences and drops trailing commas", () => {
+    expect(extractJson('Sure!\n```json\n{ "skills": ["React",], }\n```')).toEqual({ skills: ["React"] });
+    expect(extractJson('Here: ["a", "b"] done')).toEqual(["a", "b"]);
+  });
+
+  it("throws when there is no JSON", () => {
+    expect(() => extractJson("no json here")).toThrow("Response did not contain JSON");
+  });
+});
+
+describe("completeStructured", () => {
+  it("returns the first valid answer in JSON mode", async () => {
+    const { llm, requests } = scriptedProvider(['{ "skills": ["React"] }']);
+
+    expect(await completeStructured(llm, request, schema)).toEqual({ skills: ["React"] });
+    expect(requests).toHaveLength(1);
+    expect(requests[0].json).toBe(true);
+  });
+
+  it("shows the model its invalid answer and the errors, then accepts the repair", async () => {
+    const { llm, requests } = scriptedProvider(['{ "skills": "React" }', '{ "skills": ["React"] }']);
+
+    expect(await completeStructured(llm, request, schema)).toEqual({ skills: ["React"] });
+    const [, assistant, feedback] = requests[1].messages;
+    expect(assistant).toEqual({ role: "assistant", content: '{ "skills": "React" }' });
+    expect(feedback.content).toContain("skills: Expected array, received string");
+  });
+
+  it("wraps a bare list when asked to", async () => {
+    const { llm } = scriptedProvider(['["React", "SQL"]']);
+
+    expect(await completeStructured(llm, request, schema, { wrapArrayAs: "skills" })).toEqual({
+      skills: ["React", "SQL"],
+    });
+  });
+
+  it("gives up after the retries", async () => {
+    const { llm, requests } = scriptedProvider(["nope", "still nope", "nope again"]);
+
+    await expect(completeStructured(llm, request, schema, { retries: 2 })).rejects.toThrow(
+      "scripted returned invalid structured output: Response did not contain JSON",
+    );
+    expect(requests).toHaveLength(3);
+  });
+});
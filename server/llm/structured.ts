@@ -0,0 +1,77 @@
+// server/llm/structured.ts
+import type { z, ZodTypeAny } from "zod";
+import { logger } from "../logger";
+import type { CompletionRequest, LLMProvider } from "./types";
+
+// Cuts the outermost JSON object or array out of a model answer (prose, code fences)
+// and removes trailing commas, the most common syntax slip.
+export const extractJson = (text: string): unknown => {
+  const objectStart = text.indexOf("{");
+  const arrayStart = text.indexOf("[");
+  const useArray = arrayStart !== -1 && (objectStart === -1 || arrayStart < objectStart);
+  const start = useArray ? arrayStart : objectStart;
+  const end = text.lastIndexOf(useArray ? "]" : "}");
+  if (start === -1 || end <= start) {
+    throw new Error("Response did not contain JSON");
+  }
+  return JSON.parse(text.slice(start, end + 1).replace(/,\s*([}\]])/g, "$1"));
+};
+
+const validate = <S extends ZodTypeAny>(
+  text: string,
+  schema: S,
+  wrapArrayAs?: string,
+): { data?: z.infer<S>; error?: string } => {
+  let json: unknown;
+  try {
+    json = extractJson(text);
+  } catch (err: unknown) {
+    return { error: err instanceof Error ? err.message : "Invalid JSON" };
+  }
+
+  // Some models answer with the bare list instead of the wrapping object
+  if (wrapArrayAs && Array.isArray(json)) {
+    json = { [wrapArrayAs]: json };
+  }
+
+  const result = schema.safeParse(json);
+  if (result.success) return { data: result.data };
+  return {
+    error: result.error.issues
+      .map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+      .join("; "),
+  };
+};
+
+/**
+ * Runs a JSON-mode completion and validates it against a zod schema. When the answer does not
+ * parse or validate, the model is shown its answer plus the validation errors and asked to fix it.
+ */
+export const completeStructured = async <S extends ZodTypeAny>(
+  llm: LLMProvider,
+  request: CompletionRequest,
+  schema: S,
+  { retries = 2, wrapArrayAs }: { retries?: number; wrapArrayAs?: string } = {},
+): Promise<z.infer<S>> => {
+  let messages = request.messages;
+  let lastError = "";
+
+  for (let attempt = 0; attempt <= retries; attempt++) {
+    const { text } = await llm.complete({ ...request, messages, json: true });
+    const { data, error } = validate(text, schema, wrapArrayAs);
+    if (data !== undefined) return data;
+
+    lastError = error || "Invalid response";
+    logger.warn("llm: invalid structured output", { task: request.task, attempt: attempt + 1, error: lastError });
+    messages = [
+      ...request.messages,
+      { role: "assistant", content: text },
+      {
+        role: "user",
+        content: `Your previous answer was not valid: ${lastError}\nReturn ONLY the corrected JSON object, with no other text.`,
+      },
+    ];
+  }
+
+  throw new Error(`${llm.name} returned invalid structured output: ${lastError}`);
+};
@@ -0,0 +1,38 @@
+// server/llm/types.ts
+export type ChatMessage = {
+  role: "system" | "user" | "assistant";
+  content: string;
+};
+
+export type CompletionRequest = {
+  // Analyzer step that issued the call (e.g. "feedback", "coverLetter"); the mock provider picks its fixture by it
+  task: string;
+  messages: ChatMessage[];
+  temperature?: number;
+  // Overrides the provider's default model for this call (set per prompt template)
+  model?: string;
+  // Ask the model to answer with a single JSON object
+  json?: boolean;
+  signal?: AbortSignal;
+  // Streaming calls report token usage here once the stream has finished
+  onUsage?: (usage: TokenUsage) => void;
+};
+
+export type TokenUsage = {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+};
+
+export type CompletionResult = {
+  text: string;
+  usage?: TokenUsage;
+};
+
+export interface LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+  // Yields text chunks as they are generated
+  stream(request: CompletionRequest): AsyncIterable<string>;
+}
@@ -0,0 +1,119 @@
+// server/logger.ts
+import { randomUUID } from "crypto";
+import express from "express";
+
+type Level = "debug" | "info" | "warn" | "error";
+
+const LEVELS: Record<Level, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+type Fields = Record<string, unknown>;
+
+export type Logger = {
+  debug(msg: string, fields?: Fields): void;
+  info(msg: string, fields?: Fields): void;
+  warn(msg: string, fields?: Fields): void;
+  error(msg: string, fields?: Fields): void;
+  // Logger that adds `fields` to every line (e.g. { component: "cache" } or { requestId })
+  child(fields: Fields): Logger;
+};
+
+// Fields that can hold resume content or credentials; only their size is logged
+const REDACTED_KEYS = new Set([
+  "resumeText",
+  "jobDescription",
+  "customizedResume",
+  "coverLetter",
+  "password",
+  "passwordHash",
+  "email",
+  "body",
+]);
+
+const serializeError = (err: Error) => ({
+  name: err.name,
+  message: err.message,
+  ...(err.stack ? { stack: err.stack } : {}),
+});
+
+// Replaces sensitive values with a placeholder and turns errors into plain objects
+export const redact = (value: unknown, depth = 0): unknown => {
+  if (value instanceof Error) return serializeError(value);
+  if (depth > 5 || value === null || typeof value !== "object") return value;
+  if (Array.isArray(value)) return value.map((item) => redact(item, depth + 1));
+
+  const out: Fields = {};
+  for (const [key, item] of Object.entries(value as Fields)) {
+    if (REDACTED_KEYS.has(key) && item !== undefined && item !== null) {
+      out[key] = typeof item === "string" ? `[redacted ${item.length} chars]` : "[redacted]";
+    } else {
+      out[key] = redact(item, depth + 1);
+    }
+  }
+  return out;
+};
+
+/**
+ * JSON-lines logger: one object per line with `time`, `level`, `msg` and any extra fields,
+ * written to stdout (stderr for warnings and errors). Fields go through `redact`.
+ */
+export const createLogger = ({ level = "info", base = {} }: { level?: string; base?: Fields } = {}): Logger => {
+  const threshold = LEVELS[level as Level] ?? LEVELS.info;
+
+  const write = (lineLevel: Level, msg: string, fields?: Fields) => {
+    if (LEVELS[lineLevel] < threshold) return;
+    const line = JSON.stringify({
+      time: new Date().toISOString(),
+      level: lineLevel,
+      msg,
+      ...(redact({ ...base, ...fields }) as Fields),
+    });
+    if (LEVELS[lineLevel] >= LEVELS.warn) process.stderr.write(`${line}\n`);
+    else process.stdout.write(`${line}\n`);
+  };
+
+  return {
+    debug: (msg, fields) => write("debug", msg, fields),
+    info: (msg, fields) => write("info", msg, fields),
+    warn: (msg, fields) => write("warn", msg, fields),
+    error: (msg, fields) => write("error", msg, fields),
+    child: (fields) => createLogger({ level, base: { ...base, ...fields } }),
+  };
+};
+
+// Server-wide logger; LOG_LEVEL=debug|info|warn|error
+export const logger = createLogger({ level: process.env.LOG_LEVEL || "info" });
+
+// Accept a caller's id when it looks like one, so a request can be traced across services
+const REQUEST_ID = /^[A-Za-z0-9._:-]{1,128}$/;
+
+/**
+ * Gives every request a correlation id (from `X-Request-Id` or a new UUID), echoes it in the
+ * response header and logs one line per request when the response finishes.
+ */
+export const requestLogging = (): express.RequestHandler => (req, res, next) => {
+  const incoming = req.header("x-request-id");
+  const requestId = incoming && REQUEST_ID.test(incoming) ? incoming : randomUUID();
+  const started = process.hrtime.bigint();
+
+  res.locals.requestId = requestId;
+  res.locals.log = logger.child({ requestId });
+  res.setHeader("X-Request-Id", requestId);
+
+  res.on("finish", () => {
+    const durationMs = Number(process.hrtime.bigint() - started) / 1e6;
+    const fields = {
+      method: req.method,
+      path: req.originalUrl.split("?")[0],
+      status: res.statusCode,
+      durationMs: Math.round(durationMs * 10) / 10,
+    };
+    const log = requestLog(res);
+    if (res.statusCode >= 500) log.error("request failed", fields);
+    else log.info("request completed", fields);
+  });
+
+  next();
+};
+
+// The logger for the current request (tagged with its request id)
+export const requestLog = (res: express.Response): Logger => (res.locals.log as Logger | undefined) ?? logger;
@@ -0,0 +1,150 @@
+// server/metrics.ts
+import express from "express";
+import type { LLMProvider } from "./llm";
+
+type Labels = Record<string, string>;
+
+// Latency buckets in seconds; LLM calls take far longer than plain requests
+const HTTP_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+const LLM_BUCKETS = [0.25, 0.5, 1, 2.5, 5, 10, 20, 30, 60, 120];
+
+const labelKey = (labels: Labels) => JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+
+const formatLabels = (labels: Labels) => {
+  const entries = Object.entries(labels);
+  if (!entries.length) return "";
+  const escape = (value: string) => value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+  return `{${entries.map(([name, value]) => `${name}="${escape(value)}"`).join(",")}}`;
+};
+
+const createCounter = (name: string, help: string) => {
+  const series = new Map<string, { labels: Labels; value: number }>();
+  return {
+    inc(labels: Labels, by = 1) {
+      const key = labelKey(labels);
+      const entry = series.get(key) ?? { labels, value: 0 };
+      entry.value += by;
+      series.set(key, entry);
+    },
+    render() {
+      const lines = [`# HELP ${name} ${help}`, `# TYPE ${name} counter`];
+      for (const { labels, value } of series.values()) lines.push(`${name}${formatLabels(labels)} ${value}`);
+      return lines.join("\n");
+    },
+  };
+};
+
+const createHistogram = (name: string, help: string, buckets: number[]) => {
+  const series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+  return {
+    observe(labels: Labels, seconds: number) {
+      const key = labelKey(labels);
+      const entry = series.get(key) ?? { labels, counts: buckets.map(() => 0), sum: 0, count: 0 };
+      buckets.forEach((bound, i) => {
+        if (seconds <= bound) entry.counts[i]++;
+      });
+      entry.sum += seconds;
+      entry.count++;
+      series.set(key, entry);
+    },
+    render() {
+      const lines = [`# HELP ${name} ${help}`, `# TYPE ${name} histogram`];
+      for (const { labels, counts, sum, count } of series.values()) {
+        buckets.forEach((bound, i) => {
+          lines.push(`${name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${counts[i]}`);
+        });
+        lines.push(`${name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}`);
+        lines.push(`${name}_sum${formatLabels(labels)} ${sum}`);
+        lines.push(`${name}_count${formatLabels(labels)} ${count}`);
+      }
+      return lines.join("\n");
+    },
+  };
+};
+
+const secondsSince = (started: bigint) => Number(process.hrtime.bigint() - started) / 1e9;
+
+/**
+ * In-process metrics in the Prometheus text format: HTTP request counts and latencies per route,
+ * LLM call counts, durations and failures per step, and analysis cache hits. Values reset on restart.
+ */
+export const createMetrics = () => {
+  const httpRequests = createCounter("http_requests_total", "HTTP requests by method, route and status");
+  const httpDuration = createHistogram(
+    "http_request_duration_seconds",
+    "HTTP request latency by method and route",
+    HTTP_BUCKETS,
+  );
+  const llmCalls = createCounter("llm_calls_total", "LLM calls by step, provider and outcome (ok, error, cancelled)");
+  const llmDuration = createHistogram("llm_call_duration_seconds", "LLM call duration by step and provider", LLM_BUCKETS);
+  const cacheLookups = createCounter("analysis_cache_lookups_total", "Analysis cache lookups by step and result");
+
+  // Records every request once it finishes, labelled with the matched route pattern (not the raw URL).
+  // Requests answered by a mounted middleware (e.g. the rate limit) are labelled with its mount path.
+  const middleware: express.RequestHandler = (req, res, next) => {
+    const started = process.hrtime.bigint();
+    res.on("finish", () => {
+      const route = req.route?.path
+        ? `${req.baseUrl}${req.route.path}`
+        : req.baseUrl
+          ? `${req.baseUrl}/*`
+          : "unmatched";
+      httpRequests.inc({ method: req.method, route, status: String(res.statusCode) });
+      httpDuration.observe({ method: req.method, route }, secondsSince(started));
+    });
+    next();
+  };
+
+  const recordLlmCall = (task: string, provider: string, started: bigint, outcome: "ok" | "error" | "cancelled") => {
+    llmCalls.inc({ task, provider, outcome });
+    llmDuration.observe({ task, provider }, secondsSince(started));
+  };
+
+  // Wraps a provider so every completion, streamed or not, is counted and timed per step
+  const instrumentProvider = (llm: LLMProvider): LLMProvider => ({
+    name: llm.name,
+    model: llm.model,
+
+    async complete(request) {
+      const started = process.hrtime.bigint();
+      try {
+        const result = await llm.complete(request);
+        recordLlmCall(request.task, llm.name, started, "ok");
+        return result;
+      } catch (err) {
+        recordLlmCall(request.task, llm.name, started, request.signal?.aborted ? "cancelled" : "error");
+        throw err;
+      }
+    },
+
+    async *stream(request) {
+      const started = process.hrtime.bigint();
+      let finished = false;
+      try {
+        yield* llm.stream(request);
+        finished = true;
+        recordLlmCall(request.task, llm.name, started, "ok");
+      } catch (err) {
+        finished = true;
+        recordLlmCall(request.task, llm.name, started, request.signal?.aborted ? "cancelled" : "error");
+        throw err;
+      } finally {
+        // The consumer stopped iterating early (e.g. the client disconnected)
+        if (!finished) recordLlmCall(request.task, llm.name, started, "cancelled");
+      }
+    },
+  });
+
+  return {
+    middleware,
+    instrumentProvider,
+
+    cacheLookup(task: string, hit: boolean) {
+      cacheLookups.inc({ task, result: hit ? "hit" : "miss" });
+    },
+
+    render() {
+      return `${[httpRequests, httpDuration, llmCalls, llmDuration, cacheLookups].map((m) => m.render()).join("\n")}\n`;
+    },
+  };
+};
@@ -0,0 +1,105 @@
+// server/openapi.ts
+import { extendZodWithOpenApi, OpenApiGeneratorV3, OpenAPIRegistry } from "@asteasolutions/zod-to-openapi";
+import { z, type ZodTypeAny } from "zod";
+import { API_ROUTES, type RouteDefinition } from "../shared/routes";
+import {
+  analysisJobSchema,
+  analysisSchema,
+  apiErrorResponseSchema,
+  fabricationFlagSchema,
+  jobApplicationSchema,
+  keywordMatchSchema,
+  resumeChangeSchema,
+  resumeProfileSchema,
+  resumeVersionSchema,
+  usageSummarySchema,
+  userSchema,
+} from "../shared/schemas";
+
+extendZodWithOpenApi(z);
+
+const pathParams = (path: string) =>
+  [...path.matchAll(/\{(\w+)\}/g)].map(([, name]) => name);
+
+/**
+ * Builds the OpenAPI 3.0 document served at /api/openapi.json from the shared route table,
+ * so the published contract is the one the server validates against and the frontend client parses with.
+ */
+export const createOpenApiDocument = () => {
+  const registry = new OpenAPIRegistry();
+
+  // Named components; the route table refers to the same schema instances, which are swapped for the
+  // registered copies so the document uses $refs instead of repeating them inline
+  const components = new Map<ZodTypeAny, ZodTypeAny>();
+  const component = (name: string, schema: ZodTypeAny) => {
+    components.set(schema, registry.register(name, schema));
+  };
+  component("ErrorResponse", apiErrorResponseSchema);
+  component("ResumeChange", resumeChangeSchema);
+  component("ResumeProfile", resumeProfileSchema);
+  component("ResumeAnalysis", analysisSchema);
+  component("AnalysisJob", analysisJobSchema);
+  component("KeywordMatch", keywordMatchSchema);
+  component("FabricationFlag", fabricationFlagSchema);
+  component("JobApplication", jobApplicationSchema);
+  component("ResumeVersion", resumeVersionSchema);
+  component("UsageSummary", usageSummarySchema);
+  component("User", userSchema);
+  const named = (schema: ZodTypeAny) => components.get(schema) ?? schema;
+
+  const json = (schema: ZodTypeAny) => ({ "application/json": { schema: named(schema) } });
+
+  for (const [name, route] of Object.entries(API_ROUTES) as [string, RouteDefinition][]) {
+    const params = pathParams(route.path);
+    registry.registerPath({
+      operationId: name,
+      method: route.method,
+      path: route.path,
+      summary: route.summary,
+      description: route.description,
+      tags: [route.tag],
+      request: {
+        params: params.length
+          ? z.object(Object.fromEntries(params.map((param) => [param, z.string()])))
+          : undefined,
+        query: route.query,
+        body: route.upload
+          ? {
+              required: true,
+              content: Object.fromEntries(
+                route.upload.map((type) => [type, { schema: { type: "string", format: "binary" } }]),
+              ),
+            }
+          : route.body
+            ? { required: true, content: json(route.body) }
+            : undefined,
+      },
+      responses: {
+        [route.status]: {
+          description: route.stream ? "Event stream" : route.response ? "Success" : "No content",
+          content: route.stream
+            ? { "text/event-stream": { schema: { type: "string" } } }
+            : route.response
+              ? json(route.response)
+              : undefined,
+        },
+        ...Object.fromEntries(
+          (route.alternatives ?? []).map(({ status, description, response }) => [
+            status,
+            { description, content: json(response) },
+          ]),
+        ),
+        default: { description: "Error", content: json(apiErrorResponseSchema) },
+      },
+    });
+  }
+
+  return new OpenApiGeneratorV3(registry.definitions).generateDocument({
+    openapi: "3.0.3",
+    info: {
+      title: "SmartApply AI API",
+      version: "1.0.0",
+      description: "Errors use the envelope in ErrorResponse; `error.code` is one of a fixed set of codes.",
+    },
+  });
+};
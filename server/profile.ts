@@ -0,0 +1,297 @@
+// server/profile.ts
+import type { ResumeProfile, SectionKind } from "../shared/api";
+import { detectSections, normalizeText } from "./documents/text";
+
+type Experience = ResumeProfile["experience"][number];
+type Education = ResumeProfile["education"][number];
+type Project = ResumeProfile["projects"][number];
+type Certification = ResumeProfile["certifications"][number];
+
+// Header lines of an entry (employer, title, dates) and the bullets or sentences under them
+type Block = { header: string[]; body: string[] };
+
+const MONTH = String.raw`(?:jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*\.?`;
+const DATE = String.raw`(?:${MONTH}\s+\d{4}|\d{1,2}/\d{4}|(?:19|20)\d{2})`;
+const DATE_RANGE = new RegExp(
+  String.raw`(${DATE})\s*(?:-|\u2013|\u2014|to)\s*(${DATE}|present|current|now|today)\b`,
+  "i",
+);
+const SINGLE_DATE = new RegExp(String.raw`\b${DATE}\b`, "i");
+
+const BULLET = /^(?:[\u2022*\u2013-]|\d{1,2}[.)])\s+/;
+const EMAIL = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/;
+// At least nine digits, so a date range is never taken for a phone number
+const PHONE = /\+?\(?\d[\d\s().-]{7,}\d/;
+const LINK = /\b(?:https?:\/\/)?(?:www\.)?[\w-]+(?:\.[\w-]+)*\.(?:com|dev|io|me|net|org|app|co|ai|xyz)(?:\/[^\s|,]*)?/gi;
+const LOCATION = /^(?:[A-Z][A-Za-z.' -]+,\s*(?:[A-Z]{2}|[A-Z][A-Za-z ]+)|remote|hybrid)$/i;
+
+const TITLE =
+  /\b(?:engineer|developer|programmer|manager|designer|analyst|intern|lead|director|consultant|specialist|scientist|architect|coordinator|assistant|officer|administrator|head|vp|president|founder|owner|associate|technician|teacher|researcher|editor|writer|accountant|nurse|advisor|representative|executive|supervisor|strategist|recruiter)\b/i;
+const DEGREE =
+  /\b(?:bachelor|master|doctor(?:ate)?|ph\.?\s?d|mba|associate|diploma|b\.?\s?sc?|m\.?\s?sc?|b\.?\s?a|m\.?\s?a|b\.?\s?eng|m\.?\s?eng|b\.?\s?tech|m\.?\s?tech)\b/i;
+const INSTITUTION = /\b(?:university|college|institute|school|academy|polytechnic)\b/i;
+
+// Separators between the parts of a header line, e.g. "Senior Engineer | Acme Corp | Berlin, Germany"
+const SEPARATOR = /\s+(?:\||\u2022|\u2013|\u2014|-|@|at)\s+/i;
+
+const isBullet = (line: string) => BULLET.test(line);
+const stripBullet = (line: string) => line.replace(BULLET, "");
+
+// Prose rather than a header line: long, or a full sentence
+const isSentence = (line: string) => line.length > 90 || (/[.;]$/.test(line) && line.split(" ").length > 6);
+
+// A long line of contact details ("City | email | phone | links") is not prose
+const isContactLine = (line: string) => EMAIL.test(line) || line.includes("|");
+
+const hasDateRange = (line: string) => DATE_RANGE.test(line);
+
+const splitBlocks = (lines: string[]): Block[] => {
+  const blocks: Block[] = [];
+  let block: Block | undefined;
+  for (const line of lines) {
+    if (isBullet(line)) {
+      if (!block) blocks.push((block = { header: [], body: [] }));
+      block.body.push(stripBullet(line));
+    } else if (block?.body.length && /^[a-z]/.test(line)) {
+      // A bullet wrapped onto the next line
+      block.body[block.body.length - 1] += ` ${line}`;
+    } else if (block && isSentence(line)) {
+      block.body.push(line);
+    } else if (!block || block.body.length || (hasDateRange(line) && block.header.some(hasDateRange))) {
+      blocks.push((block = { header: [line], body: [] }));
+    } else {
+      block.header.push(line);
+    }
+  }
+  return blocks;
+};
+
+// Takes the date range out of the header lines and splits what is left into its parts
+const headerParts = (header: string[]) => {
+  let startDate = "";
+  let endDate = "";
+  const parts: string[] = [];
+  for (const line of header) {
+    let rest = line;
+    const range = DATE_RANGE.exec(line);
+    if (range && !startDate) {
+      [, startDate, endDate] = range;
+      rest = line.replace(range[0], " ");
+    }
+    for (const part of rest.split(SEPARATOR)) {
+      const cleaned = part.replace(/^[\s|,()\u2013\u2014-]+|[\s|,()\u2013\u2014-]+$/g, "");
+      if (cleaned) parts.push(cleaned);
+    }
+  }
+  return { startDate, endDate: endDate.replace(/^(?:current|now|today)$/i, "Present"), parts };
+};
+
+// "Software Engineer, Initech": a title and an employer written with a comma
+const splitTitleComma = (part: string) => {
+  const comma = part.indexOf(", ");
+  return comma > 0 && TITLE.test(part.slice(0, comma)) ? [part.slice(0, comma), part.slice(comma + 2)] : [part];
+};
+
+const toExperience = ({ header, body }: Block): Experience => {
+  const { startDate, endDate, parts } = headerParts(header);
+  let location = "";
+  const rest: string[] = [];
+  for (const part of parts.flatMap(splitTitleComma)) {
+    if (!location && !TITLE.test(part) && LOCATION.test(part)) location = part;
+    else rest.push(part);
+  }
+  // Without a recognizable job title, a lone part is the employer and otherwise the title comes first
+  const titleIndex = rest.findIndex((part) => TITLE.test(part));
+  const title = titleIndex >= 0 ? rest[titleIndex] : rest.length > 1 ? rest[0] : "";
+  const employer = rest.find((part) => part !== title) ?? "";
+  return { employer, title, location, startDate, endDate, bullets: body };
+};
+
+const toEducation = ({ header, body }: Block): Education => {
+  const { startDate, endDate, parts } = headerParts(header);
+  let institution = "";
+  let degree = "";
+  let field = "";
+  let graduated = "";
+  const details: string[] = [];
+  // "MSc Computer Science, Stanford University" names both on one line; "University of California, Berkeley" does not
+  const pieces = parts.flatMap((part) => {
+    const split = part.split(/,\s+/);
+    return INSTITUTION.test(part) && split.some((piece) => DEGREE.test(piece) && !INSTITUTION.test(piece)) ? split : [part];
+  });
+  for (const raw of pieces) {
+    // A graduation year written after the degree or school, e.g. "BSc in Computer Science, 2016"
+    const year = !startDate && !graduated ? raw.match(SINGLE_DATE)?.[0] : undefined;
+    if (year) graduated = year;
+    const part = year ? raw.replace(year, "").replace(/^[\s,()]+|[\s,()]+$/g, "") : raw;
+    if (!part) continue;
+    if (!institution && INSTITUTION.test(part)) {
+      institution = part;
+    } else if (!degree && DEGREE.test(part)) {
+      // "BSc in Computer Science", "Bachelor of Science in Physics"
+      const inField = /^(.+?)\s+in\s+(.+)$/i.exec(part);
+      degree = inField ? inField[1] : part;
+      field = inField ? inField[2] : "";
+    } else if (!LOCATION.test(part)) {
+      details.push(part);
+    }
+  }
+  if (!institution && details.length) institution = details.shift()!;
+  return {
+    institution,
+    degree,
+    field,
+    startDate,
+    endDate: endDate || graduated,
+    details: [...details, ...body],
+  };
+};
+
+const toProject = ({ header, body }: Block): Project => {
+  const text = header.join(" | ");
+  const link = text.match(LINK)?.[0] ?? "";
+  const { parts } = headerParts([text.replace(link, " ")]);
+  // "Name: description" on a single line
+  const [name = "", ...description] = parts.flatMap((part, i) => (i === 0 ? part.split(/:\s+/) : [part]));
+  return { name, description: description.join(" "), link, bullets: body };
+};
+
+const toCertification = (line: string): Certification => {
+  const date = line.match(SINGLE_DATE)?.[0] ?? "";
+  const [name = "", issuer = ""] = line
+    .replace(date, " ")
+    .replace(/\bissued by\b/i, "|")
+    .split(/\s+(?:\||\u2013|\u2014|-)\s+|,\s+|\s*\|\s*/)
+    .map((part) => part.replace(/^[\s(),]+|[\s(),]+$/g, ""))
+    .filter(Boolean);
+  return { name, issuer, date };
+};
+
+const toSkills = (lines: string[]) => {
+  const skills = new Map<string, string>();
+  for (const line of lines) {
+    // "Languages: TypeScript, Go" keeps only the list
+    const list = stripBullet(line).replace(/^[^:]{1,40}:\s*/, "");
+    for (const skill of list.split(/\s*[,;|\u2022]\s*|\s+\/\s+/)) {
+      const trimmed = skill.replace(/\.$/, "").trim();
+      if (trimmed && trimmed.length <= 50 && !skills.has(trimmed.toLowerCase())) {
+        skills.set(trimmed.toLowerCase(), trimmed);
+      }
+    }
+  }
+  return [...skills.values()];
+};
+
+const toContact = (lines: string[]): ResumeProfile["contact"] => {
+  const contact = { name: "", email: "", phone: "", location: "", links: [] as string[] };
+  for (const line of lines) {
+    const email = line.match(EMAIL)?.[0];
+    if (email && !contact.email) contact.email = email;
+    const withoutEmail = line.replace(EMAIL, " ");
+    const phone = withoutEmail.match(PHONE)?.[0];
+    if (phone && !contact.phone && phone.replace(/\D/g, "").length >= 9) contact.phone = phone.trim();
+    for (const link of withoutEmail.match(LINK) ?? []) {
+      if (!contact.links.includes(link)) contact.links.push(link);
+    }
+    for (const part of line.split(/\s*[|\u2022\u00b7]\s*/)) {
+      if (!contact.location && LOCATION.test(part.trim()) && !TITLE.test(part)) contact.location = part.trim();
+    }
+    // The name is the first short line that is not contact details
+    if (
+      !contact.name &&
+      !email &&
+      !phone &&
+      !/\d|https?:|www\./.test(line) &&
+      line.split(" ").length <= 5 &&
+      !LOCATION.test(line)
+    ) {
+      contact.name = line;
+    }
+  }
+  return contact;
+};
+
+/**
+ * Rule-based parser: splits the text into its headed sections and reads each entry from its header lines
+ * (employer, title, dates) and the bullets under them. Free and instant, but it only knows common layouts,
+ * so the result is meant to be reviewed in the profile editor.
+ */
+export const parseProfileDeterministically = (resumeText: string): ResumeProfile => {
+  const text = normalizeText(resumeText);
+  const sections = detectSections(text);
+
+  const linesOf = (kind: SectionKind) =>
+    sections
+      .filter((section) => section.kind === kind)
+      .flatMap((section) => text.slice(section.start, section.end).split("\n").slice(1))
+      .map((line) => line.trim())
+      .filter(Boolean);
+
+  // Before the first heading: name, contact line and often an untitled summary
+  const intro = text
+    .slice(0, sections[0]?.start ?? Math.min(text.length, 500))
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+  const isIntroSummary = (line: string) => isSentence(line) && !isContactLine(line);
+
+  return {
+    contact: toContact([...intro.filter((line) => !isIntroSummary(line)), ...linesOf("contact")]),
+    summary: (linesOf("summary").length ? linesOf("summary") : intro.filter(isIntroSummary)).map(stripBullet).join(" "),
+    experience: splitBlocks(linesOf("experience")).map(toExperience),
+    education: splitBlocks(linesOf("education")).map(toEducation),
+    skills: toSkills(linesOf("skills")),
+    projects: splitBlocks(linesOf("projects")).map(toProject),
+    certifications: linesOf("certifications").map((line) => toCertification(stripBullet(line))),
+  };
+};
+
+const joined = (parts: (string | undefined)[], separator = ", ") => parts.filter(Boolean).join(separator);
+
+const dates = (start?: string, end?: string) => joined([start, end], " \u2013 ");
+
+/** Renders a profile as plain text for the prompts, one labelled line per fact and bullets indented under their entry. */
+export const formatProfile = (profile: ResumeProfile): string => {
+  const lines: string[] = [];
+  const { contact = {}, summary, experience = [], education = [], skills = [], projects = [], certifications = [] } = profile;
+
+  const contactLine = joined([contact.email, contact.phone, contact.location, ...(contact.links ?? [])], " | ");
+  if (contact.name) lines.push(`Name: ${contact.name}`);
+  if (contactLine) lines.push(`Contact: ${contactLine}`);
+  if (summary) lines.push(`Summary: ${summary}`);
+
+  if (experience.length) {
+    lines.push("Experience:");
+    for (const entry of experience) {
+      lines.push(`- ${joined([entry.title, entry.employer, entry.location, dates(entry.startDate, entry.endDate)])}`);
+      lines.push(...(entry.bullets ?? []).map((bullet) => `  \u2022 ${bullet}`));
+    }
+  }
+
+  if (education.length) {
+    lines.push("Education:");
+    for (const entry of education) {
+      const degree = joined([entry.degree, entry.field], " in ");
+      lines.push(`- ${joined([degree, entry.institution, dates(entry.startDate, entry.endDate)])}`);
+      lines.push(...(entry.details ?? []).map((detail) => `  \u2022 ${detail}`));
+    }
+  }
+
+  if (skills.length) lines.push(`Skills: ${skills.join(", ")}`);
+
+  if (projects.length) {
+    lines.push("Projects:");
+    for (const project of projects) {
+      const name = joined([project.name, project.link && `(${project.link})`], " ");
+      lines.push(`- ${joined([name, project.description], ": ")}`);
+      lines.push(...(project.bullets ?? []).map((bullet) => `  \u2022 ${bullet}`));
+    }
+  }
+
+  if (certifications.length) {
+    lines.push("Certifications:");
+    lines.push(...certifications.map((cert) => `- ${joined([cert.name, cert.issuer, cert.date])}`));
+  }
+
+  return lines.join("\n");
+};
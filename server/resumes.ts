@@ -0,0 +1,19 @@
+// server/resumes.ts
+import type { ResumeVersion } from "../shared/api";
+import { resumeVersionSchema } from "../shared/schemas";
+import { createUserCollection, createUserCollectionRoutes, type UserCollection } from "./userCollection";
+
+type ResumeStoreOptions = {
+  // NeDB datafile (append-only, compacted on startup)
+  filename: string;
+};
+
+// The resume library, one document per saved version, newest first
+export const createResumeStore = ({ filename }: ResumeStoreOptions) =>
+  createUserCollection<ResumeVersion>({ filename, newestFirst: "createdAt" });
+
+export type ResumeStore = UserCollection<ResumeVersion>;
+
+// CRUD for the signed-in user's resume library, mounted at /api/resumes
+export const createResumeRoutes = (store: ResumeStore) =>
+  createUserCollectionRoutes(store, { schema: resumeVersionSchema, noun: "Resume version", component: "resumes" });
@@ -0,0 +1,8 @@
+// server/schemas.ts
+import { z } from "zod";
+import { resumeChangeSchema } from "../shared/schemas";
+
+// What the "changes" prompt asks the model to return
+export const resumeChangesResponseSchema = z.object({
+  changes: z.array(resumeChangeSchema),
+});
@@ -0,0 +1,64 @@
+// server/templates.test.ts
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterAll, describe, expect, it } from "vitest";
+import { loadTemplates, templateVersion } from "./templates";
+
+const root = fs.mkdtempSync(path.join(os.tmpdir(), "templates-test-"));
+let dirs = 0;
+
+// A prompts directory holding the given files
+const promptsDir = (files: Record<string, string>) => {
+  const dir = path.join(root, String(dirs++));
+  fs.mkdirSync(dir);
+  for (const [name, source] of Object.entries(files)) fs.writeFileSync(path.join(dir, name), source);
+  return dir;
+};
+
+const greeting = ["---", "id: greeting", "version: 2", "json: true", "variables: name, role", "---", "Hello {{ name }}, {{role}}!"].join(
+  "\n",
+);
+
+afterAll(() => {
+  fs.rmSync(root, { recursive: true, force: true });
+});
+
+describe("loadTemplates", () => {
+  it("parses front matter and renders placeholders", () => {
+    const templates = loadTemplates(promptsDir({ "greeting.md": greeting, "notes.txt": "ignored" }), ["greeting"]);
+
+    expect(templates.get("greeting")).toMatchObject({ version: "2", temperature: 0.7, json: true, variables: ["name", "role"] });
+    expect(templateVersion(templates.get("greeting"))).toBe("greeting@2");
+    expect(templates.render("greeting", { name: "Jane", role: "engineer" })).toBe("Hello Jane, engineer!");
+    expect(() => templates.render("greeting", { name: "Jane" })).toThrow("greeting@2: missing values for role");
+  });
+
+  it("rejects missing and malformed templates at load time", () => {
+    const withHeader = (header: string, body = "Hello {{name}}") => `---\nid: greeting\n${header}\n---\n${body}`;
+
+    expect(() => loadTemplates(promptsDir({ "greeting.md": greeting }), ["greeting", "other"])).toThrow(
+      /Missing prompt templates in .*: other/,
+    );
+    expect(() => loadTemplates(promptsDir({ "greeting.md": "Hello" }), [])).toThrow("greeting.md: missing front matter block");
+    expect(() => loadTemplates(promptsDir({ "welcome.md": greeting }), [])).toThrow('id "greeting" does not match the file name');
+    expect(() => loadTemplates(promptsDir({ "greeting.md": withHeader("variables: name") }), [])).toThrow(
+      '"version" is required',
+    );
+    expect(() => loadTemplates(promptsDir({ "greeting.md": withHeader("version: 1\ntemperature: 3\nvariables: name") }), [])).toThrow(
+      "temperature must be a number between 0 and 2",
+    );
+    expect(() => loadTemplates(promptsDir({ "greeting.md": withHeader("version: 1") }), [])).toThrow(
+      'placeholders not listed in "variables": name',
+    );
+    expect(() => loadTemplates(promptsDir({ "greeting.md": withHeader("version: 1\nvariables: name, role") }), [])).toThrow(
+      "variables never used in the prompt: role",
+    );
+  });
+
+  it("loads the bundled prompts", () => {
+    const templates = loadTemplates(path.join(__dirname, "prompts"), []);
+
+    expect(templates.list().length).toBeGreaterThan(0);
+  });
+});
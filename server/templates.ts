@@ -0,0 +1,128 @@
+// server/templates.ts
+import fs from "fs";
+import path from "path";
+
+/**
+ * Prompt templates live in `server/prompts/<id>.md`: a front-matter block followed by the prompt.
+ *
+ *   ---
+ *   id: coverLetter
+ *   version: 3
+ *   temperature: 0.8
+ *   model: gpt-4o          (optional, overrides the provider's model)
+ *   json: true             (optional, request JSON mode)
+ *   variables: resumeText, jobDescription
+ *   ---
+ *   Write a cover letter for {{resumeText}} ...
+ *
+ * Bump `version` whenever the prompt text or settings change; the version is recorded with every
+ * result and is part of the analysis cache key.
+ */
+export type PromptTemplate = {
+  id: string;
+  version: string;
+  description?: string;
+  model?: string;
+  temperature: number;
+  json: boolean;
+  variables: string[];
+  body: string;
+};
+
+const PLACEHOLDER = /\{\{\s*([A-Za-z][A-Za-z0-9_]*)\s*\}\}/g;
+
+// `id@version`, the form recorded in responses and cache keys
+export const templateVersion = (template: PromptTemplate) => `${template.id}@${template.version}`;
+
+const parseTemplate = (file: string, source: string): PromptTemplate => {
+  const match = source.replace(/\r\n?/g, "\n").match(/^---\n([\s\S]*?)\n---\n([\s\S]*)$/);
+  if (!match) {
+    throw new Error(`${file}: missing front matter block`);
+  }
+
+  const meta: Record<string, string> = {};
+  for (const line of match[1].split("\n")) {
+    if (!line.trim() || line.trim().startsWith("#")) continue;
+    const colon = line.indexOf(":");
+    if (colon === -1) {
+      throw new Error(`${file}: invalid front matter line "${line}"`);
+    }
+    meta[line.slice(0, colon).trim()] = line.slice(colon + 1).trim();
+  }
+
+  const id = meta.id;
+  const version = meta.version;
+  const temperature = Number(meta.temperature ?? 0.7);
+  const variables = (meta.variables || "")
+    .split(",")
+    .map((name) => name.trim())
+    .filter(Boolean);
+  const body = match[2].trim();
+
+  if (!id) throw new Error(`${file}: "id" is required`);
+  if (path.basename(file, ".md") !== id) throw new Error(`${file}: id "${id}" does not match the file name`);
+  if (!version) throw new Error(`${file}: "version" is required`);
+  if (Number.isNaN(temperature) || temperature < 0 || temperature > 2) {
+    throw new Error(`${file}: temperature must be a number between 0 and 2`);
+  }
+  if (!body) throw new Error(`${file}: prompt body is empty`);
+
+  const used = new Set([...body.matchAll(PLACEHOLDER)].map((m) => m[1]));
+  const undeclared = [...used].filter((name) => !variables.includes(name));
+  if (undeclared.length) {
+    throw new Error(`${file}: placeholders not listed in "variables": ${undeclared.join(", ")}`);
+  }
+  const unused = variables.filter((name) => !used.has(name));
+  if (unused.length) {
+    throw new Error(`${file}: variables never used in the prompt: ${unused.join(", ")}`);
+  }
+
+  return {
+    id,
+    version,
+    description: meta.description,
+    model: meta.model || undefined,
+    temperature,
+    json: meta.json === "true",
+    variables,
+    body,
+  };
+};
+
+/**
+ * Loads and validates every template in `dir`. Throws at startup when a template is malformed
+ * or one of the `required` ids is missing, so a bad prompt never reaches a request.
+ */
+export const loadTemplates = <Id extends string>(dir: string, required: readonly Id[]) => {
+  const templates = new Map<string, PromptTemplate>();
+  for (const name of fs.readdirSync(dir)) {
+    if (!name.endsWith(".md")) continue;
+    const template = parseTemplate(name, fs.readFileSync(path.join(dir, name), "utf8"));
+    templates.set(template.id, template);
+  }
+
+  const missing = required.filter((id) => !templates.has(id));
+  if (missing.length) {
+    throw new Error(`Missing prompt templates in ${dir}: ${missing.join(", ")}`);
+  }
+
+  return {
+    get(id: Id): PromptTemplate {
+      return templates.get(id)!;
+    },
+
+    // Fills in the template's placeholders; every declared variable must be provided
+    render(id: Id, values: Record<string, string>): string {
+      const template = templates.get(id)!;
+      const missingValues = template.variables.filter((name) => values[name] === undefined);
+      if (missingValues.length) {
+        throw new Error(`${templateVersion(template)}: missing values for ${missingValues.join(", ")}`);
+      }
+      return template.body.replace(PLACEHOLDER, (_match, name: string) => values[name]);
+    },
+
+    list(): PromptTemplate[] {
+      return [...templates.values()];
+    },
+  };
+};
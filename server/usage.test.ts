@@ -0,0 +1,90 @@
+// server/usage.test.ts
+import express from "express";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import request from "supertest";
+import { afterAll, describe, expect, it } from "vitest";
+import { createAiRateLimit, createUsageLedger } from "./usage";
+
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "usage-test-"));
+
+const usage = (promptTokens: number, completionTokens: number) => ({
+  promptTokens,
+  completionTokens,
+  totalTokens: promptTokens + completionTokens,
+});
+
+afterAll(() => {
+  fs.rmSync(dataDir, { recursive: true, force: true });
+});
+
+describe("createUsageLedger", () => {
+  it("adds up calls, tokens and cost per subject", async () => {
+    const ledger = createUsageLedger({ filename: path.join(dataDir, "totals.db"), dailyTokens: 0, monthlyTokens: 0 });
+    await ledger.record("user:ann", "gpt-4o-mini-2024-07-18", usage(1_000_000, 0));
+    await ledger.record("user:ann", "gpt-4o-mini", usage(0, 1_000_000));
+    await ledger.record("ip:10.0.0.1", "gpt-4o-mini", usage(10, 10));
+
+    const { subject, day, month } = await ledger.summary("user:ann");
+    expect(subject).toBe("user");
+    expect(day).toMatchObject({ calls: 2, totalTokens: 2_000_000, limit: null, remaining: null });
+    // Dated snapshots use their family's price: $0.15 in, $0.60 out per million tokens
+    expect(day.costUsd).toBeCloseTo(0.75);
+    expect(month.totalTokens).toBe(2_000_000);
+    expect((await ledger.summary("ip:10.0.0.1")).subject).toBe("guest");
+  });
+
+  it("reports the period whose quota is used up", async () => {
+    const ledger = createUsageLedger({
+      filename: path.join(dataDir, "quota.db"),
+      dailyTokens: 100,
+      monthlyTokens: 1_000,
+      priceOverride: { input: 1, output: 1 },
+    });
+    await ledger.record("user:ann", "local-model", usage(40, 20));
+    expect(await ledger.exceeded("user:ann")).toBeUndefined();
+    expect((await ledger.summary("user:ann")).day.remaining).toBe(40);
+
+    await ledger.record("user:ann", "local-model", usage(40, 20));
+    const exceeded = await ledger.exceeded("user:ann");
+    expect(exceeded?.period).toBe("day");
+    expect(exceeded?.summary.day.remaining).toBe(0);
+    expect(exceeded?.summary.day.costUsd).toBeCloseTo(120 / 1_000_000);
+  });
+});
+
+describe("createAiRateLimit", () => {
+  const limitedApp = (perIp: number, perUser: number) => {
+    const app = express();
+    app.set("trust proxy", true);
+    app.use((req, res, next) => {
+      const userId = req.header("x-user");
+      if (userId) res.locals.user = { id: userId, email: `${userId}@example.com`, createdAt: "2024-01-01" };
+      next();
+    });
+    app.post("/ai", createAiRateLimit({ perIp, perUser }), (_req, res) => res.json({ ok: true }));
+    return app;
+  };
+
+  it("limits each IP per minute and says when to retry", async () => {
+    const app = limitedApp(2, 0);
+    const from = (ip: string) => request(app).post("/ai").set("X-Forwarded-For", ip);
+
+    await from("10.0.0.1").expect(200);
+    await from("10.0.0.1").expect(200);
+    const blocked = await from("10.0.0.1");
+    expect(blocked.status).toBe(429);
+    expect(blocked.body.error.code).toBe("RATE_LIMITED");
+    expect(Number(blocked.headers["retry-after"])).toBeGreaterThan(0);
+    await from("10.0.0.2").expect(200);
+  });
+
+  it("limits a signed-in user across IPs", async () => {
+    const app = limitedApp(0, 1);
+
+    await request(app).post("/ai").set("X-Forwarded-For", "10.0.0.1").set("x-user", "ann").expect(200);
+    await request(app).post("/ai").set("X-Forwarded-For", "10.0.0.2").set("x-user", "ann").expect(429);
+    await request(app).post("/ai").set("X-Forwarded-For", "10.0.0.2").set("x-user", "bob").expect(200);
+  });
+});
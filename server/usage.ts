@@ -0,0 +1,233 @@
+// server/usage.ts
+import Datastore from "@seald-io/nedb";
+import express from "express";
+import type { PeriodUsage, UsageSummary } from "../shared/api";
+import { currentUser } from "./auth";
+import { sendError } from "./errors";
+import { requestLog } from "./logger";
+import type { LLMProvider, TokenUsage } from "./llm";
+
+// --- Rate limiting ---
+
+type RateLimitOptions = {
+  windowMs: number;
+  // Requests allowed per key and window; 0 disables the limit
+  max: number;
+};
+
+// Fixed-window counter per key (an IP or a user id), kept in memory
+const createRateLimiter = ({ windowMs, max }: RateLimitOptions) => {
+  const windows = new Map<string, { startedAt: number; count: number }>();
+
+  return {
+    // Counts a request; returns 0 when it is allowed, otherwise the milliseconds until the window resets
+    hit(key: string): number {
+      if (max <= 0) return 0;
+      const now = Date.now();
+      if (windows.size > 10_000) {
+        for (const [k, w] of windows) if (now - w.startedAt >= windowMs) windows.delete(k);
+      }
+
+      let window = windows.get(key);
+      if (!window || now - window.startedAt >= windowMs) {
+        window = { startedAt: now, count: 0 };
+        windows.set(key, window);
+      }
+      window.count++;
+      return window.count <= max ? 0 : window.startedAt + windowMs - now;
+    },
+  };
+};
+
+/**
+ * Per-minute request limits for the AI routes: one budget per client IP and, for signed-in
+ * users, one per account (so a user cannot get around it by switching networks).
+ */
+export const createAiRateLimit = ({ perIp, perUser }: { perIp: number; perUser: number }): express.RequestHandler => {
+  const byIp = createRateLimiter({ windowMs: 60_000, max: perIp });
+  const byUser = createRateLimiter({ windowMs: 60_000, max: perUser });
+
+  return (req, res, next) => {
+    const user = currentUser(res);
+    const retryAfterMs = Math.max(byIp.hit(req.ip || "unknown"), user ? byUser.hit(user.id) : 0);
+    if (retryAfterMs > 0) {
+      const seconds = Math.max(1, Math.ceil(retryAfterMs / 1000));
+      requestLog(res).warn("rate-limit: request blocked", {
+        method: req.method,
+        path: req.originalUrl.split("?")[0],
+        retryAfterSeconds: seconds,
+      });
+      res.setHeader("Retry-After", String(seconds));
+      sendError(res, "RATE_LIMITED", `Too many AI requests. Please wait ${seconds} seconds and try again.`, {
+        retryAfterSeconds: seconds,
+      });
+      return;
+    }
+    next();
+  };
+};
+
+// --- Token and cost accounting ---
+
+// USD per million tokens. Models are matched by prefix so dated snapshots
+// (e.g. gpt-4o-mini-2024-07-18) use their family's price; unknown models cost 0.
+const MODEL_PRICES: Record<string, { input: number; output: number }> = {
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4.1-nano": { input: 0.1, output: 0.4 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-4.1": { input: 2, output: 8 },
+};
+
+export type Price = { input: number; output: number };
+
+const priceFor = (model: string, override?: Price): Price => {
+  if (override) return override;
+  const family = Object.keys(MODEL_PRICES)
+    .filter((name) => model === name || model.startsWith(`${name}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  return family ? MODEL_PRICES[family] : { input: 0, output: 0 };
+};
+
+const costOf = (model: string, usage: TokenUsage, override?: Price) => {
+  const price = priceFor(model, override);
+  return (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000;
+};
+
+type Period = "day" | "month";
+
+type UsageRecord = {
+  // "user:<id>" or "ip:<address>"
+  subject: string;
+  period: Period;
+  // "2025-11-07" for days, "2025-11" for months (UTC)
+  key: string;
+  // LLM calls (a full analysis makes several)
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+};
+
+type UsageLedgerOptions = {
+  filename: string;
+  // Token quotas per subject; 0 means unlimited
+  dailyTokens: number;
+  monthlyTokens: number;
+  priceOverride?: Price;
+};
+
+const periodKey = (period: Period, date = new Date()) =>
+  period === "day" ? date.toISOString().slice(0, 10) : date.toISOString().slice(0, 7);
+
+const periodEnd = (period: Period, date = new Date()) =>
+  period === "day"
+    ? new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1))
+    : new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1));
+
+// Whose budget a request spends: the signed-in user, otherwise the client IP
+export const usageSubject = (req: express.Request, res: express.Response) => {
+  const user = currentUser(res);
+  return user ? `user:${user.id}` : `ip:${req.ip || "unknown"}`;
+};
+
+/**
+ * Daily and monthly token totals per subject in an embedded NeDB datafile,
+ * so quotas survive restarts. Day records older than 60 days are dropped on startup.
+ */
+export const createUsageLedger = ({ filename, dailyTokens, monthlyTokens, priceOverride }: UsageLedgerOptions) => {
+  const db = new Datastore<UsageRecord>({ filename });
+  const ready = (async () => {
+    await db.loadDatabaseAsync();
+    await db.ensureIndexAsync({ fieldName: ["subject", "period", "key"], unique: true });
+    const cutoff = periodKey("day", new Date(Date.now() - 60 * 24 * 60 * 60 * 1000));
+    await db.removeAsync({ period: "day", key: { $lt: cutoff } }, { multi: true });
+  })();
+
+  const limits: Record<Period, number> = { day: dailyTokens, month: monthlyTokens };
+
+  const periodUsage = async (subject: string, period: Period): Promise<PeriodUsage> => {
+    const record = await db.findOneAsync({ subject, period, key: periodKey(period) });
+    const limit = limits[period] > 0 ? limits[period] : null;
+    const totalTokens = record?.totalTokens ?? 0;
+    return {
+      calls: record?.calls ?? 0,
+      promptTokens: record?.promptTokens ?? 0,
+      completionTokens: record?.completionTokens ?? 0,
+      totalTokens,
+      costUsd: record?.costUsd ?? 0,
+      limit,
+      remaining: limit === null ? null : Math.max(0, limit - totalTokens),
+      resetsAt: periodEnd(period).toISOString(),
+    };
+  };
+
+  const summary = async (subject: string): Promise<UsageSummary> => {
+    await ready;
+    return {
+      subject: subject.startsWith("user:") ? "user" : "guest",
+      day: await periodUsage(subject, "day"),
+      month: await periodUsage(subject, "month"),
+    };
+  };
+
+  return {
+    ready,
+    summary,
+
+    async record(subject: string, model: string, usage: TokenUsage) {
+      await ready;
+      const costUsd = costOf(model, usage, priceOverride);
+      for (const period of ["day", "month"] as const) {
+        await db.updateAsync(
+          { subject, period, key: periodKey(period) },
+          {
+            $inc: {
+              calls: 1,
+              promptTokens: usage.promptTokens,
+              completionTokens: usage.completionTokens,
+              totalTokens: usage.totalTokens,
+              costUsd,
+            },
+          },
+          { upsert: true },
+        );
+      }
+    },
+
+    // The period whose quota is used up, if any
+    async exceeded(subject: string): Promise<{ period: Period; summary: UsageSummary } | undefined> {
+      const current = await summary(subject);
+      const period = (["day", "month"] as const).find((p) => current[p].remaining === 0);
+      return period ? { period, summary: current } : undefined;
+    },
+  };
+};
+
+export type UsageLedger = ReturnType<typeof createUsageLedger>;
+
+// Wraps a provider so every completion, streamed or not, reports its token usage
+export const meteredProvider = (
+  llm: LLMProvider,
+  onUsage: (model: string, usage: TokenUsage) => void,
+): LLMProvider => ({
+  name: llm.name,
+  model: llm.model,
+
+  async complete(request) {
+    const result = await llm.complete(request);
+    if (result.usage) onUsage(request.model || llm.model, result.usage);
+    return result;
+  },
+
+  stream(request) {
+    return llm.stream({
+      ...request,
+      onUsage: (usage) => {
+        request.onUsage?.(usage);
+        onUsage(request.model || llm.model, usage);
+      },
+    });
+  },
+});
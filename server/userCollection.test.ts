@@ -0,0 +1,89 @@
+// server/userCollection.test.ts
+import express from "express";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import request from "supertest";
+import { z } from "zod";
+import { afterAll, describe, expect, it } from "vitest";
+import { createUserCollection, createUserCollectionRoutes } from "./userCollection";
+
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "user-collection-test-"));
+
+const noteSchema = z.object({ id: z.string(), text: z.string(), createdAt: z.string() });
+type Note = z.infer<typeof noteSchema>;
+
+const note = (id: string, createdAt: string): Note => ({ id, text: `Note ${id}`, createdAt });
+const collection = (name: string) =>
+  createUserCollection<Note>({ filename: path.join(dataDir, `${name}.db`), newestFirst: "createdAt" });
+
+afterAll(() => {
+  fs.rmSync(dataDir, { recursive: true, force: true });
+});
+
+describe("createUserCollection", () => {
+  it("keeps each user's records apart, newest first", async () => {
+    const store = collection("scoped");
+    await store.create("ann", note("a", "2024-01-01"));
+    await store.create("ann", note("b", "2024-02-01"));
+    await store.create("bob", note("a", "2024-03-01"));
+
+    expect((await store.list("ann")).map(({ id }) => id)).toEqual(["b", "a"]);
+    expect(await store.list("bob")).toEqual([note("a", "2024-03-01")]);
+  });
+
+  it("refuses duplicate ids and reports missing records", async () => {
+    const store = collection("missing");
+
+    expect(await store.create("ann", note("a", "2024-01-01"))).toBe(true);
+    expect(await store.create("ann", note("a", "2024-01-01"))).toBe(false);
+    expect(await store.update("bob", note("a", "2024-01-01"))).toBe(false);
+    expect(await store.remove("bob", "a")).toBe(false);
+    expect(await store.remove("ann", "a")).toBe(true);
+  });
+
+  it("survives a restart", async () => {
+    await collection("restart").create("ann", note("a", "2024-01-01"));
+
+    expect(await collection("restart").list("ann")).toEqual([note("a", "2024-01-01")]);
+  });
+});
+
+describe("createUserCollectionRoutes", () => {
+  const app = express();
+  app.use(express.json());
+  // Stands in for the session middleware
+  app.use((req, res, next) => {
+    const userId = req.header("x-user");
+    if (userId) res.locals.user = { id: userId, email: `${userId}@example.com`, createdAt: "2024-01-01" };
+    next();
+  });
+  app.use(
+    "/notes",
+    createUserCollectionRoutes(collection("routes"), { schema: noteSchema, noun: "Note", component: "notes" }),
+  );
+
+  it("requires a signed-in user", async () => {
+    await request(app).get("/notes").expect(401);
+  });
+
+  it("creates, updates and deletes the user's records", async () => {
+    const created = await request(app).post("/notes").set("x-user", "ann").send(note("a", "2024-01-01"));
+    expect(created.status).toBe(201);
+    expect((await request(app).post("/notes").set("x-user", "ann").send(note("a", "2024-01-01"))).status).toBe(409);
+
+    await request(app).put("/notes/a").set("x-user", "ann").send({ text: "Edited", createdAt: "2024-01-01" }).expect(200);
+    expect((await request(app).get("/notes").set("x-user", "ann")).body).toEqual([
+      { id: "a", text: "Edited", createdAt: "2024-01-01" },
+    ]);
+
+    await request(app).delete("/notes/a").set("x-user", "bob").expect(404);
+    await request(app).delete("/notes/a").set("x-user", "ann").expect(204);
+  });
+
+  it("rejects an invalid record", async () => {
+    const res = await request(app).post("/notes").set("x-user", "ann").send({ id: "b" });
+
+    expect(res.body.error.code).toBe("VALIDATION_FAILED");
+  });
+});
@@ -0,0 +1,121 @@
+// server/userCollection.ts
+import Datastore from "@seald-io/nedb";
+import express from "express";
+import type { z } from "zod";
+import { currentUser, requireUser } from "./auth";
+import { parseBody, sendError } from "./errors";
+import { requestLog } from "./logger";
+
+// Zod only infers required fields under strictNullChecks, which the server build leaves off
+type Identified = { id?: string };
+
+type Stored<T> = T & {
+  userId: string;
+};
+
+type UserCollectionOptions<T> = {
+  // NeDB datafile (append-only, compacted on startup)
+  filename: string;
+  // Lists are sorted on this field, newest (largest) first
+  newestFirst: keyof T & string;
+};
+
+/**
+ * One user's records of a kind (job applications, resume versions) in an embedded NeDB datafile, one document
+ * per record. Every query is scoped to a user id; record ids are only unique per user.
+ */
+export const createUserCollection = <T extends Identified>({ filename, newestFirst }: UserCollectionOptions<T>) => {
+  const db = new Datastore<Stored<T>>({ filename });
+  const ready = (async () => {
+    await db.loadDatabaseAsync();
+    await db.ensureIndexAsync({ fieldName: ["userId", "id"], unique: true });
+  })();
+
+  // Drops the store's own fields before a document leaves the server
+  const toRecord = ({ _id, userId, ...record }: Stored<T> & { _id?: string }) => record as unknown as T;
+
+  return {
+    ready,
+
+    async list(userId: string): Promise<T[]> {
+      await ready;
+      const docs = await db.findAsync({ userId }).sort({ [newestFirst]: -1 });
+      return docs.map(toRecord);
+    },
+
+    // Returns false when the user already has a record with this id
+    async create(userId: string, record: T): Promise<boolean> {
+      await ready;
+      if (await db.findOneAsync({ userId, id: record.id })) return false;
+      await db.insertAsync({ ...record, userId });
+      return true;
+    },
+
+    // Replaces the whole record; returns false when it does not exist
+    async update(userId: string, record: T): Promise<boolean> {
+      await ready;
+      const { numAffected } = await db.updateAsync({ userId, id: record.id }, { ...record, userId }, {});
+      return numAffected > 0;
+    },
+
+    async remove(userId: string, id: string): Promise<boolean> {
+      await ready;
+      return (await db.removeAsync({ userId, id }, {})) > 0;
+    },
+  };
+};
+
+export type UserCollection<T extends Identified> = ReturnType<typeof createUserCollection<T>>;
+
+type UserCollectionRoutesOptions<T> = {
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>;
+  // What a record is called in error messages, e.g. "Job application"
+  noun: string;
+  // Component name the routes log under, e.g. "jobs"
+  component: string;
+};
+
+// CRUD for the signed-in user's records: GET and POST on the mount path, PUT and DELETE on /:id
+export const createUserCollectionRoutes = <T extends Identified>(
+  store: UserCollection<T>,
+  { schema, noun, component }: UserCollectionRoutesOptions<T>,
+) => {
+  const router = express.Router();
+  router.use(requireUser);
+
+  router.get("/", async (_req: express.Request, res: express.Response) => {
+    const records = await store.list(currentUser(res)!.id);
+    return res.json(records);
+  });
+
+  router.post("/", async (req: express.Request, res: express.Response) => {
+    const record = parseBody(schema, req.body, res);
+    if (!record) return;
+
+    if (!(await store.create(currentUser(res)!.id, record))) {
+      return sendError(res, "CONFLICT", `${noun} ${record.id} already exists`);
+    }
+    requestLog(res).info(`${component}: created ${noun.toLowerCase()}`, { id: record.id });
+    return res.status(201).json(record);
+  });
+
+  router.put("/:id", async (req: express.Request, res: express.Response) => {
+    const record = parseBody(schema, { ...req.body, id: req.params.id }, res);
+    if (!record) return;
+
+    if (!(await store.update(currentUser(res)!.id, record))) {
+      return sendError(res, "NOT_FOUND", `${noun} not found`);
+    }
+    return res.json(record);
+  });
+
+  router.delete("/:id", async (req: express.Request, res: express.Response) => {
+    if (!(await store.remove(currentUser(res)!.id, req.params.id))) {
+      return sendError(res, "NOT_FOUND", `${noun} not found`);
+    }
+    requestLog(res).info(`${component}: deleted ${noun.toLowerCase()}`, { id: req.params.id });
+    return res.status(204).end();
+  });
+
+  return router;
+};
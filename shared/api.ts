@@ -0,0 +1,114 @@
+// shared/api.ts
+// Types shared by the API server and the frontend (imported there as `@shared/api`),
+// inferred from the schemas in ./schemas so the two sides cannot drift apart.
+import type { z } from "zod";
+import type {
+  analysisJobRequestSchema,
+  analysisJobSchema,
+  analysisSchema,
+  analyzeResumeRequestSchema,
+  ANALYSIS_STEPS,
+  API_ERROR_CODES,
+  DOCUMENT_FORMATS,
+  FABRICATION_KINDS,
+  fabricationFlagSchema,
+  FEEDBACK_SOURCES,
+  JOB_STATUSES,
+  jobApplicationSchema,
+  KEYWORD_IMPORTANCE,
+  keywordMatchSchema,
+  parsedDocumentSchema,
+  periodUsageSchema,
+  PROFILE_PARSE_MODES,
+  RESUME_CHANGE_CATEGORIES,
+  resumeChangeSchema,
+  resumeProfileSchema,
+  resumeRequestSchema,
+  RESUME_VERSION_KINDS,
+  resumeVersionSchema,
+  SECTION_KINDS,
+  usageSummarySchema,
+  userSchema,
+} from "./schemas";
+
+export type AnalysisStep = (typeof ANALYSIS_STEPS)[number];
+
+// Request body shared by every resume analysis endpoint
+export type ResumeRequest = z.input<typeof resumeRequestSchema>;
+export type AnalysisJobRequest = z.input<typeof analysisJobRequestSchema>;
+export type AnalyzeResumeRequest = z.input<typeof analyzeResumeRequestSchema>;
+
+// Structured resume: contact details, summary, experience, education, skills, projects and certifications
+export type ResumeProfile = z.infer<typeof resumeProfileSchema>;
+export type ProfileParseMode = (typeof PROFILE_PARSE_MODES)[number];
+
+export type ResumeChangeCategory = (typeof RESUME_CHANGE_CATEGORIES)[number];
+export type ResumeChange = z.infer<typeof resumeChangeSchema>;
+export type FeedbackSource = (typeof FEEDBACK_SOURCES)[number];
+export type ResumeAnalysis = z.infer<typeof analysisSchema>;
+export type AnalysisJob = z.infer<typeof analysisJobSchema>;
+export type AnalysisJobStatus = AnalysisJob["status"];
+
+export type KeywordImportance = (typeof KEYWORD_IMPORTANCE)[number];
+// Deterministic keyword comparison of a resume with a job description, from /api/keyword-match
+export type KeywordMatch = z.infer<typeof keywordMatchSchema>;
+
+export type FabricationKind = (typeof FABRICATION_KINDS)[number];
+// A span of the customized resume that the original resume does not back up, from /api/fabrication-check
+export type FabricationFlag = z.infer<typeof fabricationFlagSchema>;
+
+export type User = z.infer<typeof userSchema>;
+
+export type JobStatus = (typeof JOB_STATUSES)[number];
+export type JobApplication = z.infer<typeof jobApplicationSchema>;
+
+export type ResumeVersionKind = (typeof RESUME_VERSION_KINDS)[number];
+// A named resume in the user's library: a base resume or a variant tailored to a job
+export type ResumeVersion = z.infer<typeof resumeVersionSchema>;
+
+// AI token usage for one quota period, as returned by /api/usage
+export type PeriodUsage = z.infer<typeof periodUsageSchema>;
+export type UsageSummary = z.infer<typeof usageSummarySchema>;
+
+export type DocumentFormat = (typeof DOCUMENT_FORMATS)[number];
+export type SectionKind = (typeof SECTION_KINDS)[number];
+// Text extracted from an uploaded resume file, with page and section metadata
+export type ParsedDocument = z.infer<typeof parsedDocumentSchema>;
+
+// --- Errors ---
+
+export type ApiErrorCode = (typeof API_ERROR_CODES)[number];
+
+export interface ValidationIssue {
+  // Dotted path of the offending field, e.g. "steps.0"; empty for the body itself
+  path: string;
+  message: string;
+}
+
+interface ApiErrorDetailsByCode {
+  VALIDATION_FAILED: { issues: ValidationIssue[] };
+  RATE_LIMITED: { retryAfterSeconds: number };
+  QUOTA_EXCEEDED: { period: "day" | "month"; usage: UsageSummary };
+}
+
+// Extra data carried by an error; only some codes have any
+export type ApiErrorDetails<C extends ApiErrorCode> = C extends keyof ApiErrorDetailsByCode
+  ? ApiErrorDetailsByCode[C]
+  : never;
+
+// Narrowing on `code` also narrows `details`
+export type ApiErrorBody<C extends ApiErrorCode = ApiErrorCode> = {
+  [K in C]: {
+    code: K;
+    // Safe to show to the user as is
+    message: string;
+    details?: ApiErrorDetails<K>;
+    // Matches the X-Request-Id response header and the server's log lines
+    requestId?: string;
+  };
+}[C];
+
+// Body of every non-2xx JSON response, and of the `error` event on streaming endpoints
+export interface ApiErrorResponse {
+  error: ApiErrorBody;
+}
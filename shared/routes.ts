@@ -0,0 +1,335 @@
+// shared/routes.ts
+// Every JSON endpoint of the API: method, path, request body and response schemas. The server generates
+// /api/openapi.json from this table and the frontend's typed client (src/lib/apiClient.ts) is derived from it.
+import { z, type AnyZodObject, type ZodTypeAny } from "zod";
+import {
+  analysisJobRequestSchema,
+  analysisJobSchema,
+  analysisSchema,
+  analyzeResumeRequestSchema,
+  coverLetterResponseSchema,
+  customizedResumeResponseSchema,
+  DOCUMENT_MEDIA_TYPES,
+  fabricationCheckRequestSchema,
+  fabricationCheckSchema,
+  feedbackResponseSchema,
+  jobApplicationSchema,
+  keywordMatchRequestSchema,
+  keywordMatchSchema,
+  loginRequestSchema,
+  parsedDocumentSchema,
+  parseDocumentQuerySchema,
+  parseProfileRequestSchema,
+  parseProfileResponseSchema,
+  resumeRequestSchema,
+  resumeVersionSchema,
+  signupRequestSchema,
+  specificChangesResponseSchema,
+  tailoredResumeRequestSchema,
+  usageSummarySchema,
+  userResponseSchema,
+} from "./schemas";
+
+export type RouteDefinition = {
+  method: "get" | "post" | "put" | "delete";
+  // OpenAPI style, e.g. "/api/jobs/{id}"
+  path: string;
+  summary: string;
+  tag: string;
+  query?: AnyZodObject;
+  body?: ZodTypeAny;
+  // The request body is a file sent as is, with one of these content types (instead of a JSON `body`)
+  upload?: readonly string[];
+  // Success status and its body; null when the response has no body
+  status: number;
+  response: ZodTypeAny | null;
+  // Answered with Server-Sent Events instead of JSON; `description` lists the events
+  stream?: boolean;
+  description?: string;
+  // Other success responses, documented but not used by the client
+  alternatives?: readonly { status: number; description: string; response: ZodTypeAny }[];
+};
+
+const STREAM_EVENTS =
+  "Server-Sent Events: `delta` ({ text }) for each token batch, then `done` ({ cached, promptVersions }) " +
+  "or `error` (the error envelope). A cached result is sent as a single delta.";
+
+export const API_ROUTES = {
+  // --- Auth ---
+  signup: {
+    method: "post",
+    path: "/api/auth/signup",
+    summary: "Create an account and start a session",
+    tag: "auth",
+    body: signupRequestSchema,
+    status: 201,
+    response: userResponseSchema,
+  },
+  login: {
+    method: "post",
+    path: "/api/auth/login",
+    summary: "Start a session",
+    tag: "auth",
+    body: loginRequestSchema,
+    status: 200,
+    response: userResponseSchema,
+  },
+  logout: {
+    method: "post",
+    path: "/api/auth/logout",
+    summary: "End the current session",
+    tag: "auth",
+    status: 204,
+    response: null,
+  },
+  currentUser: {
+    method: "get",
+    path: "/api/auth/me",
+    summary: "The signed-in user (401 without a session)",
+    tag: "auth",
+    status: 200,
+    response: userResponseSchema,
+  },
+
+  // --- Job applications (signed-in users) ---
+  listJobs: {
+    method: "get",
+    path: "/api/jobs",
+    summary: "List the user's job applications, newest first",
+    tag: "jobs",
+    status: 200,
+    response: z.array(jobApplicationSchema),
+  },
+  createJob: {
+    method: "post",
+    path: "/api/jobs",
+    summary: "Add a job application",
+    tag: "jobs",
+    body: jobApplicationSchema,
+    status: 201,
+    response: jobApplicationSchema,
+  },
+  updateJob: {
+    method: "put",
+    path: "/api/jobs/{id}",
+    summary: "Replace a job application",
+    tag: "jobs",
+    body: jobApplicationSchema,
+    status: 200,
+    response: jobApplicationSchema,
+  },
+  deleteJob: {
+    method: "delete",
+    path: "/api/jobs/{id}",
+    summary: "Delete a job application",
+    tag: "jobs",
+    status: 204,
+    response: null,
+  },
+
+  // --- Resume library (signed-in users) ---
+  listResumeVersions: {
+    method: "get",
+    path: "/api/resumes",
+    summary: "List the user's saved resume versions, newest first",
+    tag: "resumes",
+    status: 200,
+    response: z.array(resumeVersionSchema),
+  },
+  createResumeVersion: {
+    method: "post",
+    path: "/api/resumes",
+    summary: "Save a base resume or a tailored variant to the library",
+    tag: "resumes",
+    body: resumeVersionSchema,
+    status: 201,
+    response: resumeVersionSchema,
+  },
+  updateResumeVersion: {
+    method: "put",
+    path: "/api/resumes/{id}",
+    summary: "Replace a saved resume version (e.g. to rename it)",
+    tag: "resumes",
+    body: resumeVersionSchema,
+    status: 200,
+    response: resumeVersionSchema,
+  },
+  deleteResumeVersion: {
+    method: "delete",
+    path: "/api/resumes/{id}",
+    summary: "Delete a saved resume version",
+    tag: "resumes",
+    status: 204,
+    response: null,
+  },
+
+  // --- AI usage ---
+  usage: {
+    method: "get",
+    path: "/api/usage",
+    summary: "Token usage and remaining quota for the caller (user, or IP for guests)",
+    tag: "usage",
+    status: 200,
+    response: usageSummarySchema,
+  },
+
+  // --- Documents ---
+  parseDocument: {
+    method: "post",
+    path: "/api/documents/parse",
+    summary: "Extract normalized text, pages and sections from a resume file",
+    tag: "documents",
+    query: parseDocumentQuerySchema,
+    upload: DOCUMENT_MEDIA_TYPES,
+    status: 200,
+    response: parsedDocumentSchema,
+    description:
+      "The request body is the file itself. The format is detected from the content (PDF, DOCX, RTF) " +
+      "and, for text files, from the `filename` extension (Markdown or plain text).",
+  },
+
+  // --- Keyword match ---
+  keywordMatch: {
+    method: "post",
+    path: "/api/keyword-match",
+    summary: "Score how well a resume covers a job description's skills and keywords",
+    tag: "resume",
+    body: keywordMatchRequestSchema,
+    status: 200,
+    response: keywordMatchSchema,
+    description:
+      "Rule-based and free: it needs no AI provider and does not count against the AI rate limit or quota. " +
+      "Terms are marked as must-haves or nice-to-haves from the job description's headings and wording.",
+  },
+
+  checkFabrication: {
+    method: "post",
+    path: "/api/fabrication-check",
+    summary: "Flag facts in a customized resume that the original resume does not back up",
+    tag: "resume",
+    body: fabricationCheckRequestSchema,
+    status: 200,
+    response: fabricationCheckSchema,
+    description:
+      "Rule-based and free, like the keyword match. Flags employers, job titles, degrees, dates, numbers, skills " +
+      "and claims (awards, patents, promotions) that appear in `customizedResume` but not in `resumeText` or " +
+      "`profile`. Each flag says how to revert it.",
+  },
+
+  // --- Resume analysis ---
+  parseProfile: {
+    method: "post",
+    path: "/api/resume/profile",
+    summary: "Structure resume text into a profile",
+    tag: "resume",
+    body: parseProfileRequestSchema,
+    status: 200,
+    response: parseProfileResponseSchema,
+    description:
+      "`mode: \"llm\"` asks the AI provider and uses the AI budget; `mode: \"deterministic\"` uses the rule-based " +
+      "parser, which is also used when no provider is configured. Send the reviewed profile back as `profile` " +
+      "on the other resume endpoints.",
+  },
+  feedback: {
+    method: "post",
+    path: "/api/resume/feedback",
+    summary: "Strengths, improvements and tailoring tips for a resume",
+    tag: "resume",
+    body: resumeRequestSchema,
+    status: 200,
+    response: feedbackResponseSchema,
+  },
+  customizeResume: {
+    method: "post",
+    path: "/api/resume/customize",
+    summary: "Rewrite the resume for a job description",
+    tag: "resume",
+    body: tailoredResumeRequestSchema,
+    status: 200,
+    response: customizedResumeResponseSchema,
+  },
+  specificChanges: {
+    method: "post",
+    path: "/api/resume/changes",
+    summary: "Individual edits that tailor the resume to a job description",
+    tag: "resume",
+    body: tailoredResumeRequestSchema,
+    status: 200,
+    response: specificChangesResponseSchema,
+  },
+  coverLetter: {
+    method: "post",
+    path: "/api/cover-letter",
+    summary: "Write a cover letter for a job description",
+    tag: "resume",
+    body: tailoredResumeRequestSchema,
+    status: 200,
+    response: coverLetterResponseSchema,
+  },
+  streamCustomizedResume: {
+    method: "post",
+    path: "/api/resume/customize/stream",
+    summary: "Rewrite the resume, streamed as it is generated",
+    tag: "resume",
+    body: tailoredResumeRequestSchema,
+    status: 200,
+    response: null,
+    stream: true,
+    description: STREAM_EVENTS,
+  },
+  streamCoverLetter: {
+    method: "post",
+    path: "/api/cover-letter/stream",
+    summary: "Write a cover letter, streamed as it is generated",
+    tag: "resume",
+    body: tailoredResumeRequestSchema,
+    status: 200,
+    response: null,
+    stream: true,
+    description: STREAM_EVENTS,
+  },
+  analyzeResume: {
+    method: "post",
+    path: "/api/analyze-resume",
+    summary: "Run every analysis step and return the merged result",
+    tag: "resume",
+    body: analyzeResumeRequestSchema,
+    status: 200,
+    response: analysisSchema,
+    alternatives: [
+      { status: 202, description: "With `async: true`: the enqueued analysis job", response: analysisJobSchema },
+    ],
+  },
+
+  // --- Background analysis jobs ---
+  startAnalysisJob: {
+    method: "post",
+    path: "/api/analysis-jobs",
+    summary: "Enqueue an analysis job; poll it for per-step progress and partial results",
+    tag: "analysis-jobs",
+    body: analysisJobRequestSchema,
+    status: 202,
+    response: analysisJobSchema,
+  },
+  analysisJob: {
+    method: "get",
+    path: "/api/analysis-jobs/{id}",
+    summary: "An analysis job's progress and results so far",
+    tag: "analysis-jobs",
+    status: 200,
+    response: analysisJobSchema,
+  },
+  cancelAnalysisJob: {
+    method: "post",
+    path: "/api/analysis-jobs/{id}/cancel",
+    summary: "Cancel a queued or running analysis job",
+    tag: "analysis-jobs",
+    status: 200,
+    response: analysisJobSchema,
+  },
+} as const satisfies Record<string, RouteDefinition>;
+
+export type RouteName = keyof typeof API_ROUTES;
+
+// Express-style path ("/api/jobs/:id") for registering a route
+export const expressPath = (name: RouteName) => API_ROUTES[name].path.replace(/\{(\w+)\}/g, ":$1");
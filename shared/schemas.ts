@@ -0,0 +1,443 @@
+// shared/schemas.ts
+// zod schemas for every JSON body the API accepts or returns. The server validates requests with them,
+// /api/openapi.json is generated from them and the frontend's API client parses responses with them.
+import { z } from "zod";
+
+export const RESUME_CHANGE_CATEGORIES = ["summary", "experience", "skills", "keywords", "achievements", "other"] as const;
+
+export const resumeChangeSchema = z.object({
+  // e.g. "Work Experience - Software Engineer at Company X"
+  section: z.string().trim().min(1),
+  // Exact text currently in the resume; empty when the change adds something new
+  current: z.string().trim().default(""),
+  proposed: z.string().trim().min(1),
+  rationale: z.string().trim().default(""),
+  // Unknown categories are kept as "other" rather than failing the whole list
+  category: z.preprocess((value) => {
+    const category = typeof value === "string" ? value.trim().toLowerCase() : value;
+    return (RESUME_CHANGE_CATEGORIES as readonly unknown[]).includes(category) ? category : "other";
+  }, z.enum(RESUME_CHANGE_CATEGORIES)),
+});
+
+// --- Resume profile ---
+// Fields the resume does not have are empty strings or lists, so a partial profile (or model answer) still parses
+const profileText = z.string().trim().max(2_000).default("");
+const profileList = z.array(z.string().trim().max(2_000)).max(100).default([]);
+
+export const experienceEntrySchema = z.object({
+  employer: profileText,
+  title: profileText,
+  location: profileText,
+  // As written in the resume, e.g. "Jan 2020"; `endDate` may be "Present"
+  startDate: profileText,
+  endDate: profileText,
+  bullets: profileList,
+});
+
+export const educationEntrySchema = z.object({
+  institution: profileText,
+  degree: profileText,
+  field: profileText,
+  startDate: profileText,
+  endDate: profileText,
+  // Honors, coursework, GPA and similar lines
+  details: profileList,
+});
+
+export const projectEntrySchema = z.object({
+  name: profileText,
+  description: profileText,
+  link: profileText,
+  bullets: profileList,
+});
+
+export const certificationEntrySchema = z.object({
+  name: profileText,
+  issuer: profileText,
+  date: profileText,
+});
+
+export const resumeProfileSchema = z.object({
+  contact: z
+    .object({
+      name: profileText,
+      email: profileText,
+      phone: profileText,
+      location: profileText,
+      // Portfolio, LinkedIn, GitHub and other addresses
+      links: profileList,
+    })
+    .default({}),
+  summary: z.string().trim().max(10_000).default(""),
+  experience: z.array(experienceEntrySchema).max(50).default([]),
+  education: z.array(educationEntrySchema).max(20).default([]),
+  skills: profileList,
+  projects: z.array(projectEntrySchema).max(50).default([]),
+  certifications: z.array(certificationEntrySchema).max(50).default([]),
+});
+
+// How the profile is built from the resume text: by the LLM, or by the server's rule-based parser
+export const PROFILE_PARSE_MODES = ["llm", "deterministic"] as const;
+
+// --- Resume analysis ---
+export const ANALYSIS_STEPS = ["feedback", "customize", "changes", "coverLetter"] as const;
+
+const resumeTextSchema = z
+  .string({ required_error: "resumeText is required" })
+  .max(200_000, { message: "resumeText must be at most 200,000 characters" })
+  .refine((text) => text.trim().length > 0, { message: "resumeText is required" });
+
+export const resumeRequestSchema = z.object({
+  resumeText: resumeTextSchema,
+  jobDescription: z
+    .string()
+    .max(50_000, { message: "jobDescription must be at most 50,000 characters" })
+    .default("")
+    .transform((text) => text.trim()),
+  // The structured profile as reviewed by the user; the prompts treat it as the authoritative facts of the resume
+  profile: resumeProfileSchema.optional(),
+  force: z.boolean().default(false),
+});
+
+// POST /api/resume/profile; the LLM mode falls back to the rule-based parser when no provider is configured
+export const parseProfileRequestSchema = z.object({
+  resumeText: resumeTextSchema,
+  mode: z.enum(PROFILE_PARSE_MODES).default("deterministic"),
+  force: z.boolean().default(false),
+});
+
+export const parseProfileResponseSchema = z.object({
+  profile: resumeProfileSchema,
+  // The mode that actually produced the profile
+  mode: z.enum(PROFILE_PARSE_MODES),
+  cached: z.boolean(),
+  // Template version (`id@version`) of the LLM prompt; absent for the rule-based parser
+  promptVersion: z.string().optional(),
+});
+
+// For the routes that tailor the resume to a job
+export const tailoredResumeRequestSchema = resumeRequestSchema.refine((body) => body.jobDescription.length > 0, {
+  message: "jobDescription is required",
+  path: ["jobDescription"],
+});
+
+const stepsSchema = z
+  .array(z.enum(ANALYSIS_STEPS, { errorMap: () => ({ message: `steps can only include: ${ANALYSIS_STEPS.join(", ")}` }) }), {
+    invalid_type_error: `steps must be a list of: ${ANALYSIS_STEPS.join(", ")}`,
+  })
+  .min(1, { message: `steps must include at least one of: ${ANALYSIS_STEPS.join(", ")}` });
+
+// Every step but feedback needs a job description
+const hasJobDescriptionForSteps = (body: { jobDescription?: string; steps?: string[] }) =>
+  Boolean(body.jobDescription) || (body.steps ?? []).every((step) => step === "feedback");
+
+const jobDescriptionRequired = { message: "jobDescription is required", path: ["jobDescription"] };
+
+// POST /api/analysis-jobs; without `steps`, runs every step (or just feedback without a job description)
+export const analysisJobRequestSchema = resumeRequestSchema
+  .extend({ steps: stepsSchema.optional() })
+  .refine(hasJobDescriptionForSteps, jobDescriptionRequired);
+
+// POST /api/analyze-resume; `async: true` does the same as POST /api/analysis-jobs
+export const analyzeResumeRequestSchema = resumeRequestSchema
+  .extend({ async: z.boolean().default(false), steps: stepsSchema.optional() })
+  .refine(hasJobDescriptionForSteps, jobDescriptionRequired);
+
+// Template version (`id@version`) that produced each part, keyed by step
+export const promptVersionsSchema = z.record(z.enum(ANALYSIS_STEPS), z.string());
+
+// Who wrote the feedback: the LLM, or the rule-based analyzer the server falls back to without one
+export const FEEDBACK_SOURCES = ["llm", "heuristic"] as const;
+
+export const feedbackSchema = z.object({
+  strengths: z.array(z.string()),
+  improvements: z.array(z.string()),
+  tailoring: z.array(z.string()),
+  source: z.enum(FEEDBACK_SOURCES),
+});
+
+export const analysisSchema = feedbackSchema.extend({
+  customizedResume: z.string().optional(),
+  specificChanges: z.array(resumeChangeSchema).optional(),
+  coverLetter: z.string().optional(),
+  promptVersions: promptVersionsSchema.optional(),
+  // True when every part of the response was served from the analysis cache
+  cached: z.boolean().optional(),
+});
+
+// What each single-step endpoint adds to its own part of the analysis
+const generatedSchema = z.object({
+  cached: z.boolean(),
+  promptVersions: promptVersionsSchema,
+});
+
+export const feedbackResponseSchema = feedbackSchema.merge(generatedSchema);
+export const customizedResumeResponseSchema = generatedSchema.extend({ customizedResume: z.string().min(1) });
+export const specificChangesResponseSchema = generatedSchema.extend({ specificChanges: z.array(resumeChangeSchema) });
+export const coverLetterResponseSchema = generatedSchema.extend({ coverLetter: z.string().min(1) });
+
+// Data of the `done` event on the streaming routes
+export const streamDoneEventSchema = generatedSchema;
+
+export const ANALYSIS_JOB_STATUSES = ["queued", "running", "completed", "failed", "cancelled"] as const;
+export const ANALYSIS_STEP_STATUSES = ["pending", "running", "completed", "failed", "cancelled"] as const;
+
+export const analysisJobSchema = z.object({
+  id: z.string(),
+  status: z.enum(ANALYSIS_JOB_STATUSES),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  steps: z.array(
+    z.object({
+      name: z.enum(ANALYSIS_STEPS),
+      status: z.enum(ANALYSIS_STEP_STATUSES),
+      cached: z.boolean().optional(),
+      error: z.string().optional(),
+    }),
+  ),
+  // Partial results, filled in as steps finish (streamed steps update while running)
+  result: analysisSchema.partial(),
+  error: z.string().optional(),
+});
+
+// --- Keyword match (POST /api/keyword-match) ---
+// Known skills, matched with their synonyms, and other words the job description repeats
+export const KEYWORD_KINDS = ["skill", "keyword"] as const;
+export const KEYWORD_IMPORTANCE = ["must", "nice"] as const;
+
+export const keywordMatchRequestSchema = z.object({
+  resumeText: resumeTextSchema,
+  jobDescription: z
+    .string({ required_error: "jobDescription is required" })
+    .max(50_000, { message: "jobDescription must be at most 50,000 characters" })
+    .refine((text) => text.trim().length > 0, { message: "jobDescription is required" }),
+});
+
+// Offsets are character positions in the resume text; `end` is exclusive
+export const keywordMatchSchema = z.object({
+  // Share of the job's terms found in the resume, 0-100, with must-haves counting double; null when the job
+  // description names no terms
+  score: z.number().int().min(0).max(100).nullable(),
+  // Must-haves first, then by how often the job description mentions them
+  terms: z.array(
+    z.object({
+      term: z.string(),
+      kind: z.enum(KEYWORD_KINDS),
+      importance: z.enum(KEYWORD_IMPORTANCE),
+      // Times the job description mentions the term
+      mentions: z.number().int(),
+      // Where the resume mentions it (at most five); empty when the term is missing
+      locations: z.array(
+        z.object({
+          section: z.string().nullable(),
+          start: z.number().int(),
+          end: z.number().int(),
+          excerpt: z.string(),
+        }),
+      ),
+    }),
+  ),
+});
+
+// --- Fabrication check (POST /api/fabrication-check) ---
+export const FABRICATION_KINDS = ["organization", "title", "degree", "date", "number", "claim"] as const;
+
+export const fabricationCheckRequestSchema = z.object({
+  resumeText: resumeTextSchema,
+  customizedResume: z
+    .string({ required_error: "customizedResume is required" })
+    .max(200_000, { message: "customizedResume must be at most 200,000 characters" })
+    .refine((text) => text.trim().length > 0, { message: "customizedResume is required" }),
+  // The reviewed profile counts as part of the original, so facts the user added there are not flagged
+  profile: resumeProfileSchema.optional(),
+});
+
+// Offsets are character positions in `customizedResume`; `end` is exclusive
+export const fabricationFlagSchema = z.object({
+  kind: z.enum(FABRICATION_KINDS),
+  start: z.number().int(),
+  end: z.number().int(),
+  // The flagged text, i.e. `customizedResume.slice(start, end)`
+  text: z.string(),
+  message: z.string(),
+  // Replacement that undoes the flagged line: the most similar line of the original resume, or "" to drop the
+  // line when the original has nothing like it
+  revert: z.object({ start: z.number().int(), end: z.number().int(), text: z.string() }),
+});
+
+export const fabricationCheckSchema = z.object({ flags: z.array(fabricationFlagSchema) });
+
+// --- AI usage (GET /api/usage) ---
+export const periodUsageSchema = z.object({
+  calls: z.number(),
+  promptTokens: z.number(),
+  completionTokens: z.number(),
+  totalTokens: z.number(),
+  costUsd: z.number(),
+  // Token quota; null when unlimited
+  limit: z.number().nullable(),
+  remaining: z.number().nullable(),
+  resetsAt: z.string(),
+});
+
+export const usageSummarySchema = z.object({
+  subject: z.enum(["user", "guest"]),
+  day: periodUsageSchema,
+  month: periodUsageSchema,
+});
+
+// --- Documents (POST /api/documents/parse) ---
+export const DOCUMENT_FORMATS = ["pdf", "docx", "rtf", "markdown", "text"] as const;
+
+// Accepted upload types; the server detects the format from the file's content and name, not from this header
+export const DOCUMENT_MEDIA_TYPES = [
+  "application/pdf",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  "application/rtf",
+  "text/markdown",
+  "text/plain",
+] as const;
+
+export const SECTION_KINDS = [
+  "contact",
+  "summary",
+  "experience",
+  "education",
+  "skills",
+  "projects",
+  "certifications",
+  "awards",
+  "publications",
+  "languages",
+  "volunteering",
+  "interests",
+] as const;
+
+export const parseDocumentQuerySchema = z.object({
+  // The original file name; its extension tells Markdown from plain text
+  filename: z.string().max(255).optional(),
+});
+
+// Offsets are character positions in `text`; `end` is exclusive
+export const parsedDocumentSchema = z.object({
+  format: z.enum(DOCUMENT_FORMATS),
+  // What extracted the text, e.g. "pdf.js 5.4.394" or "mammoth"
+  parser: z.string(),
+  text: z.string(),
+  // PDF pages; empty for formats without fixed pages. `columns` is 2 when the page was read as two text columns
+  pages: z.array(
+    z.object({
+      number: z.number().int(),
+      start: z.number().int(),
+      end: z.number().int(),
+      columns: z.number().int(),
+    }),
+  ),
+  // Headed sections, from the heading line to the next heading; `kind` is null for headings it does not recognize
+  sections: z.array(
+    z.object({
+      title: z.string(),
+      kind: z.enum(SECTION_KINDS).nullable(),
+      start: z.number().int(),
+      end: z.number().int(),
+    }),
+  ),
+  // Content the parser skipped or could not read, safe to show to the user
+  warnings: z.array(z.string()),
+});
+
+// --- Errors ---
+export const API_ERROR_CODES = [
+  "VALIDATION_FAILED",
+  "UNAUTHENTICATED",
+  "INVALID_CREDENTIALS",
+  "NOT_FOUND",
+  "CONFLICT",
+  "PAYLOAD_TOO_LARGE",
+  "UNSUPPORTED_DOCUMENT",
+  "UNREADABLE_DOCUMENT",
+  "RATE_LIMITED",
+  "QUOTA_EXCEEDED",
+  "LLM_FAILED",
+  "INTERNAL",
+  "OPENAI_NOT_CONFIGURED",
+] as const;
+
+// The envelope of every error response; `details` depends on the code (see ApiErrorDetails in shared/api)
+export const apiErrorResponseSchema = z.object({
+  error: z.object({
+    code: z.enum(API_ERROR_CODES),
+    message: z.string(),
+    details: z.unknown().optional(),
+    requestId: z.string().optional(),
+  }),
+});
+
+// --- Auth ---
+const emailSchema = z.string().trim().toLowerCase().email({ message: "Please enter a valid email address" });
+const passwordSchema = z
+  .string()
+  .min(6, { message: "Password must be at least 6 characters" })
+  .max(200, { message: "Password must be at most 200 characters" });
+
+export const signupRequestSchema = z.object({
+  email: emailSchema,
+  password: passwordSchema,
+  name: z.string().trim().max(100).optional(),
+});
+
+export const loginRequestSchema = z.object({
+  email: emailSchema,
+  password: z.string().min(1, { message: "Password is required" }),
+});
+
+// Signed-in account as returned by /api/auth/*
+export const userSchema = z.object({
+  id: z.string(),
+  email: z.string(),
+  name: z.string().optional(),
+  createdAt: z.string(),
+});
+
+export const userResponseSchema = z.object({ user: userSchema });
+
+// --- Job applications ---
+export const JOB_STATUSES = ["interested", "applied", "interview", "rejected", "offer"] as const;
+
+const optionalText = z.string().max(20_000).optional();
+
+export const jobApplicationSchema = z.object({
+  id: z.string().trim().min(1).max(100),
+  companyName: z.string().trim().min(1, { message: "companyName is required" }).max(200),
+  jobTitle: z.string().trim().min(1, { message: "jobTitle is required" }).max(200),
+  dateApplied: z.string().max(40),
+  jobLink: optionalText,
+  location: optionalText,
+  contactPerson: optionalText,
+  interviewStep: optionalText,
+  status: z.enum(JOB_STATUSES),
+  reasonOutcome: optionalText,
+  resumeText: z.string().max(200_000).optional(),
+  // The resume library version that was sent with this application
+  resumeVersionId: z.string().max(100).optional(),
+  notes: optionalText,
+  followUpDate: z.string().max(40).optional(),
+  lastUpdated: z.string().max(40),
+});
+
+// --- Resume library ---
+// Base resumes the user keeps, and variants tailored from them for a job description
+export const RESUME_VERSION_KINDS = ["base", "tailored"] as const;
+
+export const resumeVersionSchema = z.object({
+  id: z.string().trim().min(1).max(100),
+  name: z.string().trim().min(1, { message: "name is required" }).max(200),
+  kind: z.enum(RESUME_VERSION_KINDS),
+  // For tailored variants: the version they were made from
+  parentId: z.string().max(100).optional(),
+  text: resumeTextSchema,
+  // For tailored variants: the job description they were tailored to, and the keyword match score against it
+  jobDescription: z.string().max(50_000).optional(),
+  atsScore: z.number().int().min(0).max(100).nullable().optional(),
+  createdAt: z.string().max(40),
+});
@@ -4,8 +4,10 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 
+import { AuthProvider } from "@/contexts/AuthContext";
 import { JobsProvider } from "@/contexts/JobsContext";
 import { KanbanProvider } from "@/contexts/KanbanContext";
+import { ResumesProvider } from "@/contexts/ResumesContext";
 import EditApplication from "./pages/EditApplication";
 import Login from "./pages/Login";
 import Signup from "./pages/Signup";
@@ -13,6 +15,7 @@ import Dashboard from "./pages/Dashboard";
 import Applications from "./pages/Applications";
 import AddApplication from "./pages/AddApplication";
 import ResumeAnalyzerPage from "./pages/ResumeAnalyzerPage";
+import ResumeLibrary from "./pages/ResumeLibrary";
 import Analytics from "./pages/Analytics";
 import Tasks from "./pages/Tasks";
 import NotFound from "./pages/NotFound";
@@ -21,32 +24,37 @@ const queryClient = new QueryClient();
 
 const App = () => (
   <QueryClientProvider client={queryClient}>
-    <JobsProvider>
-      <KanbanProvider>
-        <TooltipProvider>
-          <Toaster />
-          <Sonner />
-          <BrowserRouter>
-            <Routes>
+    <AuthProvider>
+      <JobsProvider>
+        <ResumesProvider>
+          <KanbanProvider>
+            <TooltipProvider>
+              <Toaster />
+              <Sonner />
+              <BrowserRouter>
+                <Routes>
 
-              <Route path="/" element={<Navigate to="/dashboard" replace />} />
-              <Route path="/login" element={<Login />} />
-              <Route path="/signup" element={<Signup />} />
-              <Route path="/dashboard" element={<Dashboard />} />
-              <Route path="/applications" element={<Applications />} />
-              <Route path="/applications/edit/:id" element={<EditApplication />} />
-              <Route path="/add-application" element={<AddApplication />} />
-              <Route path="/tasks" element={<Tasks />} />
-              <Route path="/resume-analyzer" element={<ResumeAnalyzerPage />} />
-              <Route path="/analytics" element={<Analytics />} />
+                  <Route path="/" element={<Navigate to="/dashboard" replace />} />
+                  <Route path="/login" element={<Login />} />
+                  <Route path="/signup" element={<Signup />} />
+                  <Route path="/dashboard" element={<Dashboard />} />
+                  <Route path="/applications" element={<Applications />} />
+                  <Route path="/applications/edit/:id" element={<EditApplication />} />
+                  <Route path="/add-application" element={<AddApplication />} />
+                  <Route path="/tasks" element={<Tasks />} />
+                  <Route path="/resume-analyzer" element={<ResumeAnalyzerPage />} />
+                  <Route path="/resume-library" element={<ResumeLibrary />} />
+                  <Route path="/analytics" element={<Analytics />} />
 
 
-              <Route path="*" element={<NotFound />} />
-            </Routes>
-          </BrowserRouter>
-        </TooltipProvider>
-      </KanbanProvider>
-    </JobsProvider>
+                  <Route path="*" element={<NotFound />} />
+                </Routes>
+              </BrowserRouter>
+            </TooltipProvider>
+          </KanbanProvider>
+        </ResumesProvider>
+      </JobsProvider>
+    </AuthProvider>
   </QueryClientProvider>
 );
 
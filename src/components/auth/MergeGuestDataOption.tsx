@@ -0,0 +1,25 @@
+import React from "react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+
+interface MergeGuestDataOptionProps {
+  checked: boolean;
+  onCheckedChange: (checked: boolean) => void;
+}
+
+// Shown on the signup forms when the guest sandbox holds applications, tasks or saved resumes
+const MergeGuestDataOption: React.FC<MergeGuestDataOptionProps> = ({ checked, onCheckedChange }) => (
+  <div className="flex items-start gap-2 rounded-md border bg-muted/40 p-3">
+    <Checkbox
+      id="merge-guest-data"
+      checked={checked}
+      onCheckedChange={(value) => onCheckedChange(value === true)}
+      className="mt-0.5"
+    />
+    <Label htmlFor="merge-guest-data" className="text-sm font-normal leading-snug">
+      Keep the applications, tasks and resumes I added as a guest in my new account
+    </Label>
+  </div>
+);
+
+export default MergeGuestDataOption;
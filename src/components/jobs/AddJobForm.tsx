@@ -15,6 +15,7 @@ import {
 import { useToast } from "@/hooks/use-toast";
 import { JobApplication, JobStatus } from "@/types";
 import { Card, CardContent } from "../ui/card";
+import { ResumeVersionSelect } from "./ResumeVersionSelect";
 
 interface AddJobFormProps {
   onAddJob: (job: JobApplication) => void;
@@ -31,6 +32,7 @@ const AddJobForm: React.FC<AddJobFormProps> = ({ onAddJob }) => {
     jobLink: "",
     status: "interested" as JobStatus,
     resumeText: "",
+    resumeVersionId: undefined as string | undefined,
     notes: "",
   });
 
@@ -143,6 +145,15 @@ const AddJobForm: React.FC<AddJobFormProps> = ({ onAddJob }) => {
               />
             </div>
             
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="resumeVersionId">Resume Sent</Label>
+              <ResumeVersionSelect
+                id="resumeVersionId"
+                value={formData.resumeVersionId}
+                onChange={(resumeVersionId) => setFormData((prev) => ({ ...prev, resumeVersionId }))}
+              />
+            </div>
+
             <div className="space-y-2 md:col-span-2">
               <Label htmlFor="resumeText">Resume Text (for AI analysis)</Label>
               <Textarea
@@ -21,6 +21,7 @@ import {
 } from "@/components/ui/select";
 import { useJobs } from "@/contexts/JobsContext";
 import { useToast } from "@/hooks/use-toast";
+import { ResumeVersionSelect } from "./ResumeVersionSelect";
 
 interface EditJobDialogProps {
   job: JobApplication;
@@ -148,6 +149,15 @@ export const EditJobDialog: React.FC<EditJobDialogProps> = ({
               />
             </div>
 
+            <div className="space-y-2">
+              <Label htmlFor="resumeVersionId">Resume Sent</Label>
+              <ResumeVersionSelect
+                id="resumeVersionId"
+                value={formData.resumeVersionId}
+                onChange={(resumeVersionId) => setFormData((prev) => ({ ...prev, resumeVersionId }))}
+              />
+            </div>
+
             <div className="space-y-2">
               <Label htmlFor="reasonOutcome">Reason/Outcome</Label>
               <Input
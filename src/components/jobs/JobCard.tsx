@@ -14,9 +14,12 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import JobStatusBadge from "./JobStatusBadge";
+import { ResumeVersionSelect } from "./ResumeVersionSelect";
+import ResumeVersionDialog from "@/components/resume/ResumeVersionDialog";
 import { JobApplication, JobStatus } from "@/types";
+import { useResumes } from "@/hooks/use-resumes";
 import { useToast } from "@/hooks/use-toast";
-import { Pencil, ExternalLink } from "lucide-react";
+import { Pencil, ExternalLink, FileText } from "lucide-react";
 
 interface JobCardProps {
   job: JobApplication;
@@ -27,6 +30,7 @@ interface JobCardProps {
 const JobCard: React.FC<JobCardProps> = ({ job, onEdit, onDelete }) => {
   const [showViewDialog, setShowViewDialog] = useState(false);
   const [showEditDialog, setShowEditDialog] = useState(false);
+  const [showResumeDialog, setShowResumeDialog] = useState(false);
   const [editForm, setEditForm] = useState({
     companyName: job.companyName,
     jobTitle: job.jobTitle,
@@ -34,9 +38,12 @@ const JobCard: React.FC<JobCardProps> = ({ job, onEdit, onDelete }) => {
     jobLink: job.jobLink || "",
     status: job.status as JobStatus,
     resumeText: job.resumeText || "",
+    resumeVersionId: job.resumeVersionId,
     notes: job.notes || "",
   });
   const { toast } = useToast();
+  const { versions } = useResumes();
+  const resumeVersion = versions.find((version) => version.id === job.resumeVersionId);
 
   return (
     <>
@@ -71,6 +78,14 @@ const JobCard: React.FC<JobCardProps> = ({ job, onEdit, onDelete }) => {
                 </a>
               </p>
             )}
+            {job.resumeVersionId && (
+              <p className="text-muted-foreground truncate">
+                <span className="font-medium">Resume:</span>{" "}
+                <button type="button" className="text-primary hover:underline" onClick={() => setShowResumeDialog(true)}>
+                  {resumeVersion?.name ?? "Deleted resume"}
+                </button>
+              </p>
+            )}
           </div>
         </CardContent>
         <CardFooter className="flex justify-between pt-2">
@@ -114,6 +129,7 @@ const JobCard: React.FC<JobCardProps> = ({ job, onEdit, onDelete }) => {
                 jobLink: editForm.jobLink || "",
                 status: editForm.status,
                 resumeText: editForm.resumeText,
+                resumeVersionId: editForm.resumeVersionId,
                 notes: editForm.notes,
                 lastUpdated: new Date().toISOString(),
               };
@@ -181,6 +197,14 @@ const JobCard: React.FC<JobCardProps> = ({ job, onEdit, onDelete }) => {
                   placeholder="https://example.com/job-posting"
                 />
               </div>
+              <div className="space-y-2 md:col-span-2">
+                <Label htmlFor="resumeVersionId">Resume Sent</Label>
+                <ResumeVersionSelect
+                  id="resumeVersionId"
+                  value={editForm.resumeVersionId}
+                  onChange={(resumeVersionId) => setEditForm((p) => ({ ...p, resumeVersionId }))}
+                />
+              </div>
               <div className="space-y-2 md:col-span-2">
                 <Label htmlFor="resumeText">Resume Text</Label>
                 <Textarea
@@ -253,6 +277,15 @@ const JobCard: React.FC<JobCardProps> = ({ job, onEdit, onDelete }) => {
                 <p className="text-muted-foreground whitespace-pre-wrap">{job.notes}</p>
               </div>
             )}
+            {job.resumeVersionId && (
+              <div>
+                <h4 className="font-semibold mb-1">Resume Sent</h4>
+                <Button variant="outline" size="sm" onClick={() => setShowResumeDialog(true)}>
+                  <FileText className="h-4 w-4 mr-2" />
+                  {resumeVersion?.name ?? "Deleted resume"}
+                </Button>
+              </div>
+            )}
             {job.resumeText && (
               <div>
                 <h4 className="font-semibold mb-1">Resume</h4>
@@ -264,6 +297,12 @@ const JobCard: React.FC<JobCardProps> = ({ job, onEdit, onDelete }) => {
           </div>
         </DialogContent>
       </Dialog>
+
+      <ResumeVersionDialog
+        versionId={job.resumeVersionId}
+        open={showResumeDialog}
+        onOpenChange={setShowResumeDialog}
+      />
     </>
   );
 };
@@ -2,6 +2,7 @@ import React, { useState } from "react";
 import { JobApplication } from "@/types";
 import JobStatusBadge from "./JobStatusBadge";
 import { EditJobDialog } from "./EditJobDialog";
+import ResumeVersionDialog from "@/components/resume/ResumeVersionDialog";
 import {
   Table,
   TableBody,
@@ -10,10 +11,11 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
-import { ExternalLink, Trash2, Edit } from "lucide-react";
+import { ExternalLink, Trash2, Edit, FileText } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { format } from "date-fns";
 import { useJobs } from "@/contexts/JobsContext";
+import { useResumes } from "@/hooks/use-resumes";
 import { useToast } from "@/hooks/use-toast";
 import {
   AlertDialog,
@@ -34,7 +36,9 @@ interface JobTableProps {
 export const JobTable: React.FC<JobTableProps> = ({ jobs }) => {
   const { deleteJob } = useJobs();
   const { toast } = useToast();
+  const { versions } = useResumes();
   const [editingJob, setEditingJob] = useState<JobApplication | null>(null);
+  const [viewingResumeId, setViewingResumeId] = useState<string | null>(null);
 
   const handleDelete = (id: string, companyName: string) => {
     deleteJob(id);
@@ -66,13 +70,14 @@ export const JobTable: React.FC<JobTableProps> = ({ jobs }) => {
             <TableHead className="font-semibold">Interview Step</TableHead>
             <TableHead className="font-semibold">Status</TableHead>
             <TableHead className="font-semibold">Reason/Outcome</TableHead>
+            <TableHead className="font-semibold">Resume</TableHead>
             <TableHead className="w-[100px]">Actions</TableHead>
           </TableRow>
         </TableHeader>
         <TableBody>
           {jobs.length === 0 ? (
             <TableRow>
-              <TableCell colSpan={10} className="text-center py-8 text-muted-foreground">
+              <TableCell colSpan={11} className="text-center py-8 text-muted-foreground">
                 No job applications found
               </TableCell>
             </TableRow>
@@ -106,6 +111,23 @@ export const JobTable: React.FC<JobTableProps> = ({ jobs }) => {
                 <TableCell className="max-w-[200px] truncate">
                   {job.reasonOutcome || "-"}
                 </TableCell>
+                <TableCell className="max-w-[180px]">
+                  {job.resumeVersionId ? (
+                    <Button
+                      variant="link"
+                      size="sm"
+                      className="h-auto p-0 max-w-full"
+                      onClick={() => setViewingResumeId(job.resumeVersionId!)}
+                    >
+                      <FileText className="h-4 w-4" />
+                      <span className="truncate">
+                        {versions.find((version) => version.id === job.resumeVersionId)?.name ?? "Deleted resume"}
+                      </span>
+                    </Button>
+                  ) : (
+                    <span className="text-muted-foreground">-</span>
+                  )}
+                </TableCell>
                 <TableCell>
                   <div className="flex items-center gap-1">
                     <Button 
@@ -152,6 +174,12 @@ export const JobTable: React.FC<JobTableProps> = ({ jobs }) => {
           onOpenChange={(open) => !open && setEditingJob(null)}
         />
       )}
+
+      <ResumeVersionDialog
+        versionId={viewingResumeId ?? undefined}
+        open={!!viewingResumeId}
+        onOpenChange={(open) => !open && setViewingResumeId(null)}
+      />
     </div>
   );
 };
@@ -0,0 +1,42 @@
+import React from "react";
+import { format } from "date-fns";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useResumes } from "@/hooks/use-resumes";
+
+interface ResumeVersionSelectProps {
+  id?: string;
+  value?: string;
+  onChange: (versionId: string | undefined) => void;
+}
+
+// Select items cannot have an empty value
+const NONE = "none";
+
+// Picks the version from the resume library that was sent with an application
+export const ResumeVersionSelect: React.FC<ResumeVersionSelectProps> = ({ id, value, onChange }) => {
+  const { versions } = useResumes();
+  const missing = value && !versions.some((version) => version.id === value);
+
+  return (
+    <Select value={value || NONE} onValueChange={(next) => onChange(next === NONE ? undefined : next)}>
+      <SelectTrigger id={id}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NONE}>No resume linked</SelectItem>
+        {missing && <SelectItem value={value}>Deleted resume</SelectItem>}
+        {versions.map((version) => (
+          <SelectItem key={version.id} value={version.id}>
+            {version.name} ({version.kind}, {format(new Date(version.createdAt), "MMM d, yyyy")})
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
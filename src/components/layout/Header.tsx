@@ -1,5 +1,5 @@
 
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useMemo } from "react";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
 import { useNavigate } from "react-router-dom";
@@ -16,23 +16,9 @@ import { Form, FormField, FormItem, FormLabel, FormControl, FormMessage } from "
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
 import * as z from "zod";
-
-
-// Local fake auth helper functions
-type StoredUser = { email: string; password: string };
-
-const getStoredUsers = (): StoredUser[] => {
-  try {
-    return JSON.parse(localStorage.getItem("users") || "[]");
-  } catch {
-    return [];
-  }
-};
-
-const saveStoredUsers = (users: StoredUser[]) => {
-  localStorage.setItem("users", JSON.stringify(users));
-};
-
+import { useAuth } from "@/hooks/use-auth";
+import MergeGuestDataOption from "@/components/auth/MergeGuestDataOption";
+import { describeMergeResult, hasGuestData } from "@/lib/guestSandbox";
 
 interface HeaderProps {
   title: string;
@@ -64,13 +50,10 @@ const Header: React.FC<HeaderProps> = ({ title, subtitle = false }) => {
   const [showLoginDialog, setShowLoginDialog] = useState(false);
   const [showSignupDialog, setShowSignupDialog] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
-  const [isLoggedIn, setIsLoggedIn] = useState(false);
-
-  // Check if user is logged in on mount
-  useEffect(() => {
-    const user = localStorage.getItem("user");
-    setIsLoggedIn(!!user);
-  }, []);
+  const { isLoggedIn, login, signup, logout } = useAuth();
+  const [mergeGuest, setMergeGuest] = useState(true);
+  // Re-checked each time the signup dialog opens
+  const canMergeGuest = useMemo(() => showSignupDialog && hasGuestData(), [showSignupDialog]);
 
   // Listen for custom event to show login dialog (from Sidebar)
   useEffect(() => {
@@ -104,117 +87,83 @@ const Header: React.FC<HeaderProps> = ({ title, subtitle = false }) => {
     },
   });
 
-  const handleLoginSubmit = (values: LoginFormValues) => {
+  const handleLoginSubmit = async (values: LoginFormValues) => {
     setIsLoading(true);
+    try {
+      const user = await login({ email: values.email, password: values.password });
 
-    // Fake latency so the UI shows loading
-    setTimeout(() => {
-      const users = getStoredUsers();
-      const found = users.find(
-        (u) => u.email.toLowerCase() === values.email.toLowerCase()
-      );
-
-      // Invalid email or wrong password
-      if (!found || found.password !== values.password) {
-        setIsLoading(false);
-
-        // mark both fields in the form
-        loginForm.setError("email", {
-          type: "manual",
-          message: "Email or password is incorrect",
-        });
-        loginForm.setError("password", {
-          type: "manual",
-          message: "Email or password is incorrect",
-        });
-
-        toast({
-          title: "Invalid credentials",
-          description: "Email or password is incorrect.",
-          variant: "destructive",
-        });
-
-        return; // keep dialog open
-      }
-
-      // Success
-      setIsLoading(false);
       setShowLoginDialog(false);
-
       toast({
         title: "Login Successful",
-        description: `Welcome back, ${values.email}!`,
+        description: `Welcome back, ${user.name || user.email}!`,
         duration: 3000,
       });
-
-      localStorage.setItem(
-        "user",
-        JSON.stringify({ email: found.email }) // what you consider your session
-      );
-      setIsLoggedIn(true);
-      // Dispatch event to notify other components of login
-      window.dispatchEvent(new CustomEvent("userLoggedIn"));
       navigate("/dashboard");
-    }, 800);
-  };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Email or password is incorrect";
 
+      // mark both fields in the form; keep the dialog open
+      loginForm.setError("email", { type: "manual", message });
+      loginForm.setError("password", { type: "manual", message });
 
-  const handleLogout = () => {
-    localStorage.removeItem("user");
-    setIsLoggedIn(false);
-    // Dispatch event to notify other components of logout
-    window.dispatchEvent(new CustomEvent("userLoggedOut"));
-    toast({
-      title: "Logged Out",
-      description: "You have been successfully logged out.",
-      duration: 3000,
-    });
+      toast({
+        title: "Login failed",
+        description: message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
   };
 
-  const handleSignupSubmit = (values: SignupFormValues) => {
-    setIsLoading(true);
+  const handleLogout = async () => {
+    try {
+      await logout();
+      toast({
+        title: "Logged Out",
+        description: "You have been successfully logged out.",
+        duration: 3000,
+      });
+    } catch (err) {
+      toast({
+        title: "Logout failed",
+        description: err instanceof Error ? err.message : "Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
 
-    setTimeout(() => {
-      const users = getStoredUsers();
-      const exists = users.some(
-        (u) => u.email.toLowerCase() === values.email.toLowerCase()
+  const handleSignupSubmit = async (values: SignupFormValues) => {
+    setIsLoading(true);
+    try {
+      const { user, merged } = await signup(
+        { email: values.email, password: values.password },
+        { mergeGuestData: canMergeGuest && mergeGuest },
       );
 
-      if (exists) {
-        setIsLoading(false);
-
-        signupForm.setError("email", {
-          type: "manual",
-          message: "An account with this email already exists",
-        });
-
-        toast({
-          title: "Email already registered",
-          description: "Please log in instead.",
-          variant: "destructive",
-        });
-        return;
-      }
-
-      // Store new user (NOTE: plaintext for demo only)
-      users.push({ email: values.email, password: values.password });
-      saveStoredUsers(users);
-
-      setIsLoading(false);
       setShowSignupDialog(false);
-
       toast({
         title: "Account Created",
-        description: `Welcome, ${values.email}! You can now log in.`,
+        description: [`Welcome, ${user.email}! You're now logged in.`, merged && describeMergeResult(merged)]
+          .filter(Boolean)
+          .join(" "),
         duration: 3000,
       });
+      navigate("/dashboard");
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Could not create the account";
+      signupForm.setError("email", { type: "manual", message });
 
-      // Open login dialog after a tiny delay
-      setTimeout(() => setShowLoginDialog(true), 100);
-    }, 800);
+      toast({
+        title: "Sign up failed",
+        description: message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
   };
 
-
   return (
     <>
       <div className="flex flex-col md:flex-row justify-between items-start md:items-center pb-6 mb-6">
@@ -371,6 +320,7 @@ const Header: React.FC<HeaderProps> = ({ title, subtitle = false }) => {
                   </FormItem>
                 )}
               />
+              {canMergeGuest && <MergeGuestDataOption checked={mergeGuest} onCheckedChange={setMergeGuest} />}
               <div className="flex justify-end gap-2">
                 <Button type="button" variant="outline" onClick={() => setShowSignupDialog(false)}>
                   Cancel
@@ -1,37 +1,17 @@
 
-import React, { useState, useEffect } from "react";
+import React, { useState } from "react";
 import { Link, useLocation } from "react-router-dom";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
-import { LayoutDashboard, FileText, BarChart2, FileCode, Plus, Menu, CheckSquare } from "lucide-react";
+import { LayoutDashboard, FileText, BarChart2, FileCode, Plus, Menu, CheckSquare, Library } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
 
 const Sidebar: React.FC = () => {
   const [collapsed, setCollapsed] = useState(false);
-  const [isLoggedIn, setIsLoggedIn] = useState(false);
   const location = useLocation();
   const { toast } = useToast();
-
-  // Check if user is logged in
-  useEffect(() => {
-    const checkLoginStatus = () => {
-      const user = localStorage.getItem("user");
-      setIsLoggedIn(!!user);
-    };
-
-    checkLoginStatus();
-    // Listen for storage changes (e.g., when user logs in/out)
-    window.addEventListener("storage", checkLoginStatus);
-    // Listen for custom login event
-    window.addEventListener("userLoggedIn", checkLoginStatus);
-    window.addEventListener("userLoggedOut", checkLoginStatus);
-
-    return () => {
-      window.removeEventListener("storage", checkLoginStatus);
-      window.removeEventListener("userLoggedIn", checkLoginStatus);
-      window.removeEventListener("userLoggedOut", checkLoginStatus);
-    };
-  }, [location]);
+  const { isLoggedIn } = useAuth();
 
   const toggleSidebar = () => {
     setCollapsed(!collapsed);
@@ -76,6 +56,11 @@ const Sidebar: React.FC = () => {
       path: "/resume-analyzer",
       icon: FileCode,
     },
+    {
+      name: "Resume Library",
+      path: "/resume-library",
+      icon: Library,
+    },
   ];
 
   const isActive = (path: string) => {
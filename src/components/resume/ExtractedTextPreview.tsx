@@ -0,0 +1,83 @@
+import React, { useRef } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { ParsedDocument } from "@/types";
+import { Columns2, RotateCcw } from "lucide-react";
+
+interface ExtractedTextPreviewProps {
+  document: ParsedDocument;
+  value: string;
+  onChange: (text: string) => void;
+}
+
+// The text read from the uploaded file, editable so extraction mistakes can be fixed before analysis
+const ExtractedTextPreview: React.FC<ExtractedTextPreviewProps> = ({ document, value, onChange }) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const edited = value !== document.text;
+  const twoColumnPages = document.pages.filter((page) => page.columns > 1).map((page) => page.number);
+
+  // Selects a section heading in the text; after edits its offset may have moved, so look the title up again
+  const jumpToSection = (title: string, start: number) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    const offset = edited ? value.indexOf(title) : start;
+    if (offset < 0) return;
+    textarea.focus();
+    textarea.setSelectionRange(offset, offset + title.length);
+    const lineHeight = parseFloat(getComputedStyle(textarea).lineHeight) || 20;
+    textarea.scrollTop = (value.slice(0, offset).split("\n").length - 1) * lineHeight;
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <Label htmlFor="extractedText" className="flex items-center gap-2">
+          Review extracted text
+          {edited && <Badge variant="secondary">Edited</Badge>}
+        </Label>
+        {edited && (
+          <Button variant="ghost" size="sm" onClick={() => onChange(document.text)}>
+            <RotateCcw className="h-3 w-3 mr-2" />
+            Reset to extracted text
+          </Button>
+        )}
+      </div>
+      {twoColumnPages.length > 0 && (
+        <p className="flex items-center gap-1 text-xs text-muted-foreground">
+          <Columns2 className="h-3 w-3" />
+          Two columns found on {twoColumnPages.length === 1 ? "page" : "pages"} {twoColumnPages.join(", ")}; the left
+          column is read before the right one.
+        </p>
+      )}
+      {document.sections.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {document.sections.map((section) => (
+            <Badge
+              key={section.start}
+              variant="outline"
+              className="cursor-pointer hover:bg-accent"
+              onClick={() => jumpToSection(section.title, section.start)}
+            >
+              {section.title}
+            </Badge>
+          ))}
+        </div>
+      )}
+      <Textarea
+        ref={textareaRef}
+        id="extractedText"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="min-h-48 max-h-96 resize-y font-mono text-xs"
+      />
+      <p className="text-xs text-muted-foreground">
+        This is the text the analysis will use. Fix merged lines, misplaced columns or missing bullets here before
+        continuing. {value.length.toLocaleString()} characters.
+      </p>
+    </div>
+  );
+};
+
+export default ExtractedTextPreview;
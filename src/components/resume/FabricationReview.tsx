@@ -0,0 +1,92 @@
+import React from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { FabricationFlag, FabricationKind } from "@/types";
+import { Check, ShieldAlert, ShieldCheck, Undo2 } from "lucide-react";
+
+interface FabricationReviewProps {
+  // The customized resume the flags point into
+  text: string;
+  flags: FabricationFlag[];
+  onKeep: (flag: FabricationFlag) => void;
+  onRevert: (flag: FabricationFlag) => void;
+}
+
+const KIND_LABELS: Record<FabricationKind, string> = {
+  organization: "Organization",
+  title: "Job title",
+  degree: "Degree",
+  date: "Date",
+  number: "Number",
+  claim: "Claim",
+};
+
+// The line a flag sits on, split around the flagged span
+const flaggedLine = (text: string, { start, end }: FabricationFlag) => {
+  const lineStart = text.lastIndexOf("\n", start - 1) + 1;
+  const newline = text.indexOf("\n", end);
+  const lineEnd = newline === -1 ? text.length : newline;
+  return {
+    before: text.slice(lineStart, start).trimStart(),
+    span: text.slice(start, end),
+    after: text.slice(end, lineEnd).trimEnd(),
+  };
+};
+
+// Facts in the customized resume that the original does not back up, each with the span highlighted in its line
+const FabricationReview: React.FC<FabricationReviewProps> = ({ text, flags, onKeep, onRevert }) => {
+  if (!flags.length) {
+    return (
+      <div className="flex items-center gap-2 rounded-lg border border-green-200 dark:border-green-800 bg-green-50 dark:bg-green-950/20 p-3 text-sm text-green-800 dark:text-green-200">
+        <ShieldCheck className="h-4 w-4 shrink-0" />
+        No employers, titles, degrees, dates, numbers or claims were added that your original resume does not
+        mention.
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-lg border border-amber-300 dark:border-amber-700 bg-amber-50 dark:bg-amber-950/20 p-3 space-y-3">
+      <div className="flex items-center gap-2">
+        <ShieldAlert className="h-4 w-4 text-amber-600 dark:text-amber-400" />
+        <h4 className="text-sm font-semibold text-amber-900 dark:text-amber-100">
+          Check {flags.length === 1 ? "this detail" : `these ${flags.length} details`}
+        </h4>
+      </div>
+      <p className="text-xs text-amber-800 dark:text-amber-200">
+        The AI added these, and your original resume does not back them up. Keep the ones that are true; revert the
+        others to restore the line from your original resume.
+      </p>
+      <ul className="space-y-2">
+        {flags.map((flag) => {
+          const { before, span, after } = flaggedLine(text, flag);
+          return (
+            <li key={`${flag.start}-${flag.kind}`} className="rounded-md border bg-white dark:bg-gray-900 p-2 space-y-2">
+              <div className="flex flex-wrap items-center gap-2">
+                <Badge variant="outline">{KIND_LABELS[flag.kind]}</Badge>
+                <span className="text-xs text-muted-foreground">{flag.message}</span>
+              </div>
+              <p className="text-sm">
+                {before}
+                <mark className="rounded bg-amber-200 dark:bg-amber-700/60 px-0.5 text-inherit">{span}</mark>
+                {after}
+              </p>
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={() => onKeep(flag)}>
+                  <Check className="h-3 w-3 mr-2" />
+                  Keep
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => onRevert(flag)}>
+                  <Undo2 className="h-3 w-3 mr-2" />
+                  {flag.revert.text ? "Revert line" : "Remove line"}
+                </Button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default FabricationReview;
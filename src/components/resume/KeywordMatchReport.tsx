@@ -0,0 +1,131 @@
+import React from "react";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { KeywordImportance, KeywordMatch } from "@/types";
+import { Target } from "lucide-react";
+
+interface KeywordMatchReportProps {
+  // The uploaded resume
+  before: KeywordMatch;
+  // The customized resume, once there is one
+  after: KeywordMatch | null;
+}
+
+type Term = KeywordMatch["terms"][number];
+
+const IMPORTANCE_LABELS: Record<KeywordImportance, string> = {
+  must: "Must-have",
+  nice: "Nice-to-have",
+};
+
+const found = (term: Term) => term.locations.length > 0;
+
+interface ScoreProps {
+  label: string;
+  score: number | null;
+  delta?: number;
+}
+
+const Score: React.FC<ScoreProps> = ({ label, score, delta }) => (
+  <div className="flex-1 min-w-[180px] space-y-1 rounded-lg border bg-white dark:bg-gray-900 p-3">
+    <div className="flex items-center justify-between text-sm">
+      <span className="text-muted-foreground">{label}</span>
+      {delta !== undefined && delta !== 0 && (
+        <Badge variant={delta > 0 ? "default" : "destructive"}>
+          {delta > 0 ? "+" : ""}
+          {delta} pts
+        </Badge>
+      )}
+    </div>
+    <p className="text-2xl font-semibold">{score === null ? "n/a" : `${score}%`}</p>
+    <Progress value={score ?? 0} className="h-1.5" />
+  </div>
+);
+
+// Missing terms of one importance, most often mentioned first
+const MissingTerms: React.FC<{ importance: KeywordImportance; terms: Term[] }> = ({ importance, terms }) => {
+  const missing = terms.filter((term) => term.importance === importance && !found(term));
+  if (!missing.length) return null;
+  return (
+    <div className="space-y-1">
+      <h4 className="text-sm font-semibold">Missing {IMPORTANCE_LABELS[importance].toLowerCase()} terms</h4>
+      <div className="flex flex-wrap gap-1">
+        {missing.map((term) => (
+          <Badge key={term.term} variant={importance === "must" ? "destructive" : "outline"}>
+            {term.term}
+          </Badge>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+// Match score between the resume and the job description, before and after customization, with the terms
+// that are missing and where the matched ones appear
+const KeywordMatchReport: React.FC<KeywordMatchReportProps> = ({ before, after }) => {
+  const latest = after ?? before;
+  const foundBefore = new Set(before.terms.filter(found).map((term) => term.term));
+  const matched = latest.terms.filter(found);
+
+  if (latest.score === null) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        The job description does not name any skills or repeated keywords this check recognizes.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-3">
+        <Score label="Original resume" score={before.score} />
+        {after && (
+          <Score
+            label="Customized resume"
+            score={after.score}
+            delta={after.score !== null && before.score !== null ? after.score - before.score : undefined}
+          />
+        )}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Share of the job description's skills and keywords found in {after ? "each" : "your"} resume, with must-haves
+        counting twice as much as nice-to-haves. Synonyms count (e.g. "Postgres" for PostgreSQL).
+      </p>
+
+      <MissingTerms importance="must" terms={latest.terms} />
+      <MissingTerms importance="nice" terms={latest.terms} />
+
+      {matched.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="text-sm font-semibold">
+            Matched terms ({matched.length} of {latest.terms.length})
+          </h4>
+          <ul className="space-y-2">
+            {matched.map((term) => (
+              <li key={term.term} className="rounded-md border bg-white dark:bg-gray-900 p-2 text-sm">
+                <div className="flex flex-wrap items-center gap-2">
+                  <Target className="h-3 w-3 text-primary" />
+                  <span className="font-medium">{term.term}</span>
+                  <Badge variant="outline" className="text-xs">
+                    {IMPORTANCE_LABELS[term.importance]}
+                  </Badge>
+                  {after && !foundBefore.has(term.term) && <Badge className="text-xs">New</Badge>}
+                </div>
+                <ul className="mt-1 space-y-0.5 pl-5 text-xs text-muted-foreground">
+                  {term.locations.slice(0, 2).map((location) => (
+                    <li key={location.start}>
+                      {location.section && <span className="font-medium">{location.section}: </span>}
+                      {location.excerpt}
+                    </li>
+                  ))}
+                </ul>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default KeywordMatchReport;
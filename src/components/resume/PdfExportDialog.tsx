@@ -0,0 +1,130 @@
+import React, { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { useToast } from "@/hooks/use-toast";
+import { PDF_TEMPLATES, PdfTemplate, renderCoverLetterPdf, renderResumePdf } from "@/lib/pdfExport";
+import { Download, Loader2 } from "lucide-react";
+
+export type PdfDocument = "resume" | "coverLetter";
+
+interface PdfExportDialogProps {
+  document: PdfDocument;
+  text: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const DOCUMENTS: Record<PdfDocument, { title: string; fileName: string; render: typeof renderResumePdf }> = {
+  resume: { title: "Resume", fileName: "customized-resume.pdf", render: renderResumePdf },
+  coverLetter: { title: "Cover Letter", fileName: "cover-letter.pdf", render: renderCoverLetterPdf },
+};
+
+// Template picker with a live preview of the PDF, rebuilt whenever the template or the text changes
+const PdfExportDialog: React.FC<PdfExportDialogProps> = ({ document: kind, text, open, onOpenChange }) => {
+  const { toast } = useToast();
+  const [template, setTemplate] = useState<PdfTemplate>("classic");
+  const [preview, setPreview] = useState<{ blob: Blob; url: string } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const { title, fileName, render } = DOCUMENTS[kind];
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    let url: string | null = null;
+    setError(null);
+    render(text, template)
+      .then((blob) => {
+        if (cancelled) return;
+        url = URL.createObjectURL(blob);
+        setPreview({ blob, url });
+      })
+      .catch((err: unknown) => {
+        console.error(err);
+        if (!cancelled) setError(err instanceof Error ? err.message : "The PDF could not be created.");
+      });
+    return () => {
+      cancelled = true;
+      // Drop the preview along with its URL so the iframe never points at a revoked blob
+      if (url) {
+        URL.revokeObjectURL(url);
+        setPreview(null);
+      }
+    };
+  }, [open, render, text, template]);
+
+  const handleDownload = () => {
+    if (!preview) return;
+    // The preview's URL is revoked when the preview is rebuilt, so the download gets its own
+    const url = URL.createObjectURL(preview.blob);
+    const link = window.document.createElement("a");
+    link.href = url;
+    link.download = fileName;
+    window.document.body.appendChild(link);
+    link.click();
+    window.document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+    toast({
+      title: "Downloaded!",
+      description: `${title} downloaded as PDF (${PDF_TEMPLATES[template].label} template)`,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[95vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Export {title} as PDF</DialogTitle>
+          <DialogDescription>Pick a template and check the preview before downloading.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <ToggleGroup
+            type="single"
+            size="sm"
+            variant="outline"
+            className="justify-start"
+            value={template}
+            onValueChange={(value) => value && setTemplate(value as PdfTemplate)}
+          >
+            {(Object.keys(PDF_TEMPLATES) as PdfTemplate[]).map((key) => (
+              <ToggleGroupItem key={key} value={key}>
+                {PDF_TEMPLATES[key].label}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+          <p className="text-xs text-muted-foreground">{PDF_TEMPLATES[template].description}</p>
+        </div>
+        <div className="relative min-h-[50vh] flex-1 rounded-md border bg-muted/40">
+          {error ? (
+            <p className="p-4 text-sm text-destructive">{error}</p>
+          ) : preview ? (
+            <iframe key={preview.url} src={preview.url} title={`${title} PDF preview`} className="h-[65vh] w-full rounded-md" />
+          ) : (
+            <div className="flex h-[50vh] items-center justify-center text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              Preparing preview…
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+          <Button onClick={handleDownload} disabled={!preview || !!error}>
+            <Download className="h-4 w-4 mr-2" />
+            Download PDF
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PdfExportDialog;
@@ -0,0 +1,230 @@
+import React from "react";
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { ResumeProfile } from "@/types";
+import {
+  EMPTY_CERTIFICATION,
+  EMPTY_EDUCATION,
+  EMPTY_EXPERIENCE,
+  EMPTY_PROJECT,
+} from "@/lib/profileApi";
+import { Plus, Trash2 } from "lucide-react";
+
+interface ProfileEditorProps {
+  value: ResumeProfile;
+  onChange: (profile: ResumeProfile) => void;
+}
+
+interface FieldProps {
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+}
+
+const Field: React.FC<FieldProps> = ({ label, value, onChange, placeholder }) => (
+  <div className="space-y-1">
+    <Label className="text-xs text-muted-foreground">{label}</Label>
+    <Input value={value} placeholder={placeholder} onChange={(e) => onChange(e.target.value)} className="h-8" />
+  </div>
+);
+
+interface LinesFieldProps {
+  label: string;
+  value: string[];
+  onChange: (value: string[]) => void;
+}
+
+// One item per line; blank lines are kept while typing and dropped when the profile is sent
+const LinesField: React.FC<LinesFieldProps> = ({ label, value, onChange }) => (
+  <div className="space-y-1">
+    <Label className="text-xs text-muted-foreground">{label} (one per line)</Label>
+    <Textarea
+      value={value.join("\n")}
+      onChange={(e) => onChange(e.target.value.split("\n"))}
+      className="min-h-20 resize-y text-sm"
+    />
+  </div>
+);
+
+interface EntryListProps<T> {
+  entries: T[];
+  empty: T;
+  addLabel: string;
+  onChange: (entries: T[]) => void;
+  children: (entry: T, update: (patch: Partial<T>) => void) => React.ReactNode;
+}
+
+// Entries of one section, each with a remove button, and a button to add a blank one
+const EntryList = <T,>({ entries, empty, addLabel, onChange, children }: EntryListProps<T>) => (
+  <div className="space-y-3">
+    {entries.map((entry, index) => (
+      <div key={index} className="relative rounded-md border p-3 pr-10 space-y-2">
+        {children(entry, (patch) => onChange(entries.map((e, i) => (i === index ? { ...e, ...patch } : e))))}
+        <Button
+          variant="ghost"
+          size="icon"
+          className="absolute right-1 top-1 h-7 w-7"
+          aria-label="Remove entry"
+          onClick={() => onChange(entries.filter((_e, i) => i !== index))}
+        >
+          <Trash2 className="h-3 w-3" />
+        </Button>
+      </div>
+    ))}
+    <Button variant="outline" size="sm" onClick={() => onChange([...entries, empty])}>
+      <Plus className="h-3 w-3 mr-2" />
+      {addLabel}
+    </Button>
+  </div>
+);
+
+const count = (items: unknown[]) => (items.length ? ` (${items.length})` : "");
+
+// Form for checking and correcting the structured profile before the prompts use it
+const ProfileEditor: React.FC<ProfileEditorProps> = ({ value, onChange }) => {
+  const update = (patch: Partial<ResumeProfile>) => onChange({ ...value, ...patch });
+  const updateContact = (patch: Partial<ResumeProfile["contact"]>) => update({ contact: { ...value.contact, ...patch } });
+
+  return (
+    <Accordion type="multiple" defaultValue={["contact", "experience"]} className="rounded-md border px-3">
+      <AccordionItem value="contact">
+        <AccordionTrigger className="text-sm">Contact and summary</AccordionTrigger>
+        <AccordionContent className="space-y-2">
+          <div className="grid gap-2 sm:grid-cols-2">
+            <Field label="Name" value={value.contact.name} onChange={(name) => updateContact({ name })} />
+            <Field label="Email" value={value.contact.email} onChange={(email) => updateContact({ email })} />
+            <Field label="Phone" value={value.contact.phone} onChange={(phone) => updateContact({ phone })} />
+            <Field label="Location" value={value.contact.location} onChange={(location) => updateContact({ location })} />
+          </div>
+          <LinesField label="Links" value={value.contact.links} onChange={(links) => updateContact({ links })} />
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Summary</Label>
+            <Textarea
+              value={value.summary}
+              onChange={(e) => update({ summary: e.target.value })}
+              className="min-h-20 resize-y text-sm"
+            />
+          </div>
+        </AccordionContent>
+      </AccordionItem>
+
+      <AccordionItem value="experience">
+        <AccordionTrigger className="text-sm">Experience{count(value.experience)}</AccordionTrigger>
+        <AccordionContent>
+          <EntryList
+            entries={value.experience}
+            empty={EMPTY_EXPERIENCE}
+            addLabel="Add role"
+            onChange={(experience) => update({ experience })}
+          >
+            {(entry, set) => (
+              <>
+                <div className="grid gap-2 sm:grid-cols-2">
+                  <Field label="Title" value={entry.title} onChange={(title) => set({ title })} />
+                  <Field label="Employer" value={entry.employer} onChange={(employer) => set({ employer })} />
+                </div>
+                <div className="grid gap-2 sm:grid-cols-3">
+                  <Field label="Location" value={entry.location} onChange={(location) => set({ location })} />
+                  <Field label="Start" value={entry.startDate} onChange={(startDate) => set({ startDate })} />
+                  <Field
+                    label="End"
+                    value={entry.endDate}
+                    placeholder="Present"
+                    onChange={(endDate) => set({ endDate })}
+                  />
+                </div>
+                <LinesField label="Bullets" value={entry.bullets} onChange={(bullets) => set({ bullets })} />
+              </>
+            )}
+          </EntryList>
+        </AccordionContent>
+      </AccordionItem>
+
+      <AccordionItem value="education">
+        <AccordionTrigger className="text-sm">Education{count(value.education)}</AccordionTrigger>
+        <AccordionContent>
+          <EntryList
+            entries={value.education}
+            empty={EMPTY_EDUCATION}
+            addLabel="Add education"
+            onChange={(education) => update({ education })}
+          >
+            {(entry, set) => (
+              <>
+                <Field label="Institution" value={entry.institution} onChange={(institution) => set({ institution })} />
+                <div className="grid gap-2 sm:grid-cols-2">
+                  <Field label="Degree" value={entry.degree} onChange={(degree) => set({ degree })} />
+                  <Field label="Field of study" value={entry.field} onChange={(field) => set({ field })} />
+                  <Field label="Start" value={entry.startDate} onChange={(startDate) => set({ startDate })} />
+                  <Field label="End" value={entry.endDate} onChange={(endDate) => set({ endDate })} />
+                </div>
+                <LinesField label="Details" value={entry.details} onChange={(details) => set({ details })} />
+              </>
+            )}
+          </EntryList>
+        </AccordionContent>
+      </AccordionItem>
+
+      <AccordionItem value="skills">
+        <AccordionTrigger className="text-sm">Skills{count(value.skills)}</AccordionTrigger>
+        <AccordionContent className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Skills (comma separated)</Label>
+          <Textarea
+            value={value.skills.join(",")}
+            onChange={(e) => update({ skills: e.target.value.split(",") })}
+            className="min-h-16 resize-y text-sm"
+          />
+        </AccordionContent>
+      </AccordionItem>
+
+      <AccordionItem value="projects">
+        <AccordionTrigger className="text-sm">Projects{count(value.projects)}</AccordionTrigger>
+        <AccordionContent>
+          <EntryList
+            entries={value.projects}
+            empty={EMPTY_PROJECT}
+            addLabel="Add project"
+            onChange={(projects) => update({ projects })}
+          >
+            {(entry, set) => (
+              <>
+                <div className="grid gap-2 sm:grid-cols-2">
+                  <Field label="Name" value={entry.name} onChange={(name) => set({ name })} />
+                  <Field label="Link" value={entry.link} onChange={(link) => set({ link })} />
+                </div>
+                <Field label="Description" value={entry.description} onChange={(description) => set({ description })} />
+                <LinesField label="Bullets" value={entry.bullets} onChange={(bullets) => set({ bullets })} />
+              </>
+            )}
+          </EntryList>
+        </AccordionContent>
+      </AccordionItem>
+
+      <AccordionItem value="certifications" className="border-b-0">
+        <AccordionTrigger className="text-sm">Certifications{count(value.certifications)}</AccordionTrigger>
+        <AccordionContent>
+          <EntryList
+            entries={value.certifications}
+            empty={EMPTY_CERTIFICATION}
+            addLabel="Add certification"
+            onChange={(certifications) => update({ certifications })}
+          >
+            {(entry, set) => (
+              <div className="grid gap-2 sm:grid-cols-3">
+                <Field label="Name" value={entry.name} onChange={(name) => set({ name })} />
+                <Field label="Issuer" value={entry.issuer} onChange={(issuer) => set({ issuer })} />
+                <Field label="Date" value={entry.date} onChange={(date) => set({ date })} />
+              </div>
+            )}
+          </EntryList>
+        </AccordionContent>
+      </AccordionItem>
+    </Accordion>
+  );
+};
+
+export default ProfileEditor;
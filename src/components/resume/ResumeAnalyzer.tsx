@@ -1,125 +1,469 @@
-import React, { useRef, useState, useEffect } from "react";
+import React, { useRef, useState, useEffect, useMemo } from "react";
 import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
-import { ResumeAnalysis } from "@/types";
-import { FileText, Sparkles, Upload, Briefcase, FileEdit, Download, Mail, Check, ChevronRight } from "lucide-react";
-import * as pdfjsLib from "pdfjs-dist";
-import pdfWorker from "pdfjs-dist/build/pdf.worker.min.mjs?url";
-
-// Set up pdfjs worker for Vite
-// Import worker file directly from node_modules using Vite's ?url import
-if (typeof window !== "undefined") {
-  pdfjsLib.GlobalWorkerOptions.workerSrc = pdfWorker;
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  AnalysisJob,
+  AnalysisStep,
+  FabricationFlag,
+  KeywordMatch,
+  ParsedDocument,
+  ProfileParseMode,
+  ResumeAnalysis,
+  ResumeChange,
+  ResumeProfile,
+  ResumeVersion,
+  ResumeVersionKind,
+} from "@/types";
+import {
+  cancelAnalysisJob,
+  checkFabrication,
+  fetchAnalysisJob,
+  fetchFeedback,
+  fetchKeywordMatch,
+  startAnalysisJob,
+  streamCoverLetter,
+  streamCustomizedResume,
+} from "@/lib/resumeApi";
+import { describeError, isApiError, isLimitError } from "@/lib/api";
+import { USAGE_QUERY_KEY } from "@/lib/usageApi";
+import { ANALYSIS_JOB_STORAGE_KEY, readScoped, removeScoped, writeScoped } from "@/lib/userStorage";
+import { FORMAT_LABELS, MAX_RESUME_FILE_MB, parseDocument, RESUME_FILE_ACCEPT } from "@/lib/documentsApi";
+import { compactProfile, PARSE_MODE_LABELS, parseResumeProfile } from "@/lib/profileApi";
+import { diffResume, mergeResume } from "@/lib/resumeDiff";
+import { applyResumeChanges } from "@/lib/applyChanges";
+import { parseResumeLayout } from "@/lib/resumeText";
+import { renderCoverLetterDocx, renderResumeDocx } from "@/lib/docxExport";
+import UsageBudget from "@/components/resume/UsageBudget";
+import ExtractedTextPreview from "@/components/resume/ExtractedTextPreview";
+import ProfileEditor from "@/components/resume/ProfileEditor";
+import KeywordMatchReport from "@/components/resume/KeywordMatchReport";
+import FabricationReview from "@/components/resume/FabricationReview";
+import ResumeDiff, { DiffView } from "@/components/resume/ResumeDiff";
+import SpecificChangesList, { ChangeDraft } from "@/components/resume/SpecificChangesList";
+import PdfExportDialog, { PdfDocument } from "@/components/resume/PdfExportDialog";
+import SaveResumeDialog, { SaveResumeValues } from "@/components/resume/SaveResumeDialog";
+import { useAuth } from "@/hooks/use-auth";
+import { useJobs } from "@/contexts/JobsContext";
+import { useResumes } from "@/hooks/use-resumes";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { useQueryClient } from "@tanstack/react-query";
+import { FileText, Sparkles, Upload, Briefcase, FileEdit, Download, Mail, Check, ChevronRight, Square, RefreshCw, X, AlertCircle, ListChecks, UserRound, Target, FileDown, BookmarkPlus, Library, RotateCcw } from "lucide-react";
+
+const EMPTY_FEEDBACK: ResumeAnalysis = { strengths: [], improvements: [], tailoring: [] };
+const PARTIAL_KEPT = "The text generated so far has been kept.";
+
+// Indexed by the number of result tabs
+const TAB_GRID_COLUMNS = ["grid-cols-1", "grid-cols-1", "grid-cols-2", "grid-cols-3", "grid-cols-4", "grid-cols-5"];
+
+const JOB_POLL_INTERVAL_MS = 1000;
+const MAX_POLL_FAILURES = 3;
+// Pause after the last edit before the rule-based checks (keyword match, fabrication check) run again
+const RECHECK_DELAY_MS = 500;
+
+const STEP_LABELS: Record<AnalysisStep, string> = {
+  feedback: "Feedback",
+  customize: "Tailor Resume",
+  changes: "Suggest Changes",
+  coverLetter: "Cover Letter",
+};
+
+type ProgressState = "done" | "current" | "running" | "failed" | "todo";
+
+type ResumeSource = "ai" | "applied";
+
+// A running analysis job and the inputs it was started with. The inputs come back with it after a reload, since the
+// diff, keyword match and fact check compare its results against them.
+interface StoredAnalysisJob {
+  jobId: string;
+  resumeText: string;
+  jobDescription: string;
+  fileName?: string;
 }
 
+// The first line of a job description, usually the role, to name a version tailored to it
+const jobTitleOf = (jobDescription: string) => {
+  const line = jobDescription.split("\n").find((candidate) => candidate.trim())?.trim() ?? "";
+  return line.length > 60 ? `${line.slice(0, 60)}…` : line || "tailored";
+};
+
 const ResumeAnalyzer: React.FC = () => {
   const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { user, isLoading: isAuthLoading } = useAuth();
   const [resumeText, setResumeText] = useState<string>("");
   const [jobDescription, setJobDescription] = useState<string>("");
-  const [isAnalyzing, setIsAnalyzing] = useState<boolean>(false);
+  const [analysisJobId, setAnalysisJobId] = useState<string | null>(null);
+  const [analysisJob, setAnalysisJob] = useState<AnalysisJob | null>(null);
+  const [isStartingAnalysis, setIsStartingAnalysis] = useState<boolean>(false);
   const [isGeneratingCoverLetter, setIsGeneratingCoverLetter] = useState<boolean>(false);
+  // A rewrite of the customized resume streaming in over SSE, outside the analysis job
+  const [isRewritingResume, setIsRewritingResume] = useState<boolean>(false);
+  const [isCheckingResume, setIsCheckingResume] = useState<boolean>(false);
   const [analysis, setAnalysis] = useState<ResumeAnalysis | null>(null);
   const [uploadedFile, setUploadedFile] = useState<File | null>(null);
   const [isDragging, setIsDragging] = useState<boolean>(false);
-  const [isProcessingPDF, setIsProcessingPDF] = useState<boolean>(false);
+  const [isProcessingFile, setIsProcessingFile] = useState<boolean>(false);
+  // What the server extracted from the uploaded file, shown under the dropzone
+  const [parsedDocument, setParsedDocument] = useState<ParsedDocument | null>(null);
+  // Structured profile the user reviewed; sent with every request so the prompts use it as the resume's facts
+  const [profile, setProfile] = useState<{ value: ResumeProfile; mode: ProfileParseMode } | null>(null);
+  const [isParsingProfile, setIsParsingProfile] = useState<boolean>(false);
+  // Keyword match of the uploaded resume and, once there is one, the customized resume
+  const [keywordMatch, setKeywordMatch] = useState<{ before: KeywordMatch; after: KeywordMatch | null } | null>(null);
+  const [keywordMatchRequested, setKeywordMatchRequested] = useState<boolean>(false);
+  const [isMatchingKeywords, setIsMatchingKeywords] = useState<boolean>(false);
+  // What the customized resume says that the original does not back up, and the flags the user chose to keep
+  const [fabricationFlags, setFabricationFlags] = useState<FabricationFlag[] | null>(null);
+  const [keptFlags, setKeptFlags] = useState<string[]>([]);
+  // Changes of the customized resume the user rejected (by hunk key), and how the customized tab shows it
+  const [rejectedHunks, setRejectedHunks] = useState<string[]>([]);
+  const [resumeView, setResumeView] = useState<"final" | DiffView>("final");
+  // Selection and edits for each suggested change, keyed by changeKey; changes without an entry are selected as proposed
+  const [changeDrafts, setChangeDrafts] = useState<Record<string, ChangeDraft>>({});
+  // Why the last "Apply selected" could not place a change, keyed by changeKey
+  const [unplacedChanges, setUnplacedChanges] = useState<Record<string, string>>({});
+  // The resume built by "Apply selected", kept next to the AI's customized resume, and which of the two is shown
+  const [appliedResume, setAppliedResume] = useState<string | null>(null);
+  const [resumeSource, setResumeSource] = useState<ResumeSource>("ai");
+  // Which document the PDF export dialog is open for
+  const [pdfExport, setPdfExport] = useState<PdfDocument | null>(null);
+  // Which kind of resume the save-to-library dialog is open for
+  const [savingResume, setSavingResume] = useState<ResumeVersionKind | null>(null);
   const [activeTab, setActiveTab] = useState<string>("coverLetter");
+  // Which results the server answered from its cache, so the user can ask for a fresh generation
+  const [cachedResults, setCachedResults] = useState<{ coverLetter: boolean; resume: boolean }>({
+    coverLetter: false,
+    resume: false,
+  });
   const fileInputRef = useRef<HTMLInputElement>(null);
   const resultsRef = useRef<HTMLDivElement>(null);
 
-  // Sync active tab when analysis changes - prioritize resume content over cover letter
+  const coverLetterAbortRef = useRef<AbortController | null>(null);
+  const resumeAbortRef = useRef<AbortController | null>(null);
+  const isAnalyzing = isStartingAnalysis || analysisJobId !== null;
+  // Set once the server reports that it has no AI provider; the generate buttons stay off until a reload
+  const [aiUnavailable, setAiUnavailable] = useState<boolean>(false);
+  const requestProfile = profile ? compactProfile(profile.value) : undefined;
+  const { versions, addVersion } = useResumes();
+  const { jobs, updateJob } = useJobs();
+  // The uploaded resume's entry in the library, if it was saved before
+  const savedBase = versions.find((version) => version.kind === "base" && version.text === resumeText);
+  const resumeName = uploadedFile?.name.replace(/\.[^.]+$/, "") || "My resume";
+
+  // Toast for a failed generation request, plus the follow-up each error code needs
+  const reportFailure = (err: unknown, fallbackTitle: string, suffix = "") => {
+    console.error(err);
+    const { title, description } = describeError(err, fallbackTitle);
+    toast({ title, description: suffix ? `${description} ${suffix}` : description, variant: "destructive" });
+    if (isApiError(err, "OPENAI_NOT_CONFIGURED")) setAiUnavailable(true);
+    if (isLimitError(err)) queryClient.invalidateQueries({ queryKey: USAGE_QUERY_KEY });
+  };
+
+  // Stop any in-flight stream when leaving the page (analysis jobs keep running on the server)
+  useEffect(() => {
+    return () => {
+      coverLetterAbortRef.current?.abort();
+      resumeAbortRef.current?.abort();
+    };
+  }, []);
+
+  // Pick up the analysis job this user left running, once the session is known. Each user follows only their own,
+  // and results on screen from before a login or logout are dropped.
   useEffect(() => {
-    if (analysis) {
-      // When analysis is set (e.g., from "Edit Resume"), show resume-related tabs first
-      if (analysis.specificChanges) {
-        setActiveTab("changes");
-      } else if (analysis.customizedResume) {
-        setActiveTab("customized");
-      } else if (analysis.coverLetter) {
-        setActiveTab("coverLetter");
+    if (isAuthLoading) return;
+    setAnalysis(null);
+    setAppliedResume(null);
+    setResumeSource("ai");
+    setRejectedHunks([]);
+    setAnalysisJob(null);
+    const stored = readScoped<StoredAnalysisJob>(ANALYSIS_JOB_STORAGE_KEY, user);
+    if (stored?.jobId) {
+      setResumeText(stored.resumeText);
+      setJobDescription(stored.jobDescription);
+      setUploadedFile(new File([stored.resumeText], stored.fileName || "resume.txt", { type: "text/plain" }));
+      setParsedDocument(null);
+      setProfile(null);
+    }
+    setAnalysisJobId(stored?.jobId ?? null);
+  }, [user, isAuthLoading]);
+
+  // Follow the background analysis job until it finishes, merging partial results as they arrive
+  useEffect(() => {
+    if (!analysisJobId) return;
+
+    let stopped = false;
+    let timer: number | undefined;
+    let revealed = false;
+    let failures = 0;
+
+    const done = () => {
+      removeScoped(ANALYSIS_JOB_STORAGE_KEY, user);
+      setAnalysisJobId(null);
+      queryClient.invalidateQueries({ queryKey: USAGE_QUERY_KEY });
+    };
+
+    const poll = async () => {
+      let job: AnalysisJob;
+      try {
+        job = await fetchAnalysisJob(analysisJobId);
+      } catch (err: unknown) {
+        if (stopped) return;
+        failures += 1;
+        if (failures < MAX_POLL_FAILURES) {
+          timer = window.setTimeout(poll, JOB_POLL_INTERVAL_MS * 2 * failures);
+          return;
+        }
+        console.error(err);
+        toast({
+          title: "Lost track of the analysis",
+          description: err instanceof Error ? err.message : "Please try again.",
+          variant: "destructive",
+        });
+        done();
+        return;
+      }
+      if (stopped) return;
+      failures = 0;
+      setAnalysisJob(job);
+
+      const { result } = job;
+      if (result.customizedResume || result.specificChanges || result.coverLetter) {
+        setAnalysis((prev) => ({
+          ...(prev || EMPTY_FEEDBACK),
+          ...result,
+          promptVersions: { ...prev?.promptVersions, ...result.promptVersions },
+        }));
+        if (!revealed) {
+          revealed = true;
+          setActiveTab(result.customizedResume ? "customized" : result.specificChanges ? "changes" : "coverLetter");
+          setTimeout(() => {
+            resultsRef.current?.scrollIntoView({ behavior: "smooth" });
+          }, 100);
+        }
+      }
+
+      if (job.status === "queued" || job.status === "running") {
+        timer = window.setTimeout(poll, JOB_POLL_INTERVAL_MS);
+        return;
       }
-      
-      // Auto-scroll to results after analysis completes
-      setTimeout(() => {
-        resultsRef.current?.scrollIntoView({ behavior: "smooth" });
-      }, 100);
+
+      done();
+      if (job.status === "completed") {
+        const cached = job.steps.every((step) => step.cached);
+        setCachedResults((prev) => ({ ...prev, resume: cached }));
+        toast({
+          title: cached ? "Analysis Loaded" : "Analysis Complete! ✨",
+          description: cached
+            ? "These results were generated earlier for the same resume and job description."
+            : "Your resume has been analyzed with AI.",
+        });
+      } else if (job.status === "cancelled") {
+        toast({
+          title: "Resume editing stopped",
+          description: revealed ? PARTIAL_KEPT : "Generation was cancelled.",
+        });
+      } else {
+        toast({
+          title: "Analysis failed",
+          description: revealed ? `${job.error} ${PARTIAL_KEPT}` : job.error || "Please try again.",
+          variant: "destructive",
+        });
+      }
+    };
+
+    poll();
+    return () => {
+      stopped = true;
+      window.clearTimeout(timer);
+    };
+  }, [analysisJobId, user, toast, queryClient]);
+
+  // The keyword match is rule-based and cheap, so once asked for (or once there is a customized resume to compare)
+  // it follows edits to the resume and job description
+  // The customized resume on show: the AI's, or the version built from the selected changes
+  const shownResume =
+    resumeSource === "applied" && appliedResume !== null ? appliedResume : analysis?.customizedResume;
+  const customizedResume = isAnalyzing || isRewritingResume ? undefined : shownResume;
+
+  // The final tailored resume: the customized text with every rejected change put back to the original
+  const diffBlocks = useMemo(
+    () => (shownResume ? diffResume(resumeText, shownResume) : []),
+    [resumeText, shownResume],
+  );
+  const tailoredResume = useMemo(() => mergeResume(diffBlocks, new Set(rejectedHunks)), [diffBlocks, rejectedHunks]);
+  const finalResume = customizedResume ? tailoredResume : undefined;
+
+  useEffect(() => {
+    if (!keywordMatchRequested && !finalResume) return;
+    if (!resumeText.trim() || !jobDescription.trim()) {
+      setKeywordMatch(null);
+      setIsMatchingKeywords(false);
+      return;
     }
-  }, [analysis]);
 
-  const handleFileUpload = async (file: File) => {
-    // Only accept PDF files
-    if (file.type !== "application/pdf" && !file.name.toLowerCase().endsWith(".pdf")) {
-      toast({
-        title: "Invalid file type",
-        description: "Please upload a PDF file.",
-        variant: "destructive",
-      });
+    let stale = false;
+    const timer = window.setTimeout(async () => {
+      setIsMatchingKeywords(true);
+      try {
+        const [before, after] = await Promise.all([
+          fetchKeywordMatch(resumeText, jobDescription),
+          finalResume ? fetchKeywordMatch(finalResume, jobDescription) : null,
+        ]);
+        if (!stale) setKeywordMatch({ before, after });
+      } catch (err: unknown) {
+        if (stale) return;
+        console.error(err);
+        const { title, description } = describeError(err, "Keyword match failed");
+        toast({ title, description, variant: "destructive" });
+      } finally {
+        if (!stale) setIsMatchingKeywords(false);
+      }
+    }, RECHECK_DELAY_MS);
+    return () => {
+      stale = true;
+      window.clearTimeout(timer);
+    };
+  }, [keywordMatchRequested, finalResume, resumeText, jobDescription, toast]);
+  const showKeywordMatch = keywordMatchRequested || keywordMatch !== null;
+
+  // Checked again after every edit or revert; flags the user kept are matched by their text, so they stay hidden
+  const reviewedProfile = profile?.value;
+  useEffect(() => {
+    if (!customizedResume || !resumeText.trim()) {
+      setFabricationFlags(null);
       return;
     }
 
-    if (file.size > 5 * 1024 * 1024) {
+    let stale = false;
+    const timer = window.setTimeout(async () => {
+      try {
+        const flags = await checkFabrication(
+          resumeText,
+          customizedResume,
+          reviewedProfile && compactProfile(reviewedProfile),
+        );
+        if (!stale) setFabricationFlags(flags);
+      } catch (err: unknown) {
+        if (stale) return;
+        console.error(err);
+        const { title, description } = describeError(err, "Fact check failed");
+        toast({ title, description, variant: "destructive" });
+      }
+    }, RECHECK_DELAY_MS);
+    return () => {
+      stale = true;
+      window.clearTimeout(timer);
+    };
+  }, [customizedResume, resumeText, reviewedProfile, toast]);
+  const flagKey = (flag: FabricationFlag) => `${flag.kind}:${flag.text}`;
+  const openFlags = fabricationFlags?.filter((flag) => !keptFlags.includes(flagKey(flag))) ?? null;
+
+  // Switch to a results tab and bring the results card into view
+  const revealResults = (tab: string) => {
+    setActiveTab(tab);
+    setTimeout(() => {
+      resultsRef.current?.scrollIntoView({ behavior: "smooth" });
+    }, 100);
+  };
+
+  const handleFileUpload = async (file: File) => {
+    if (file.size > MAX_RESUME_FILE_MB * 1024 * 1024) {
       toast({
         title: "File too large",
-        description: "Please upload a file smaller than 5MB.",
+        description: `Please upload a file smaller than ${MAX_RESUME_FILE_MB}MB.`,
         variant: "destructive",
       });
       return;
     }
 
     setUploadedFile(file);
-    setIsProcessingPDF(true);
+    setParsedDocument(null);
+    setProfile(null);
+    setIsProcessingFile(true);
 
     try {
-      // Read PDF file and extract text
-      const arrayBuffer = await file.arrayBuffer();
-      const pdf = await pdfjsLib.getDocument({
-        data: arrayBuffer,
-        useWorkerFetch: false,
-        isEvalSupported: false,
-        useSystemFonts: true
-      }).promise;
-
-      let extractedText = "";
-
-      // Extract text from all pages
-      for (let i = 1; i <= pdf.numPages; i++) {
-        const page = await pdf.getPage(i);
-        const textContent = await page.getTextContent();
-        const pageText = textContent.items
-          .map((item) => {
-            if ('str' in item && typeof item.str === 'string') {
-              return item.str;
-            }
-            return '';
-          })
-          .join(" ");
-        extractedText += pageText + "\n";
-      }
-
-      setResumeText(extractedText.trim());
+      // The server detects the format and extracts the text
+      const document = await parseDocument(file);
+      setParsedDocument(document);
+      setResumeText(document.text);
 
       toast({
-        title: "PDF uploaded successfully",
-        description: `${file.name} has been uploaded and processed.`,
-      });
-    } catch (error) {
-      console.error("Error parsing PDF:", error);
-      const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
-      toast({
-        title: "Error reading PDF",
-        description: `Failed to extract text from the PDF: ${errorMessage}. Please try again.`,
-        variant: "destructive",
+        title: "Resume uploaded successfully",
+        description: `${file.name} was read with the ${FORMAT_LABELS[document.format]} parser.`,
       });
+    } catch (err: unknown) {
+      console.error("Error parsing resume:", err);
+      const { title, description } = describeError(err, "Error reading file");
+      toast({ title, description, variant: "destructive" });
       setUploadedFile(null);
       setResumeText("");
     } finally {
-      setIsProcessingPDF(false);
+      setIsProcessingFile(false);
     }
   };
 
+  // A saved resume goes through the same path as an uploaded file
+  const handleLoadSaved = (id: string) => {
+    const version = versions.find((candidate) => candidate.id === id);
+    if (!version) return;
+    handleFileUpload(new File([version.text], `${version.name}.txt`, { type: "text/plain" }));
+  };
+
+  const handleSaveResume = async ({ name, baseName, jobId }: SaveResumeValues) => {
+    const now = Date.now();
+    if (savingResume === "base") {
+      addVersion({ id: `resume-${now}`, name, kind: "base", text: resumeText, createdAt: new Date(now).toISOString() });
+      toast({ title: "Saved to library", description: `${name} was added to your resume library.` });
+      return;
+    }
+
+    let parentId = savedBase?.id;
+    if (!parentId) {
+      parentId = `resume-${now}`;
+      addVersion({
+        id: parentId,
+        name: baseName || resumeName,
+        kind: "base",
+        text: resumeText,
+        createdAt: new Date(now).toISOString(),
+      });
+    }
+    // The score of the text being saved, not of whatever the last keyword check ran on
+    let atsScore = keywordMatch?.after?.score ?? null;
+    try {
+      atsScore = (await fetchKeywordMatch(tailoredResume, jobDescription)).score;
+    } catch (err: unknown) {
+      console.error(err);
+    }
+    const version: ResumeVersion = {
+      id: `resume-${now + 1}`,
+      name,
+      kind: "tailored",
+      parentId,
+      text: tailoredResume,
+      jobDescription: jobDescription.trim() || undefined,
+      atsScore,
+      createdAt: new Date(now + 1).toISOString(),
+    };
+    addVersion(version);
+
+    const job = jobs.find((candidate) => candidate.id === jobId);
+    if (job) updateJob({ ...job, resumeVersionId: version.id, lastUpdated: new Date().toISOString() });
+    toast({
+      title: "Saved to library",
+      description: job
+        ? `${name} was saved and linked to ${job.companyName}.`
+        : `${name} was added to your resume library.`,
+    });
+  };
+
   const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault();
     setIsDragging(true);
@@ -148,9 +492,9 @@ const ResumeAnalyzer: React.FC = () => {
   };
 
   const handleDownloadResume = () => {
-    if (!analysis?.customizedResume) return;
+    if (!shownResume) return;
 
-    const blob = new Blob([analysis.customizedResume], { type: 'text/plain' });
+    const blob = new Blob([tailoredResume], { type: 'text/plain' });
     const url = URL.createObjectURL(blob);
     const link = document.createElement('a');
     link.href = url;
@@ -166,22 +510,54 @@ const ResumeAnalyzer: React.FC = () => {
     });
   };
 
-  // Calculate current step
-  const getCurrentStep = (): number => {
-    if (analysis) return 3; // Step 3: Results shown
-    if (uploadedFile && jobDescription.trim()) return 2; // Step 2: Both ready, can analyze (or analyzing)
-    if (uploadedFile) return 1; // Step 1: File uploaded, still on step 1
-    return 1; // Step 1: Starting - need to upload file
-  };
+  // Word files are built in the browser, from the same layout as the formatted view
+  const handleDownloadWord = async (kind: PdfDocument) => {
+    const text = kind === "resume" ? shownResume && tailoredResume : analysis?.coverLetter;
+    if (!text) return;
+
+    try {
+      const blob = await (kind === "resume" ? renderResumeDocx : renderCoverLetterDocx)(text);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = kind === "resume" ? 'customized-resume.docx' : 'cover-letter.docx';
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
 
-  // Check if step is completed
-  const isStepCompleted = (step: number): boolean => {
-    if (step === 1) return uploadedFile !== null;
-    if (step === 2) return analysis !== null;
-    return false;
+      toast({
+        title: "Downloaded!",
+        description: `${kind === "resume" ? "Resume" : "Cover letter"} downloaded as Word document`,
+      });
+    } catch (err: unknown) {
+      reportFailure(err, "Could not create the Word document");
+    }
   };
 
-  const currentStep = getCurrentStep();
+  // Progress shown above the form: the two input steps, then the analysis job's own steps
+  const progressSteps: { label: string; state: ProgressState }[] = [
+    { label: "Upload Resume", state: uploadedFile ? "done" : "current" },
+    {
+      label: "Job Description",
+      state: analysis ? "done" : uploadedFile && jobDescription.trim() ? "current" : "todo",
+    },
+    ...(analysisJob
+      ? analysisJob.steps.map((step): { label: string; state: ProgressState } => ({
+          label: STEP_LABELS[step.name],
+          state:
+            step.status === "completed"
+              ? "done"
+              : step.status === "running"
+                ? "running"
+                : step.status === "pending"
+                  ? "todo"
+                  : "failed",
+        }))
+      : [{ label: "Results", state: (analysis ? "current" : "todo") as ProgressState }]),
+  ];
+  const finishedSteps = progressSteps.filter((step) => step.state === "done").length;
+  const currentStep = Math.min(finishedSteps + 1, progressSteps.length);
 
   const handleDownloadCoverLetter = () => {
     if (!analysis?.coverLetter) return;
@@ -202,11 +578,11 @@ const ResumeAnalyzer: React.FC = () => {
     });
   };
 
-  const handleGenerateCoverLetter = async () => {
+  const handleGenerateCoverLetter = async (force = false) => {
     if (!resumeText.trim()) {
       toast({
         title: "Error",
-        description: "Please upload your resume PDF first.",
+        description: "Please upload your resume first.",
         variant: "destructive",
       });
       return;
@@ -221,87 +597,123 @@ const ResumeAnalyzer: React.FC = () => {
       return;
     }
 
+    const controller = new AbortController();
+    coverLetterAbortRef.current = controller;
+    let revealed = false;
+
     try {
       setIsGeneratingCoverLetter(true);
 
-      const resp = await fetch("/api/analyze-resume", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
+      const { cached, promptVersions } = await streamCoverLetter(
+        {
           resumeText,
           jobDescription: jobDescription.trim(),
-        }),
-      });
+          profile: requestProfile,
+          force,
+        },
+        {
+          signal: controller.signal,
+          onText: (coverLetter) => {
+            setAnalysis((prev) => ({ ...(prev || EMPTY_FEEDBACK), coverLetter }));
+            if (!revealed) {
+              revealed = true;
+              revealResults("coverLetter");
+            }
+          },
+        },
+      );
 
-      if (!resp.ok) {
-        let message = `Server error: ${resp.status}`;
-        try {
-          const maybeErr = (await resp.json()) as unknown;
-          const err = maybeErr as { error?: string };
-          if (err?.error) message = err.error;
-        } catch {
-          /* ignore parse errors */
-        }
-        throw new Error(message);
-      }
+      setCachedResults((prev) => ({ ...prev, coverLetter: cached }));
+      setAnalysis((prev) =>
+        prev ? { ...prev, promptVersions: { ...prev.promptVersions, ...promptVersions } } : prev,
+      );
 
-      const raw = (await resp.json()) as unknown;
-      const rawAnalysis = raw as {
-        coverLetter?: unknown;
-        strengths?: unknown;
-        improvements?: unknown;
-        tailoring?: unknown;
-      };
+      toast({
+        title: cached ? "Cover Letter Loaded" : "Cover Letter Generated! ✨",
+        description: cached
+          ? "This cover letter was generated earlier for the same resume and job description."
+          : "Your personalized cover letter is ready.",
+      });
+    } catch (err: unknown) {
+      if (controller.signal.aborted) {
+        toast({
+          title: "Cover letter stopped",
+          description: revealed ? PARTIAL_KEPT : "Generation was cancelled.",
+        });
+        return;
+      }
+      reportFailure(err, "Cover letter generation failed", revealed ? PARTIAL_KEPT : "");
+    } finally {
+      coverLetterAbortRef.current = null;
+      setIsGeneratingCoverLetter(false);
+      queryClient.invalidateQueries({ queryKey: USAGE_QUERY_KEY });
+    }
+  };
 
-      console.log("Cover letter response:", rawAnalysis);
+  // Streams a new AI version of the customized resume; the suggested changes and an applied version are kept
+  const handleRewriteResume = async (force = false) => {
+    if (!resumeText.trim() || !jobDescription.trim()) return;
 
-      if (rawAnalysis.coverLetter && typeof rawAnalysis.coverLetter === "string") {
-        const coverLetterText = rawAnalysis.coverLetter as string;
+    const controller = new AbortController();
+    resumeAbortRef.current = controller;
+    let revealed = false;
 
-        // Check if the cover letter is an error message
-        if (coverLetterText.includes("generation failed") || coverLetterText.includes("empty response")) {
-          throw new Error(coverLetterText);
-        }
+    try {
+      setIsRewritingResume(true);
+      setResumeSource("ai");
+      setRejectedHunks([]);
 
-        setAnalysis((prev) => ({
-          ...prev || {
-            strengths: Array.isArray(rawAnalysis.strengths) ? (rawAnalysis.strengths as string[]) : [],
-            improvements: Array.isArray(rawAnalysis.improvements) ? (rawAnalysis.improvements as string[]) : [],
-            tailoring: Array.isArray(rawAnalysis.tailoring) ? (rawAnalysis.tailoring as string[]) : [],
+      const { cached, promptVersions } = await streamCustomizedResume(
+        {
+          resumeText,
+          jobDescription: jobDescription.trim(),
+          profile: requestProfile,
+          force,
+        },
+        {
+          signal: controller.signal,
+          onText: (customizedResume) => {
+            setAnalysis((prev) => ({ ...(prev || EMPTY_FEEDBACK), customizedResume }));
+            if (!revealed) {
+              revealed = true;
+              revealResults("customized");
+            }
           },
-          coverLetter: coverLetterText,
-        }));
+        },
+      );
 
-        // Set active tab to cover letter
-        setActiveTab("coverLetter");
+      setCachedResults((prev) => ({ ...prev, resume: cached }));
+      setAnalysis((prev) =>
+        prev ? { ...prev, promptVersions: { ...prev.promptVersions, ...promptVersions } } : prev,
+      );
 
+      toast({
+        title: cached ? "Resume Loaded" : "Resume Rewritten! ✨",
+        description: cached
+          ? "This resume was generated earlier for the same resume and job description."
+          : "Your customized resume is ready.",
+      });
+    } catch (err: unknown) {
+      if (controller.signal.aborted) {
         toast({
-          title: "Cover Letter Generated! ✨",
-          description: "Your personalized cover letter is ready.",
+          title: "Resume rewrite stopped",
+          description: revealed ? PARTIAL_KEPT : "Generation was cancelled.",
         });
-      } else {
-        console.error("Cover letter not found in response:", rawAnalysis);
-        throw new Error("Cover letter was not generated. The server response did not include a cover letter. Please check the server logs or try again.");
+        return;
       }
-    } catch (err: unknown) {
-      const message = err instanceof Error ? err.message : "Please try again.";
-      console.error(err);
-      toast({
-        title: "Cover letter generation failed",
-        description: message,
-        variant: "destructive",
-      });
+      reportFailure(err, "Resume rewrite failed", revealed ? PARTIAL_KEPT : "");
     } finally {
-      setIsGeneratingCoverLetter(false);
+      resumeAbortRef.current = null;
+      setIsRewritingResume(false);
+      queryClient.invalidateQueries({ queryKey: USAGE_QUERY_KEY });
     }
   };
 
-
-  const handleAnalyze = async () => {
+  const handleAnalyze = async (force = false) => {
     if (!uploadedFile || !resumeText.trim()) {
       toast({
         title: "Error",
-        description: "Please upload your resume PDF.",
+        description: "Please upload your resume.",
         variant: "destructive",
       });
       return;
@@ -317,77 +729,183 @@ const ResumeAnalyzer: React.FC = () => {
     }
 
     try {
-      setIsAnalyzing(true);
-
-      const resp = await fetch("/api/analyze-resume", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
+      setIsStartingAnalysis(true);
+      setAnalysisJob(null);
+      setAppliedResume(null);
+      setResumeSource("ai");
+      // Hunk keys come from their text, so old rejections would carry over to matching hunks of the new diff
+      setRejectedHunks([]);
+
+      // Only request the resume edits; the cover letter has its own button
+      const job = await startAnalysisJob(
+        {
           resumeText,
           jobDescription: jobDescription.trim(),
-        }),
+          profile: requestProfile,
+          force,
+        },
+        ["customize", "changes"],
+      );
+
+      const stored: StoredAnalysisJob = {
+        jobId: job.id,
+        resumeText,
+        jobDescription: jobDescription.trim(),
+        fileName: uploadedFile?.name,
+      };
+      writeScoped(ANALYSIS_JOB_STORAGE_KEY, user, stored);
+      setAnalysisJob(job);
+      setAnalysisJobId(job.id);
+    } catch (err: unknown) {
+      reportFailure(err, "Analysis failed");
+    } finally {
+      setIsStartingAnalysis(false);
+    }
+  };
+
+  // Feedback only; without an AI provider the server answers with its rule-based check
+  const handleBasicCheck = async () => {
+    if (!resumeText.trim()) {
+      toast({
+        title: "Error",
+        description: "Please upload your resume.",
+        variant: "destructive",
       });
+      return;
+    }
 
-      if (!resp.ok) {
-        let message = `Server error: ${resp.status}`;
-        try {
-          const maybeErr = (await resp.json()) as unknown;
-          const err = maybeErr as { error?: string };
-          if (err?.error) message = err.error;
-        } catch {
-          /* ignore parse errors */
-        }
-        throw new Error(message);
-      }
+    try {
+      setIsCheckingResume(true);
+      const { value } = await fetchFeedback({
+        resumeText,
+        jobDescription: jobDescription.trim(),
+        profile: requestProfile,
+      });
+      setAnalysis((prev) => ({ ...(prev || EMPTY_FEEDBACK), ...value }));
+      revealResults("feedback");
+      toast({
+        title: value.source === "heuristic" ? "Basic Check Complete" : "Feedback Ready",
+        description:
+          value.source === "heuristic"
+            ? "This feedback comes from a rule-based check, not from AI."
+            : "Your resume has been reviewed with AI.",
+      });
+    } catch (err: unknown) {
+      reportFailure(err, "Resume check failed");
+    } finally {
+      setIsCheckingResume(false);
+    }
+  };
 
-      // Safely coerce to our expected shape
-      const raw = (await resp.json()) as unknown;
-      const rawAnalysis = raw as {
-        strengths?: unknown;
-        improvements?: unknown;
-        tailoring?: unknown;
-        customizedResume?: unknown;
-        specificChanges?: unknown;
-        coverLetter?: unknown;
-      };
+  // Replaces the flagged line with its original; the flags after it move with the text until the next check
+  const handleRevertFlag = (flag: FabricationFlag) => {
+    const text = shownResume;
+    if (!text || text.slice(flag.start, flag.end) !== flag.text) return;
+    const { start, end, text: replacement } = flag.revert;
+    const shift = replacement.length - (end - start);
+    const moved = (offset: number) => (offset >= end ? offset + shift : offset);
+    const reverted = text.slice(0, start) + replacement + text.slice(end);
+    if (resumeSource === "applied" && appliedResume !== null) {
+      setAppliedResume(reverted);
+    } else {
+      setAnalysis((prev) => prev && { ...prev, customizedResume: reverted });
+    }
+    setFabricationFlags((prev) =>
+      (prev ?? [])
+        .filter((other) => other.end <= start || other.start >= end)
+        .map((other) => ({
+          ...other,
+          start: moved(other.start),
+          end: moved(other.end),
+          revert: { ...other.revert, start: moved(other.revert.start), end: moved(other.revert.end) },
+        })),
+    );
+  };
 
-      const sane: ResumeAnalysis = {
-        strengths: Array.isArray(rawAnalysis.strengths)
-          ? (rawAnalysis.strengths as string[])
-          : [],
-        improvements: Array.isArray(rawAnalysis.improvements)
-          ? (rawAnalysis.improvements as string[])
-          : [],
-        tailoring: Array.isArray(rawAnalysis.tailoring)
-          ? (rawAnalysis.tailoring as string[])
-          : [],
-        customizedResume: typeof rawAnalysis.customizedResume === "string"
-          ? rawAnalysis.customizedResume
-          : undefined,
-        specificChanges: typeof rawAnalysis.specificChanges === "string"
-          ? rawAnalysis.specificChanges
-          : undefined,
-        coverLetter: typeof rawAnalysis.coverLetter === "string"
-          ? rawAnalysis.coverLetter
-          : undefined,
-      };
+  const handleDecideHunks = (keys: string[], accepted: boolean) => {
+    setRejectedHunks((prev) =>
+      accepted ? prev.filter((key) => !keys.includes(key)) : [...prev, ...keys.filter((key) => !prev.includes(key))],
+    );
+  };
 
-      setAnalysis(sane);
+  const changeKey = (change: ResumeChange) => `${change.section}\u0000${change.current}\u0000${change.proposed}`;
+  const changeDraft = (change: ResumeChange): ChangeDraft =>
+    changeDrafts[changeKey(change)] ?? { selected: true, proposed: change.proposed };
+
+  // Builds a new customized resume from the original with the selected changes, as edited, applied
+  const handleApplyChanges = () => {
+    const selected = (analysis?.specificChanges ?? []).filter((change) => changeDraft(change).selected);
+    if (!selected.length) return;
+    const result = applyResumeChanges(
+      resumeText,
+      selected.map((change) => ({ section: change.section, current: change.current, proposed: changeDraft(change).proposed })),
+    );
+    setUnplacedChanges(
+      Object.fromEntries(result.unplaced.map(({ index, reason }) => [changeKey(selected[index]), reason])),
+    );
+    if (!result.applied.length) {
+      toast({
+        title: "No changes applied",
+        description: "None of the selected changes could be placed in your resume. See the notes under each change.",
+        variant: "destructive",
+      });
+      return;
+    }
+    setAppliedResume(result.text);
+    setResumeSource("applied");
+    setRejectedHunks([]);
+    setResumeView("inline");
+    // Stay on the list when something needs attention there
+    if (!result.unplaced.length) revealResults("customized");
+    toast({
+      title: "New resume version ready",
+      description: [
+        `${result.applied.length} of ${selected.length} selected changes applied to your original resume.`,
+        result.unplaced.length ? `${result.unplaced.length} could not be placed; see the notes under them.` : "",
+        analysis?.customizedResume ? "The AI's customized resume is kept; switch between the two above the resume." : "",
+      ]
+        .filter(Boolean)
+        .join(" "),
+    });
+  };
 
+  const handleCheckKeywords = () => {
+    setKeywordMatchRequested(true);
+    setAnalysis((prev) => prev || EMPTY_FEEDBACK);
+    revealResults("keywords");
+  };
+
+  const handleBuildProfile = async (mode: ProfileParseMode) => {
+    try {
+      setIsParsingProfile(true);
+      const parsed = await parseResumeProfile(resumeText, mode);
+      setProfile({ value: parsed.profile, mode: parsed.mode });
       toast({
-        title: "Analysis Complete! ✨",
-        description: "Your resume has been analyzed with AI.",
+        title: "Profile ready",
+        description:
+          parsed.mode === mode
+            ? "Check the fields below and correct anything that was read wrongly."
+            : "AI is not available, so the profile was built with the rule-based parser. Please check it carefully.",
       });
     } catch (err: unknown) {
-      const message = err instanceof Error ? err.message : "Please try again.";
+      reportFailure(err, "Could not build the profile");
+    } finally {
+      setIsParsingProfile(false);
+    }
+  };
+
+  const handleStopAnalysis = async () => {
+    if (!analysisJobId) return;
+    try {
+      // The polling loop reports the cancellation once the server confirms it
+      await cancelAnalysisJob(analysisJobId);
+    } catch (err: unknown) {
       console.error(err);
       toast({
-        title: "Analysis failed",
-        description: message,
+        title: "Could not stop the analysis",
+        description: err instanceof Error ? err.message : "Please try again.",
         variant: "destructive",
       });
-    } finally {
-      setIsAnalyzing(false);
     }
   };
 
@@ -396,64 +914,38 @@ const ResumeAnalyzer: React.FC = () => {
       {/* Step Progress Indicator */}
       <div className="bg-gradient-to-r from-primary/5 to-primary/10 rounded-lg border border-primary/20 p-3 border-b">
         <div className="flex items-center justify-center gap-2 sm:gap-4 flex-wrap">
-          {/* Step 1 */}
-          <div className={`flex items-center gap-2 ${isStepCompleted(1) || currentStep >= 1 ? 'text-primary' : 'text-muted-foreground'}`}>
-            <div className={`flex items-center justify-center w-8 h-8 rounded-full border-2 ${isStepCompleted(1)
-                ? 'bg-primary border-primary text-primary-foreground'
-                : currentStep === 1
-                  ? 'border-primary bg-primary/10 text-primary'
-                  : 'border-muted-foreground bg-background'
-              }`}>
-              {isStepCompleted(1) ? (
-                <Check className="h-4 w-4" />
-              ) : (
-                <span className="text-sm font-semibold">1</span>
-              )}
-            </div>
-            <span className={`text-sm font-medium hidden sm:inline ${isStepCompleted(1) || currentStep >= 1 ? 'text-primary' : 'text-muted-foreground'}`}>
-              Upload Resume
-            </span>
-          </div>
-
-          <ChevronRight className="h-4 w-4 text-muted-foreground" />
-
-          {/* Step 2 */}
-          <div className={`flex items-center gap-2 ${isStepCompleted(2) || currentStep >= 2 ? 'text-primary' : 'text-muted-foreground'}`}>
-            <div className={`flex items-center justify-center w-8 h-8 rounded-full border-2 ${isStepCompleted(2)
-                ? 'bg-primary border-primary text-primary-foreground'
-                : currentStep === 2
-                  ? 'border-primary bg-primary/10 text-primary'
-                  : 'border-muted-foreground bg-background'
-              }`}>
-              {isStepCompleted(2) ? (
-                <Check className="h-4 w-4" />
-              ) : (
-                <span className="text-sm font-semibold">2</span>
-              )}
-            </div>
-            <span className={`text-sm font-medium hidden sm:inline ${isStepCompleted(2) || currentStep >= 2 ? 'text-primary' : 'text-muted-foreground'}`}>
-              Job Description
-            </span>
-          </div>
-
-          <ChevronRight className="h-4 w-4 text-muted-foreground" />
-
-          {/* Step 3 */}
-          <div className={`flex items-center gap-2 ${currentStep >= 3 ? 'text-primary' : 'text-muted-foreground'}`}>
-            <div className={`flex items-center justify-center w-8 h-8 rounded-full border-2 ${currentStep === 3
-                ? 'border-primary bg-primary/10 text-primary'
-                : 'border-muted-foreground bg-background'
-              }`}>
-              <span className="text-sm font-semibold">3</span>
-            </div>
-            <span className={`text-sm font-medium hidden sm:inline ${currentStep >= 3 ? 'text-primary' : 'text-muted-foreground'}`}>
-              Results
-            </span>
-          </div>
+          {progressSteps.map((step, index) => (
+            <React.Fragment key={step.label}>
+              {index > 0 && <ChevronRight className="h-4 w-4 text-muted-foreground" />}
+              <div className={`flex items-center gap-2 ${step.state === "todo" ? 'text-muted-foreground' : step.state === "failed" ? 'text-destructive' : 'text-primary'}`}>
+                <div className={`flex items-center justify-center w-8 h-8 rounded-full border-2 ${step.state === "done"
+                    ? 'bg-primary border-primary text-primary-foreground'
+                    : step.state === "current" || step.state === "running"
+                      ? 'border-primary bg-primary/10 text-primary'
+                      : step.state === "failed"
+                        ? 'border-destructive bg-destructive/10 text-destructive'
+                        : 'border-muted-foreground bg-background'
+                  }`}>
+                  {step.state === "done" ? (
+                    <Check className="h-4 w-4" />
+                  ) : step.state === "running" ? (
+                    <div className="animate-spin rounded-full h-4 w-4 border-2 border-primary border-t-transparent" />
+                  ) : step.state === "failed" ? (
+                    <X className="h-4 w-4" />
+                  ) : (
+                    <span className="text-sm font-semibold">{index + 1}</span>
+                  )}
+                </div>
+                <span className="text-sm font-medium hidden sm:inline">
+                  {step.label}
+                </span>
+              </div>
+            </React.Fragment>
+          ))}
         </div>
         <div className="text-center mt-2">
           <span className="text-xs font-medium text-primary">
-            🪄 Step {currentStep} of 3
+            🪄 Step {currentStep} of {progressSteps.length}
           </span>
         </div>
       </div>
@@ -468,16 +960,27 @@ const ResumeAnalyzer: React.FC = () => {
             </CardTitle>
           </div>
           <p className="text-sm text-muted-foreground">
-            Upload your resume PDF and add the job description. ChatGPT will customize your resume and automatically generate a personalized cover letter based on the job description. Output is formatted text (not PDF).
+            Upload your resume and add the job description. ChatGPT will customize your resume, and can write a personalized cover letter based on the job description. Output is formatted text (not PDF).
           </p>
         </CardHeader>
 
         <CardContent className="space-y-4 pt-4">
-          {/* PDF Upload Area */}
+          {aiUnavailable && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertTitle>AI is not available</AlertTitle>
+              <AlertDescription>
+                The server has no AI provider configured, so resume editing and cover letters are turned off.
+                You can still run a basic rule-based check of your resume.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {/* Resume Upload Area */}
           <div className="space-y-2 border-b pb-4">
             <Label className="flex items-center gap-2">
               <FileText className="h-4 w-4 text-primary" />
-              <span>Step 1: Upload Resume PDF</span>
+              <span>Step 1: Upload Resume</span>
             </Label>
             <div
               className={`relative border-2 border-dashed rounded-lg p-4 text-center transition-all duration-200 cursor-pointer
@@ -491,15 +994,15 @@ const ResumeAnalyzer: React.FC = () => {
               <input
                 ref={fileInputRef}
                 type="file"
-                accept=".pdf,application/pdf"
+                accept={RESUME_FILE_ACCEPT}
                 onChange={handleFileInputChange}
                 className="hidden"
               />
 
-              {isProcessingPDF ? (
+              {isProcessingFile ? (
                 <div className="space-y-2">
                   <div className="animate-spin rounded-full h-8 w-8 border-2 border-primary border-t-transparent mx-auto" />
-                  <p className="text-sm font-medium text-primary">Processing PDF...</p>
+                  <p className="text-sm font-medium text-primary">Processing file...</p>
                   <p className="text-xs text-muted-foreground">Extracting text from your resume</p>
                 </div>
               ) : uploadedFile ? (
@@ -510,6 +1013,26 @@ const ResumeAnalyzer: React.FC = () => {
                     <p className="text-xs text-muted-foreground">
                       {(uploadedFile.size / 1024).toFixed(2)} KB
                     </p>
+                    {parsedDocument && (
+                      <div className="flex flex-wrap items-center justify-center gap-1 mt-1">
+                        <Badge variant="secondary">
+                          {FORMAT_LABELS[parsedDocument.format]} · {parsedDocument.parser}
+                        </Badge>
+                        {parsedDocument.pages.length > 0 && (
+                          <Badge variant="outline">
+                            {parsedDocument.pages.length} {parsedDocument.pages.length === 1 ? "page" : "pages"}
+                          </Badge>
+                        )}
+                        <Badge variant="outline">
+                          {parsedDocument.sections.length} {parsedDocument.sections.length === 1 ? "section" : "sections"}
+                        </Badge>
+                      </div>
+                    )}
+                    {parsedDocument?.warnings.map((warning) => (
+                      <p key={warning} className="text-xs text-orange-600 dark:text-orange-400 mt-1">
+                        {warning}
+                      </p>
+                    ))}
                   </div>
                   <Button
                     variant="outline"
@@ -517,10 +1040,12 @@ const ResumeAnalyzer: React.FC = () => {
                     onClick={(e) => {
                       e.stopPropagation();
                       setUploadedFile(null);
+                      setParsedDocument(null);
+                      setProfile(null);
                       setResumeText("");
                     }}
                   >
-                    Remove PDF
+                    Remove File
                   </Button>
                 </div>
               ) : (
@@ -528,10 +1053,10 @@ const ResumeAnalyzer: React.FC = () => {
                   <Upload className="h-8 w-8 text-muted-foreground mx-auto" />
                   <div>
                     <p className="text-sm font-medium">
-                      {isDragging ? "Drop PDF here" : "Upload PDF file"}
+                      {isDragging ? "Drop file here" : "Upload resume file"}
                     </p>
                     <p className="text-xs text-muted-foreground mt-1">
-                      PDF only (max 5MB)
+                      PDF, DOCX, RTF, Markdown or text (max {MAX_RESUME_FILE_MB}MB)
                     </p>
                   </div>
                   <Button variant="outline" size="sm">
@@ -541,8 +1066,87 @@ const ResumeAnalyzer: React.FC = () => {
                 </div>
               )}
             </div>
+            {parsedDocument && !isProcessingFile && (
+              <ExtractedTextPreview document={parsedDocument} value={resumeText} onChange={setResumeText} />
+            )}
+            {!isProcessingFile && (versions.length > 0 || (uploadedFile && resumeText.trim())) && (
+              <div className="flex flex-wrap items-center gap-2">
+                {versions.length > 0 && (
+                  <Select value="" onValueChange={handleLoadSaved}>
+                    <SelectTrigger className="h-9 w-auto min-w-[220px]">
+                      <Library className="h-4 w-4 mr-2 text-muted-foreground" />
+                      <SelectValue placeholder="Use a resume from your library" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {versions.map((version) => (
+                        <SelectItem key={version.id} value={version.id}>
+                          {version.name} ({version.kind})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+                {uploadedFile && resumeText.trim() && (
+                  savedBase ? (
+                    <Badge variant="secondary">In your library as {savedBase.name}</Badge>
+                  ) : (
+                    <Button variant="outline" size="sm" onClick={() => setSavingResume("base")}>
+                      <BookmarkPlus className="h-4 w-4 mr-2" />
+                      Save to Library
+                    </Button>
+                  )
+                )}
+              </div>
+            )}
           </div>
 
+          {/* Structured Profile */}
+          {uploadedFile && resumeText.trim() && !isProcessingFile && (
+            <div className="space-y-2 border-b py-4">
+              <Label className="flex items-center gap-2">
+                <UserRound className="h-4 w-4 text-primary" />
+                <span>Structured Profile (optional)</span>
+                {profile && <Badge variant="secondary">{PARSE_MODE_LABELS[profile.mode]}</Badge>}
+              </Label>
+              <p className="text-xs text-muted-foreground">
+                Split your resume into contact details, roles, education and skills and check them. The AI then treats
+                the profile as the facts of your resume when editing it or writing a cover letter.
+              </p>
+              <div className="flex flex-wrap gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleBuildProfile("deterministic")}
+                  disabled={isParsingProfile}
+                >
+                  Build Profile
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleBuildProfile("llm")}
+                  disabled={isParsingProfile || aiUnavailable}
+                >
+                  <Sparkles className="h-3 w-3 mr-2" />
+                  Build with AI
+                </Button>
+                {profile && (
+                  <Button variant="ghost" size="sm" onClick={() => setProfile(null)}>
+                    <X className="h-3 w-3 mr-2" />
+                    Don't Use Profile
+                  </Button>
+                )}
+              </div>
+              {isParsingProfile && <p className="text-xs text-muted-foreground">Reading your resume...</p>}
+              {profile && (
+                <ProfileEditor
+                  value={profile.value}
+                  onChange={(value) => setProfile((prev) => prev && { ...prev, value })}
+                />
+              )}
+            </div>
+          )}
+
           {/* Job Description Input */}
           <div className="space-y-2 pt-4 border-t">
             <Label htmlFor="jobDescription" className="flex items-center gap-2">
@@ -567,20 +1171,43 @@ const ResumeAnalyzer: React.FC = () => {
           <div className="flex-1 text-sm text-muted-foreground">
             {uploadedFile && jobDescription ? (
               <span className="text-primary font-medium">
-                ✓ Ready to customize (PDF uploaded, {jobDescription.length} chars job description)
+                ✓ Ready to customize (resume uploaded, {jobDescription.length} chars job description)
               </span>
             ) : uploadedFile ? (
               <span className="text-orange-600 dark:text-orange-400">
                 ⚠ Add job description to customize resume
               </span>
             ) : (
-              "Upload your resume PDF and add job description to get started"
+              "Upload your resume and add job description to get started"
             )}
+            <div className="mt-2">
+              <UsageBudget />
+            </div>
           </div>
-          <div className="flex gap-3">
+          <div className="flex flex-wrap gap-3">
+            <Button
+              onClick={handleCheckKeywords}
+              disabled={!uploadedFile || !resumeText.trim() || !jobDescription.trim()}
+              size="lg"
+              variant="outline"
+            >
+              <Target className="h-4 w-4 mr-2" />
+              Check Keyword Match
+            </Button>
+            {aiUnavailable && (
+              <Button
+                onClick={handleBasicCheck}
+                disabled={isCheckingResume || !uploadedFile || !resumeText}
+                size="lg"
+                variant="outline"
+              >
+                <ListChecks className="h-4 w-4 mr-2" />
+                {isCheckingResume ? "Checking..." : "Run Basic Check"}
+              </Button>
+            )}
             <Button
-              onClick={handleGenerateCoverLetter}
-              disabled={isGeneratingCoverLetter || !uploadedFile || !resumeText || !jobDescription.trim()}
+              onClick={isGeneratingCoverLetter ? () => coverLetterAbortRef.current?.abort() : () => handleGenerateCoverLetter()}
+              disabled={!isGeneratingCoverLetter && (aiUnavailable || !uploadedFile || !resumeText || !jobDescription.trim())}
               size="lg"
               variant="outline"
               className="min-w-[180px]"
@@ -588,7 +1215,9 @@ const ResumeAnalyzer: React.FC = () => {
               {isGeneratingCoverLetter ? (
                 <>
                   <div className="animate-spin rounded-full h-4 w-4 border-2 border-primary border-t-transparent mr-2" />
-                  Generating...
+                  Writing...
+                  <Square className="h-3 w-3 ml-2 fill-current" />
+                  <span className="ml-1">Stop</span>
                 </>
               ) : (
                 <>
@@ -598,8 +1227,8 @@ const ResumeAnalyzer: React.FC = () => {
               )}
             </Button>
             <Button
-              onClick={handleAnalyze}
-              disabled={isAnalyzing || !uploadedFile || !resumeText || !jobDescription.trim()}
+              onClick={isAnalyzing ? handleStopAnalysis : () => handleAnalyze()}
+              disabled={!isAnalyzing && (isRewritingResume || aiUnavailable || !uploadedFile || !resumeText || !jobDescription.trim())}
               size="lg"
               className="min-w-[160px]"
             >
@@ -607,6 +1236,8 @@ const ResumeAnalyzer: React.FC = () => {
                 <>
                   <div className="animate-spin rounded-full h-4 w-4 border-2 border-white border-t-transparent mr-2" />
                   Editing Resume...
+                  <Square className="h-3 w-3 ml-2 fill-current" />
+                  <span className="ml-1">Stop</span>
                 </>
               ) : (
                 <>
@@ -628,18 +1259,60 @@ const ResumeAnalyzer: React.FC = () => {
               <CardTitle className="text-xl">Resume Analysis Results</CardTitle>
             </div>
             <p className="text-sm text-muted-foreground mt-1">
-              ChatGPT has edited your resume to match the job description. Output is formatted text (not PDF).
+              {shownResume || analysis.specificChanges || analysis.coverLetter
+                ? "ChatGPT has edited your resume to match the job description. Output is formatted text (not PDF)."
+                : analysis.source
+                  ? "Feedback on your resume's structure and wording."
+                  : "How well your resume's keywords match the job description."}
             </p>
+            {analysis.promptVersions && Object.keys(analysis.promptVersions).length > 0 && (
+              <p className="text-xs text-muted-foreground/80 mt-1">
+                Prompt templates: {Object.values(analysis.promptVersions).join(", ")}
+              </p>
+            )}
+            {(activeTab === "coverLetter" ? cachedResults.coverLetter : cachedResults.resume) && (
+              <div className="flex items-center justify-between gap-2 mt-2 text-xs text-muted-foreground bg-background/60 rounded-md border px-3 py-2">
+                <span>Loaded from cache — generated earlier for this resume and job description.</span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={isAnalyzing || isGeneratingCoverLetter || isRewritingResume}
+                  onClick={() =>
+                    activeTab === "coverLetter"
+                      ? handleGenerateCoverLetter(true)
+                      : activeTab === "customized"
+                        ? handleRewriteResume(true)
+                        : handleAnalyze(true)
+                  }
+                >
+                  <RefreshCw className="h-3 w-3 mr-2" />
+                  Regenerate
+                </Button>
+              </div>
+            )}
           </CardHeader>
 
           <CardContent className="p-4">
             <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-3">
-              <TabsList className={`grid w-full h-12 bg-muted/50 ${[analysis.coverLetter, analysis.customizedResume, analysis.specificChanges].filter(Boolean).length === 3
-                ? "grid-cols-3"
-                : [analysis.coverLetter, analysis.customizedResume, analysis.specificChanges].filter(Boolean).length === 2
-                  ? "grid-cols-2"
-                  : "grid-cols-1"
-                }`}>
+              <TabsList className={`grid w-full h-12 bg-muted/50 ${TAB_GRID_COLUMNS[[analysis.source, showKeywordMatch, analysis.coverLetter, shownResume, analysis.specificChanges].filter(Boolean).length] ?? "grid-cols-1"}`}>
+                {analysis.source && (
+                  <TabsTrigger
+                    value="feedback"
+                    className="text-sm data-[state=active]:bg-primary data-[state=active]:text-primary-foreground"
+                  >
+                    <ListChecks className="h-4 w-4 mr-1 inline" />
+                    Feedback
+                  </TabsTrigger>
+                )}
+                {showKeywordMatch && (
+                  <TabsTrigger
+                    value="keywords"
+                    className="text-sm data-[state=active]:bg-primary data-[state=active]:text-primary-foreground"
+                  >
+                    <Target className="h-4 w-4 mr-1 inline" />
+                    Keyword Match
+                  </TabsTrigger>
+                )}
                 {analysis.coverLetter && (
                   <TabsTrigger
                     value="coverLetter"
@@ -657,7 +1330,7 @@ const ResumeAnalyzer: React.FC = () => {
                     📝 Changes Needed
                   </TabsTrigger>
                 )}
-                {analysis.customizedResume && (
+                {shownResume && (
                   <TabsTrigger
                     value="customized"
                     className="text-sm data-[state=active]:bg-primary data-[state=active]:text-primary-foreground"
@@ -668,6 +1341,69 @@ const ResumeAnalyzer: React.FC = () => {
                 )}
               </TabsList>
 
+              {analysis.source && (
+                <TabsContent value="feedback" className="space-y-3">
+                  <div className="rounded-lg border-2 border-primary/20 bg-primary/5 p-4 space-y-4">
+                    <div className="flex items-center justify-between gap-2">
+                      <div className="flex items-center gap-2">
+                        <ListChecks className="h-5 w-5 text-primary" />
+                        <h3 className="text-lg font-semibold">Resume Feedback</h3>
+                      </div>
+                      <Badge variant={analysis.source === "heuristic" ? "secondary" : "outline"}>
+                        {analysis.source === "heuristic" ? "Rule-based check" : "AI review"}
+                      </Badge>
+                    </div>
+                    {analysis.source === "heuristic" && (
+                      <p className="text-xs text-muted-foreground">
+                        AI was not available, so this feedback comes from automatic checks of your resume's structure and
+                        wording (metrics, sections, bullet length, passive voice and keywords from the job description).
+                        It does not judge the content itself.
+                      </p>
+                    )}
+                    {([
+                      ["Strengths", analysis.strengths],
+                      ["Improvements", analysis.improvements],
+                      ["Tailoring", analysis.tailoring],
+                    ] as const).map(
+                      ([heading, items]) =>
+                        items.length > 0 && (
+                          <div key={heading} className="bg-white dark:bg-gray-900 rounded-lg p-4 border border-gray-200 dark:border-gray-700 shadow-sm">
+                            <h4 className="font-semibold text-sm mb-2">{heading}</h4>
+                            <ul className="list-disc pl-5 space-y-1 text-sm text-gray-800 dark:text-gray-200">
+                              {items.map((item, index) => (
+                                <li key={index}>{item}</li>
+                              ))}
+                            </ul>
+                          </div>
+                        ),
+                    )}
+                  </div>
+                </TabsContent>
+              )}
+
+              {showKeywordMatch && (
+                <TabsContent value="keywords" className="space-y-3">
+                  <div className="rounded-lg border-2 border-primary/20 bg-primary/5 p-4 space-y-4">
+                    <div className="flex items-center justify-between gap-2">
+                      <div className="flex items-center gap-2">
+                        <Target className="h-5 w-5 text-primary" />
+                        <h3 className="text-lg font-semibold">ATS Keyword Match</h3>
+                      </div>
+                      {isMatchingKeywords && <span className="text-xs text-muted-foreground">Checking...</span>}
+                    </div>
+                    {keywordMatch ? (
+                      <KeywordMatchReport before={keywordMatch.before} after={keywordMatch.after} />
+                    ) : (
+                      !isMatchingKeywords && (
+                        <p className="text-sm text-muted-foreground">
+                          Add your resume and a job description to see how well they match.
+                        </p>
+                      )
+                    )}
+                  </div>
+                </TabsContent>
+              )}
+
               {analysis.specificChanges && (
                 <TabsContent value="changes" className="space-y-3">
                   <div className="bg-gradient-to-br from-amber-50 to-orange-50 dark:from-amber-950/20 dark:to-orange-950/20 rounded-lg border-2 border-amber-200 dark:border-amber-800 p-4">
@@ -679,67 +1415,24 @@ const ResumeAnalyzer: React.FC = () => {
                     </div>
                     <div className="bg-white dark:bg-gray-900 rounded-lg p-4 border border-gray-200 dark:border-gray-700 shadow-sm">
                       <div className="prose prose-sm max-w-none dark:prose-invert">
-                        <div className="font-sans text-sm text-gray-800 dark:text-gray-200 leading-normal whitespace-pre-wrap">
-                          {analysis.specificChanges.split('\n').map((line, index) => {
-                            const trimmedLine = line.trim();
-
-                            // Format SECTION headers
-                            if (trimmedLine.startsWith('SECTION:')) {
-                              const sectionName = trimmedLine.replace('SECTION:', '').trim();
-                              return (
-                                <div key={index} className="mt-3 mb-2 first:mt-0">
-                                  <h4 className="font-bold text-base text-amber-700 dark:text-amber-300 uppercase tracking-wide border-b-2 border-amber-300 dark:border-amber-600 pb-1">
-                                    {sectionName}
-                                  </h4>
-                                </div>
-                              );
-                            }
-
-                            // Format CURRENT labels
-                            if (trimmedLine.startsWith('CURRENT:')) {
-                              const currentText = trimmedLine.replace('CURRENT:', '').trim();
-                              return (
-                                <div key={index} className="mb-2">
-                                  <span className="font-semibold text-red-600 dark:text-red-400 mr-2">CURRENT:</span>
-                                  <span className="text-gray-700 dark:text-gray-300 bg-red-50 dark:bg-red-950/20 px-2 py-1 rounded">
-                                    {currentText}
-                                  </span>
-                                </div>
-                              );
+                        <div className="font-sans text-sm text-gray-800 dark:text-gray-200 leading-normal">
+                          <SpecificChangesList
+                            changes={analysis.specificChanges}
+                            draftOf={changeDraft}
+                            onDraftChange={(change, draft) =>
+                              setChangeDrafts((prev) => ({ ...prev, [changeKey(change)]: draft }))
                             }
-
-                            // Format CHANGE TO labels
-                            if (trimmedLine.startsWith('CHANGE TO:')) {
-                              const changeText = trimmedLine.replace('CHANGE TO:', '').trim();
-                              return (
-                                <div key={index} className="mb-2 pb-2 border-b border-gray-200 dark:border-gray-700">
-                                  <span className="font-semibold text-green-600 dark:text-green-400 mr-2">CHANGE TO:</span>
-                                  <span className="text-gray-700 dark:text-gray-300 bg-green-50 dark:bg-green-950/20 px-2 py-1 rounded">
-                                    {changeText}
-                                  </span>
-                                </div>
-                              );
-                            }
-
-                            // Empty lines
-                            if (trimmedLine.length === 0) {
-                              return <div key={index} className="mb-1">&nbsp;</div>;
-                            }
-
-                            // Regular text lines
-                            return (
-                              <div key={index} className="mb-1">
-                                {trimmedLine}
-                              </div>
-                            );
-                          })}
+                            unplacedOf={(change) => unplacedChanges[changeKey(change)]}
+                            onApply={handleApplyChanges}
+                          />
                         </div>
                       </div>
                     </div>
                     <div className="mt-3 p-3 bg-amber-50 dark:bg-amber-950/20 rounded-lg border border-amber-200 dark:border-amber-800">
                       <p className="text-xs text-amber-800 dark:text-amber-200">
                         💡 <strong>Tip:</strong> These are specific places in your resume that need to be changed to better match the job description.
-                        Review each section and update your resume accordingly.
+                        Untick the ones you don't want, adjust the wording, then apply the selected changes to get a new customized resume
+                        you can review change by change.
                       </p>
                     </div>
                   </div>
@@ -749,14 +1442,14 @@ const ResumeAnalyzer: React.FC = () => {
               {analysis.coverLetter && (
                 <TabsContent value="coverLetter" className="space-y-3">
                   <div className="bg-gradient-to-br from-indigo-50 to-purple-50 dark:from-indigo-950/20 dark:to-purple-950/20 rounded-lg border-2 border-indigo-200 dark:border-indigo-800 p-4">
-                    <div className="flex items-center justify-between mb-3">
+                    <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
                       <div className="flex items-center gap-2">
                         <Mail className="h-5 w-5 text-indigo-600 dark:text-indigo-400" />
                         <h3 className="text-lg font-semibold text-indigo-900 dark:text-indigo-100">
                           Your Customized Cover Letter
                         </h3>
                       </div>
-                      <div className="flex gap-2">
+                      <div className="flex flex-wrap gap-2">
                         <Button
                           variant="outline"
                           size="sm"
@@ -772,12 +1465,28 @@ const ResumeAnalyzer: React.FC = () => {
                           Copy Text
                         </Button>
                         <Button
-                          variant="default"
+                          variant="outline"
                           size="sm"
                           onClick={handleDownloadCoverLetter}
                         >
                           <Download className="h-4 w-4 mr-2" />
-                          Download
+                          Download as Text
+                        </Button>
+                        <Button
+                          variant="default"
+                          size="sm"
+                          onClick={() => setPdfExport("coverLetter")}
+                        >
+                          <FileDown className="h-4 w-4 mr-2" />
+                          Export PDF
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleDownloadWord("coverLetter")}
+                        >
+                          <FileText className="h-4 w-4 mr-2" />
+                          Download Word
                         </Button>
                       </div>
                     </div>
@@ -919,22 +1628,40 @@ const ResumeAnalyzer: React.FC = () => {
                 </TabsContent>
               )}
 
-              {analysis.customizedResume && (
+              {shownResume && (
                 <TabsContent value="customized" className="space-y-3">
                   <div className="bg-gradient-to-br from-purple-50 to-blue-50 dark:from-purple-950/20 dark:to-blue-950/20 rounded-lg border-2 border-purple-200 dark:border-purple-800 p-4">
-                    <div className="flex items-center justify-between mb-3">
+                    <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
                       <div className="flex items-center gap-2">
                         <FileEdit className="h-5 w-5 text-purple-600 dark:text-purple-400" />
                         <h3 className="text-lg font-semibold text-purple-900 dark:text-purple-100">
                           Your Customized Resume (Formatted Text)
                         </h3>
                       </div>
-                      <div className="flex gap-2">
+                      <div className="flex flex-wrap gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={isRewritingResume ? () => resumeAbortRef.current?.abort() : () => handleRewriteResume()}
+                          disabled={!isRewritingResume && (isAnalyzing || aiUnavailable || !jobDescription.trim())}
+                        >
+                          {isRewritingResume ? (
+                            <>
+                              <Square className="h-3 w-3 mr-2 fill-current" />
+                              Stop
+                            </>
+                          ) : (
+                            <>
+                              <RefreshCw className="h-4 w-4 mr-2" />
+                              Rewrite
+                            </>
+                          )}
+                        </Button>
                         <Button
                           variant="outline"
                           size="sm"
                           onClick={() => {
-                            navigator.clipboard.writeText(analysis.customizedResume || "");
+                            navigator.clipboard.writeText(tailoredResume);
                             toast({
                               title: "Copied!",
                               description: "Customized resume copied to clipboard",
@@ -945,97 +1672,186 @@ const ResumeAnalyzer: React.FC = () => {
                           Copy Text
                         </Button>
                         <Button
-                          variant="default"
+                          variant="outline"
                           size="sm"
                           onClick={handleDownloadResume}
                         >
                           <Download className="h-4 w-4 mr-2" />
                           Download as Text
                         </Button>
+                        <Button
+                          variant="default"
+                          size="sm"
+                          onClick={() => setPdfExport("resume")}
+                        >
+                          <FileDown className="h-4 w-4 mr-2" />
+                          Export PDF
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleDownloadWord("resume")}
+                        >
+                          <FileText className="h-4 w-4 mr-2" />
+                          Download Word
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setSavingResume("tailored")}
+                        >
+                          <BookmarkPlus className="h-4 w-4 mr-2" />
+                          Save Version
+                        </Button>
                       </div>
                     </div>
-                    <div className="bg-white dark:bg-gray-900 rounded-lg p-4 border border-gray-200 dark:border-gray-700 shadow-sm">
-                      <div className="prose prose-sm max-w-none dark:prose-invert">
-                        <div className="font-sans text-sm text-gray-800 dark:text-gray-200 leading-relaxed">
-                          {analysis.customizedResume.split('\n').map((line, index, array) => {
-                            const trimmedLine = line.trim();
-                            const isEmpty = trimmedLine.length === 0;
-                            const prevLine = index > 0 ? array[index - 1].trim() : '';
-                            const nextLine = index < array.length - 1 ? array[index + 1].trim() : '';
-
-                            // Skip consecutive empty lines
-                            if (isEmpty && prevLine === '') {
-                              return <React.Fragment key={index} />;
-                            }
-
-                            // Format section headers (typically short, all caps, or followed by empty line)
-                            const isHeader = trimmedLine.length > 0 &&
-                              trimmedLine.length < 60 &&
-                              !trimmedLine.includes('•') &&
-                              !trimmedLine.includes('-') &&
-                              !trimmedLine.includes('@') &&
-                              !trimmedLine.includes('http') &&
-                              (trimmedLine === trimmedLine.toUpperCase() || nextLine === '' || nextLine.startsWith('•') || nextLine.startsWith('-'));
-
-                            if (isHeader) {
-                              return (
-                                <div key={index} className="mt-3 mb-2 first:mt-0">
-                                  <h4 className="font-bold text-lg text-gray-900 dark:text-gray-100 uppercase tracking-wide border-b-2 border-gray-400 dark:border-gray-500 pb-1">
-                                    {trimmedLine}
-                                  </h4>
-                                </div>
-                              );
-                            }
-
-                            // Format bullet points
-                            if (trimmedLine.startsWith('•') || trimmedLine.startsWith('-')) {
-                              const bulletContent = trimmedLine.substring(1).trim();
-                              return (
-                                <div key={index} className="ml-6 mb-1 flex items-start">
-                                  <span className="mr-3 text-purple-600 dark:text-purple-400 mt-1">•</span>
-                                  <span className="flex-1">{bulletContent}</span>
-                                </div>
-                              );
-                            }
-
-                            // Format lines that look like dates or job titles (contain dates in parentheses)
-                            if (trimmedLine.includes('(') && trimmedLine.includes(')') && trimmedLine.length < 80) {
-                              return (
-                                <div key={index} className="mb-1 font-semibold text-gray-900 dark:text-gray-100">
-                                  {trimmedLine}
-                                </div>
-                              );
-                            }
-
-                            // Empty lines
-                            if (isEmpty) {
-                              return <div key={index} className="mb-1">&nbsp;</div>;
-                            }
-
-                            // Regular text lines
-                            return (
-                              <div key={index} className="mb-1">
-                                {trimmedLine}
-                              </div>
-                            );
-                          })}
-                        </div>
+                    {appliedResume !== null && (
+                      <div className="flex flex-wrap items-center gap-2 mb-3">
+                        {analysis.customizedResume && (
+                          <ToggleGroup
+                            type="single"
+                            size="sm"
+                            variant="outline"
+                            value={resumeSource}
+                            onValueChange={(value) => value && setResumeSource(value as ResumeSource)}
+                          >
+                            <ToggleGroupItem value="ai">AI version</ToggleGroupItem>
+                            <ToggleGroupItem value="applied">With selected changes</ToggleGroupItem>
+                          </ToggleGroup>
+                        )}
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => {
+                            setAppliedResume(null);
+                            setResumeSource("ai");
+                          }}
+                        >
+                          <RotateCcw className="h-4 w-4 mr-2" />
+                          Discard applied version
+                        </Button>
                       </div>
+                    )}
+                    {openFlags && (
+                      <div className="mb-3">
+                        <FabricationReview
+                          text={shownResume}
+                          flags={openFlags}
+                          onKeep={(flag) => setKeptFlags((prev) => [...prev, flagKey(flag)])}
+                          onRevert={handleRevertFlag}
+                        />
+                      </div>
+                    )}
+                    <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+                      <ToggleGroup
+                        type="single"
+                        size="sm"
+                        variant="outline"
+                        value={resumeView}
+                        onValueChange={(value) => value && setResumeView(value as "final" | DiffView)}
+                      >
+                        <ToggleGroupItem value="final">Final resume</ToggleGroupItem>
+                        <ToggleGroupItem value="inline">Changes inline</ToggleGroupItem>
+                        <ToggleGroupItem value="split">Side by side</ToggleGroupItem>
+                      </ToggleGroup>
+                      {rejectedHunks.length > 0 && resumeView === "final" && (
+                        <span className="text-xs text-muted-foreground">
+                          Includes only the changes you accepted; copy and download use this version.
+                        </span>
+                      )}
                     </div>
+                    {resumeView === "final" ? (
+                      <div className="bg-white dark:bg-gray-900 rounded-lg p-4 border border-gray-200 dark:border-gray-700 shadow-sm">
+                        <div className="prose prose-sm max-w-none dark:prose-invert">
+                          <div className="font-sans text-sm text-gray-800 dark:text-gray-200 leading-relaxed">
+                            {parseResumeLayout(tailoredResume).map((line, index) => {
+                              switch (line.kind) {
+                                case "name":
+                                  return (
+                                    <h3 key={index} className="mb-1 text-2xl font-bold text-gray-900 dark:text-gray-100">
+                                      {line.text}
+                                    </h3>
+                                  );
+                                case "contact":
+                                  return (
+                                    <div key={index} className="mb-1 text-xs text-muted-foreground">
+                                      {line.text}
+                                    </div>
+                                  );
+                                case "heading":
+                                  return (
+                                    <div key={index} className="mt-3 mb-2 first:mt-0">
+                                      <h4 className="font-bold text-lg text-gray-900 dark:text-gray-100 uppercase tracking-wide border-b-2 border-gray-400 dark:border-gray-500 pb-1">
+                                        {line.text}
+                                      </h4>
+                                    </div>
+                                  );
+                                case "bullet":
+                                  return (
+                                    <div key={index} className="ml-6 mb-1 flex items-start">
+                                      <span className="mr-3 text-purple-600 dark:text-purple-400 mt-1">•</span>
+                                      <span className="flex-1">{line.text}</span>
+                                    </div>
+                                  );
+                                // Lines that name a role or school with its dates
+                                case "entry":
+                                  return (
+                                    <div key={index} className="mb-1 font-semibold text-gray-900 dark:text-gray-100">
+                                      {line.text}
+                                    </div>
+                                  );
+                                case "gap":
+                                  return <div key={index} className="mb-1">&nbsp;</div>;
+                                default:
+                                  return (
+                                    <div key={index} className="mb-1">
+                                      {line.text}
+                                    </div>
+                                  );
+                              }
+                            })}
+                          </div>
+                        </div>
+                      </div>
+                    ) : (
+                      <div className="bg-white dark:bg-gray-900 rounded-lg p-4 border border-gray-200 dark:border-gray-700 shadow-sm">
+                        <ResumeDiff
+                          blocks={diffBlocks}
+                          view={resumeView}
+                          rejected={new Set(rejectedHunks)}
+                          onDecide={handleDecideHunks}
+                        />
+                      </div>
+                    )}
                     <div className="mt-3 p-3 bg-blue-50 dark:bg-blue-950/20 rounded-lg border border-blue-200 dark:border-blue-800">
                       <p className="text-xs text-blue-800 dark:text-blue-200">
                         💡 <strong>Tip:</strong> ChatGPT has edited your resume to match the job description.
-                        The output is formatted text (not PDF). You can copy the text or download it as a .txt file.
-                        Review and edit as needed before submitting your application.
+                        Copy the text, download it as a .txt or Word file, or export a PDF with one of the templates.
+                        Open "Changes inline" or "Side by side" to accept or reject each change before submitting your application.
                       </p>
                     </div>
                   </div>
                 </TabsContent>
               )}
             </Tabs>
+            <PdfExportDialog
+              document={pdfExport ?? "resume"}
+              text={pdfExport === "coverLetter" ? analysis.coverLetter || "" : tailoredResume}
+              open={pdfExport !== null}
+              onOpenChange={(open) => !open && setPdfExport(null)}
+            />
           </CardContent>
         </Card>
       )}
+
+      <SaveResumeDialog
+        kind={savingResume ?? "base"}
+        open={savingResume !== null}
+        onOpenChange={(open) => !open && setSavingResume(null)}
+        defaultName={savingResume === "tailored" ? `${resumeName} – ${jobTitleOf(jobDescription)}` : resumeName}
+        defaultBaseName={savingResume === "tailored" && !savedBase ? resumeName : undefined}
+        onSave={handleSaveResume}
+      />
     </div>
   );
 };
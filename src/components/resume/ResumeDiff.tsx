@@ -0,0 +1,173 @@
+import React, { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { DiffBlock, DiffPart, Hunk, diffWords } from "@/lib/resumeDiff";
+import { Check, X } from "lucide-react";
+
+export type DiffView = "inline" | "split";
+
+interface ResumeDiffProps {
+  blocks: DiffBlock[];
+  view: DiffView;
+  // Keys of the hunks that keep the original text
+  rejected: ReadonlySet<string>;
+  onDecide: (keys: string[], accepted: boolean) => void;
+}
+
+// Unchanged lines shown around each change; longer unchanged runs are folded
+const CONTEXT_LINES = 2;
+
+const PART_CLASSES: Record<DiffPart["type"], string> = {
+  same: "",
+  removed: "bg-red-100 text-red-800 line-through dark:bg-red-950/40 dark:text-red-300",
+  added: "bg-green-100 text-green-800 dark:bg-green-950/40 dark:text-green-300",
+};
+
+const Parts: React.FC<{ parts: DiffPart[] }> = ({ parts }) => (
+  <>
+    {parts.map((part, index) => (
+      <span key={index} className={PART_CLASSES[part.type]}>
+        {part.text}
+      </span>
+    ))}
+  </>
+);
+
+const Unchanged: React.FC<{ lines: string[]; view: DiffView; first: boolean; last: boolean }> = ({
+  lines,
+  view,
+  first,
+  last,
+}) => {
+  const [expanded, setExpanded] = useState(false);
+  const head = first ? 0 : CONTEXT_LINES;
+  const tail = last ? 0 : CONTEXT_LINES;
+  const folded = !expanded && lines.length > head + tail + 1;
+  const shown = folded ? [...lines.slice(0, head), null, ...lines.slice(lines.length - tail)] : lines;
+
+  return (
+    <>
+      {shown.map((line, index) =>
+        line === null ? (
+          <button
+            key="fold"
+            className="block w-full py-1 text-center text-xs text-muted-foreground hover:bg-muted"
+            onClick={() => setExpanded(true)}
+          >
+            {lines.length - head - tail} unchanged lines
+          </button>
+        ) : (
+          <div key={index} className={view === "split" ? "grid grid-cols-2 gap-4" : ""}>
+            <div className="min-h-5 whitespace-pre-wrap text-muted-foreground">{line}</div>
+            {view === "split" && <div className="min-h-5 whitespace-pre-wrap text-muted-foreground">{line}</div>}
+          </div>
+        ),
+      )}
+    </>
+  );
+};
+
+interface ChangeProps {
+  hunk: Hunk;
+  number: number;
+  view: DiffView;
+  accepted: boolean;
+  onDecide: (accepted: boolean) => void;
+}
+
+const Change: React.FC<ChangeProps> = ({ hunk, number, view, accepted, onDecide }) => {
+  const parts = diffWords(hunk.original.join("\n"), hunk.customized.join("\n"));
+  return (
+    <div className={`my-2 rounded-md border ${accepted ? "border-green-300 dark:border-green-800" : "border-dashed"}`}>
+      <div className="flex flex-wrap items-center justify-between gap-2 border-b bg-muted/40 px-2 py-1">
+        <div className="flex items-center gap-2 text-xs">
+          <span className="font-medium">Change {number}</span>
+          <Badge variant={accepted ? "default" : "secondary"}>{accepted ? "Accepted" : "Original kept"}</Badge>
+        </div>
+        <div className="flex gap-1">
+          <Button variant={accepted ? "default" : "outline"} size="sm" className="h-7" onClick={() => onDecide(true)}>
+            <Check className="h-3 w-3 mr-1" />
+            Accept
+          </Button>
+          <Button variant={accepted ? "outline" : "default"} size="sm" className="h-7" onClick={() => onDecide(false)}>
+            <X className="h-3 w-3 mr-1" />
+            Reject
+          </Button>
+        </div>
+      </div>
+      {view === "split" ? (
+        <div className="grid grid-cols-2 gap-4 p-2">
+          <div className={`whitespace-pre-wrap ${accepted ? "opacity-60" : ""}`}>
+            <Parts parts={parts.filter((part) => part.type !== "added")} />
+          </div>
+          <div className={`whitespace-pre-wrap ${accepted ? "" : "opacity-60"}`}>
+            <Parts parts={parts.filter((part) => part.type !== "removed")} />
+          </div>
+        </div>
+      ) : (
+        <div className="whitespace-pre-wrap p-2">
+          <Parts parts={parts} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+// The original and the customized resume compared word by word, with every change accepted or rejected on its own
+const ResumeDiff: React.FC<ResumeDiffProps> = ({ blocks, view, rejected, onDecide }) => {
+  const hunks = blocks.flatMap((block) => (block.kind === "change" ? [block.hunk] : []));
+  const acceptedCount = hunks.filter((hunk) => !rejected.has(hunk.key)).length;
+  const keys = hunks.map((hunk) => hunk.key);
+
+  if (!hunks.length) {
+    return <p className="text-sm text-muted-foreground">The customized resume is the same as your original.</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <span className="text-sm text-muted-foreground">
+          {acceptedCount} of {hunks.length} changes accepted
+        </span>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={() => onDecide(keys, true)}>
+            Accept all
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => onDecide(keys, false)}>
+            Reject all
+          </Button>
+        </div>
+      </div>
+      {view === "split" && (
+        <div className="grid grid-cols-2 gap-4 text-xs font-semibold uppercase text-muted-foreground">
+          <span>Original</span>
+          <span>Customized</span>
+        </div>
+      )}
+      <div className="font-sans text-sm leading-relaxed">
+        {blocks.map((block, index) =>
+          block.kind === "same" ? (
+            <Unchanged
+              key={index}
+              lines={block.lines}
+              view={view}
+              first={index === 0}
+              last={index === blocks.length - 1}
+            />
+          ) : (
+            <Change
+              key={block.hunk.key}
+              hunk={block.hunk}
+              number={hunks.indexOf(block.hunk) + 1}
+              view={view}
+              accepted={!rejected.has(block.hunk.key)}
+              onDecide={(accepted) => onDecide([block.hunk.key], accepted)}
+            />
+          ),
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ResumeDiff;
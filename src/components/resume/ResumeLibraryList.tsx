@@ -0,0 +1,293 @@
+import React, { useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { format } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import ResumeVersionDialog from "./ResumeVersionDialog";
+import { useJobs } from "@/contexts/JobsContext";
+import { useResumes } from "@/hooks/use-resumes";
+import { useToast } from "@/hooks/use-toast";
+import { ResumeVersion } from "@/types";
+import { Eye, Pencil, Plus, Trash2 } from "lucide-react";
+
+const excerpt = (text: string, length = 140) => {
+  const flat = text.replace(/\s+/g, " ").trim();
+  return flat.length > length ? `${flat.slice(0, length)}…` : flat;
+};
+
+interface VersionRowProps {
+  version: ResumeVersion;
+  applications: number;
+  onView: () => void;
+  onRename: () => void;
+  onDelete: () => void;
+}
+
+const VersionRow: React.FC<VersionRowProps> = ({ version, applications, onView, onRename, onDelete }) => (
+  <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-2 py-3 border-b last:border-b-0">
+    <div className="min-w-0 space-y-1">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="font-medium">{version.name}</span>
+        {version.atsScore !== undefined && version.atsScore !== null && (
+          <Badge variant="outline">ATS {version.atsScore}%</Badge>
+        )}
+        {applications > 0 && (
+          <Badge variant="secondary">
+            {applications} application{applications === 1 ? "" : "s"}
+          </Badge>
+        )}
+      </div>
+      <p className="text-xs text-muted-foreground">Saved {format(new Date(version.createdAt), "MMM d, yyyy")}</p>
+      {version.jobDescription && (
+        <p className="text-xs text-muted-foreground italic">For: {excerpt(version.jobDescription)}</p>
+      )}
+    </div>
+    <div className="flex shrink-0 gap-1">
+      <Button variant="ghost" size="sm" onClick={onView}>
+        <Eye className="h-4 w-4 mr-1" />
+        View
+      </Button>
+      <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={onRename} aria-label={`Rename ${version.name}`}>
+        <Pencil className="h-4 w-4" />
+      </Button>
+      <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={onDelete} aria-label={`Delete ${version.name}`}>
+        <Trash2 className="h-4 w-4" />
+      </Button>
+    </div>
+  </div>
+);
+
+// Base resumes with the variants tailored from them, and the actions to view, rename and delete each one
+const ResumeLibraryList: React.FC = () => {
+  const { versions, addVersion, updateVersion, deleteVersion, isLoading } = useResumes();
+  const { jobs } = useJobs();
+  const { toast } = useToast();
+  const [viewingId, setViewingId] = useState<string | null>(null);
+  const [renaming, setRenaming] = useState<{ version: ResumeVersion; name: string } | null>(null);
+  const [deleting, setDeleting] = useState<ResumeVersion | null>(null);
+  const [creating, setCreating] = useState<{ name: string; text: string } | null>(null);
+
+  const { bases, variantsOf, orphans } = useMemo(() => {
+    const bases = versions.filter((version) => version.kind === "base");
+    const baseIds = new Set(bases.map((base) => base.id));
+    const variants = versions.filter((version) => version.kind === "tailored");
+    return {
+      bases,
+      variantsOf: (id: string) => variants.filter((variant) => variant.parentId === id),
+      orphans: variants.filter((variant) => !variant.parentId || !baseIds.has(variant.parentId)),
+    };
+  }, [versions]);
+
+  const applicationsUsing = (id: string) => jobs.filter((job) => job.resumeVersionId === id).length;
+
+  const row = (version: ResumeVersion) => (
+    <VersionRow
+      key={version.id}
+      version={version}
+      applications={applicationsUsing(version.id)}
+      onView={() => setViewingId(version.id)}
+      onRename={() => setRenaming({ version, name: version.name })}
+      onDelete={() => setDeleting(version)}
+    />
+  );
+
+  const handleRename = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!renaming || !renaming.name.trim()) return;
+    updateVersion({ ...renaming.version, name: renaming.name.trim() });
+    setRenaming(null);
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!creating || !creating.name.trim() || !creating.text.trim()) return;
+    addVersion({
+      id: `resume-${Date.now()}`,
+      name: creating.name.trim(),
+      kind: "base",
+      text: creating.text,
+      createdAt: new Date().toISOString(),
+    });
+    toast({ title: "Resume saved", description: `Added ${creating.name.trim()} to your library.` });
+    setCreating(null);
+  };
+
+  const handleDelete = () => {
+    if (!deleting) return;
+    deleteVersion(deleting.id);
+    toast({ title: "Resume deleted", description: `Removed ${deleting.name} from your library.` });
+    setDeleting(null);
+  };
+
+  if (isLoading) {
+    return <p className="text-muted-foreground">Loading...</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-end">
+        <Button onClick={() => setCreating({ name: "", text: "" })}>
+          <Plus className="h-4 w-4 mr-2" />
+          New Base Resume
+        </Button>
+      </div>
+
+      {versions.length === 0 && (
+        <Card>
+          <CardContent className="py-10 text-center text-muted-foreground">
+            Your library is empty. Add a base resume here, or save one from the{" "}
+            <Link to="/resume-analyzer" className="text-primary hover:underline">
+              Resume Analyzer
+            </Link>{" "}
+            together with the versions you tailor from it.
+          </CardContent>
+        </Card>
+      )}
+
+      {bases.map((base) => {
+        const variants = variantsOf(base.id);
+        return (
+          <Card key={base.id}>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base flex items-center gap-2">
+                <Badge variant="secondary">Base</Badge>
+                {variants.length} tailored version{variants.length === 1 ? "" : "s"}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {row(base)}
+              {variants.length > 0 && <div className="ml-4 pl-4 border-l">{variants.map(row)}</div>}
+            </CardContent>
+          </Card>
+        );
+      })}
+
+      {orphans.length > 0 && (
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base">Tailored from a deleted resume</CardTitle>
+          </CardHeader>
+          <CardContent>{orphans.map(row)}</CardContent>
+        </Card>
+      )}
+
+      <ResumeVersionDialog
+        versionId={viewingId ?? undefined}
+        open={!!viewingId}
+        onOpenChange={(open) => !open && setViewingId(null)}
+      />
+
+      <Dialog open={!!renaming} onOpenChange={(open) => !open && setRenaming(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Rename Resume</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleRename} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="resumeName">Name</Label>
+              <Input
+                id="resumeName"
+                value={renaming?.name ?? ""}
+                onChange={(e) => setRenaming((prev) => prev && { ...prev, name: e.target.value })}
+                maxLength={200}
+                required
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setRenaming(null)}>
+                Cancel
+              </Button>
+              <Button type="submit">Save</Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!creating} onOpenChange={(open) => !open && setCreating(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>New Base Resume</DialogTitle>
+            <DialogDescription>A resume you tailor to each job, e.g. one per kind of role you apply for.</DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleCreate} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="newResumeName">Name</Label>
+              <Input
+                id="newResumeName"
+                value={creating?.name ?? ""}
+                onChange={(e) => setCreating((prev) => prev && { ...prev, name: e.target.value })}
+                placeholder="e.g. Frontend developer"
+                maxLength={200}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="newResumeText">Resume Text</Label>
+              <Textarea
+                id="newResumeText"
+                value={creating?.text ?? ""}
+                onChange={(e) => setCreating((prev) => prev && { ...prev, text: e.target.value })}
+                placeholder="Paste your resume text here..."
+                className="min-h-48"
+                required
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setCreating(null)}>
+                Cancel
+              </Button>
+              <Button type="submit">Save to Library</Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Resume</AlertDialogTitle>
+            <AlertDialogDescription>
+              Are you sure you want to delete {deleting?.name}?
+              {deleting && applicationsUsing(deleting.id) === 1 && " One application links to it and will show it as deleted."}
+              {deleting &&
+                applicationsUsing(deleting.id) > 1 &&
+                ` ${applicationsUsing(deleting.id)} applications link to it and will show it as deleted.`}
+              {deleting?.kind === "base" &&
+                variantsOf(deleting.id).length > 0 &&
+                " The versions tailored from it are kept."}{" "}
+              This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default ResumeLibraryList;
@@ -0,0 +1,135 @@
+import React from "react";
+import { format } from "date-fns";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { useResumes } from "@/hooks/use-resumes";
+import { useToast } from "@/hooks/use-toast";
+import { ChevronDown, Download, FileText } from "lucide-react";
+
+interface ResumeVersionDialogProps {
+  versionId?: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const formatCreated = (createdAt: string) => {
+  try {
+    return format(new Date(createdAt), "MMM d, yyyy 'at' HH:mm");
+  } catch {
+    return createdAt;
+  }
+};
+
+// One resume from the library: where it came from, what it was tailored to, and its full text
+const ResumeVersionDialog: React.FC<ResumeVersionDialogProps> = ({ versionId, open, onOpenChange }) => {
+  const { versions, isLoading } = useResumes();
+  const { toast } = useToast();
+  const version = versions.find((candidate) => candidate.id === versionId);
+  const parent = version?.parentId ? versions.find((candidate) => candidate.id === version.parentId) : undefined;
+
+  const handleCopy = () => {
+    if (!version) return;
+    navigator.clipboard.writeText(version.text);
+    toast({ title: "Copied!", description: `${version.name} copied to clipboard` });
+  };
+
+  const handleDownload = () => {
+    if (!version) return;
+    const blob = new Blob([version.text], { type: "text/plain" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${version.name.replace(/[^\w.-]+/g, "-").toLowerCase()}.txt`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+    toast({ title: "Downloaded!", description: "Resume downloaded as text file" });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] flex flex-col">
+        {version ? (
+          <>
+            <DialogHeader>
+              <DialogTitle className="flex flex-wrap items-center gap-2">
+                {version.name}
+                <Badge variant={version.kind === "base" ? "secondary" : "outline"} className="capitalize">
+                  {version.kind}
+                </Badge>
+              </DialogTitle>
+              <DialogDescription>Saved {formatCreated(version.createdAt)}</DialogDescription>
+            </DialogHeader>
+            <div className="space-y-3 overflow-y-auto">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 text-sm">
+                {version.kind === "tailored" && (
+                  <div>
+                    <h4 className="font-semibold mb-1">Derived from</h4>
+                    <p className="text-muted-foreground">
+                      {parent?.name ?? (version.parentId ? "A deleted resume" : "Unknown")}
+                    </p>
+                  </div>
+                )}
+                {version.atsScore !== undefined && version.atsScore !== null && (
+                  <div>
+                    <h4 className="font-semibold mb-1">ATS keyword score</h4>
+                    <p className="text-muted-foreground">{version.atsScore}%</p>
+                  </div>
+                )}
+              </div>
+              {version.jobDescription && (
+                <Collapsible>
+                  <CollapsibleTrigger asChild>
+                    <Button variant="ghost" size="sm" className="px-0 font-semibold group">
+                      Job description used
+                      <ChevronDown className="h-4 w-4 ml-1 transition-transform group-data-[state=open]:rotate-180" />
+                    </Button>
+                  </CollapsibleTrigger>
+                  <CollapsibleContent>
+                    <div className="bg-muted p-3 rounded-md max-h-48 overflow-y-auto">
+                      <p className="text-sm whitespace-pre-wrap">{version.jobDescription}</p>
+                    </div>
+                  </CollapsibleContent>
+                </Collapsible>
+              )}
+              <div className="bg-muted p-4 rounded-md">
+                <p className="text-sm whitespace-pre-wrap">{version.text}</p>
+              </div>
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={handleCopy}>
+                <FileText className="h-4 w-4 mr-2" />
+                Copy Text
+              </Button>
+              <Button variant="outline" onClick={handleDownload}>
+                <Download className="h-4 w-4 mr-2" />
+                Download
+              </Button>
+            </DialogFooter>
+          </>
+        ) : (
+          <DialogHeader>
+            <DialogTitle>Resume not found</DialogTitle>
+            <DialogDescription>
+              {isLoading
+                ? "Loading your resume library…"
+                : "This resume version is no longer in your library; it may have been deleted."}
+            </DialogDescription>
+          </DialogHeader>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ResumeVersionDialog;
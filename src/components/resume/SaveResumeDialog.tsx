@@ -0,0 +1,142 @@
+import React, { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useJobs } from "@/contexts/JobsContext";
+import { ResumeVersionKind } from "@/types";
+
+export interface SaveResumeValues {
+  name: string;
+  // Name for the base resume saved along with a tailored one, when the library does not have it yet
+  baseName?: string;
+  // Application the saved version was sent with
+  jobId?: string;
+}
+
+interface SaveResumeDialogProps {
+  kind: ResumeVersionKind;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  defaultName: string;
+  // Set when saving a tailored resume whose base is not in the library
+  defaultBaseName?: string;
+  onSave: (values: SaveResumeValues) => void;
+}
+
+const NO_JOB = "none";
+
+// Names a resume before it goes into the library; a tailored one can also be linked to the application it was sent with
+const SaveResumeDialog: React.FC<SaveResumeDialogProps> = ({
+  kind,
+  open,
+  onOpenChange,
+  defaultName,
+  defaultBaseName,
+  onSave,
+}) => {
+  const { jobs } = useJobs();
+  const [name, setName] = useState(defaultName);
+  const [baseName, setBaseName] = useState(defaultBaseName ?? "");
+  const [jobId, setJobId] = useState(NO_JOB);
+
+  useEffect(() => {
+    if (!open) return;
+    setName(defaultName);
+    setBaseName(defaultBaseName ?? "");
+    setJobId(NO_JOB);
+  }, [open, defaultName, defaultBaseName]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || (defaultBaseName !== undefined && !baseName.trim())) return;
+    onSave({
+      name: name.trim(),
+      baseName: defaultBaseName !== undefined ? baseName.trim() : undefined,
+      jobId: jobId === NO_JOB ? undefined : jobId,
+    });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{kind === "base" ? "Save Resume to Library" : "Save Tailored Version"}</DialogTitle>
+          <DialogDescription>
+            {kind === "base"
+              ? "Keep this resume as a base to tailor to other jobs."
+              : "Keep this version with the job description it was tailored to and its keyword score."}
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="saveResumeName">Name</Label>
+            <Input
+              id="saveResumeName"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={200}
+              required
+            />
+          </div>
+          {defaultBaseName !== undefined && (
+            <div className="space-y-2">
+              <Label htmlFor="saveBaseName">Base resume name</Label>
+              <Input
+                id="saveBaseName"
+                value={baseName}
+                onChange={(e) => setBaseName(e.target.value)}
+                maxLength={200}
+                required
+              />
+              <p className="text-xs text-muted-foreground">
+                Your original resume is not in the library yet, so it is saved too as the version this one comes from.
+              </p>
+            </div>
+          )}
+          {kind === "tailored" && (
+            <div className="space-y-2">
+              <Label htmlFor="saveResumeJob">Sent with application</Label>
+              <Select value={jobId} onValueChange={setJobId}>
+                <SelectTrigger id="saveResumeJob">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_JOB}>Not linked to an application</SelectItem>
+                  {jobs.map((job) => (
+                    <SelectItem key={job.id} value={job.id}>
+                      {job.jobTitle} at {job.companyName}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit">Save</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SaveResumeDialog;
@@ -0,0 +1,125 @@
+import React from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Textarea } from "@/components/ui/textarea";
+import { ResumeChange } from "@/types";
+import { AlertCircle, RotateCcw, Wand2 } from "lucide-react";
+
+// The user's choices for one suggested change
+export interface ChangeDraft {
+  selected: boolean;
+  proposed: string;
+}
+
+interface SpecificChangesListProps {
+  changes: ResumeChange[];
+  draftOf: (change: ResumeChange) => ChangeDraft;
+  onDraftChange: (change: ResumeChange, draft: ChangeDraft) => void;
+  // Why the last apply could not place a change
+  unplacedOf: (change: ResumeChange) => string | undefined;
+  onApply: () => void;
+}
+
+// Suggested changes, each with a checkbox and an editable replacement, and the action that applies the selected ones
+const SpecificChangesList: React.FC<SpecificChangesListProps> = ({
+  changes,
+  draftOf,
+  onDraftChange,
+  unplacedOf,
+  onApply,
+}) => {
+  if (changes.length === 0) {
+    return <p className="text-muted-foreground">No changes needed — your resume already matches this job description well.</p>;
+  }
+
+  const selectedCount = changes.filter((change) => draftOf(change).selected).length;
+  const selectAll = (selected: boolean) =>
+    changes.forEach((change) => onDraftChange(change, { ...draftOf(change), selected }));
+
+  return (
+    <>
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3 pb-3 border-b border-gray-200 dark:border-gray-700">
+        <div className="flex gap-2">
+          <Button variant="ghost" size="sm" onClick={() => selectAll(true)}>
+            Select all
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => selectAll(false)}>
+            Select none
+          </Button>
+        </div>
+        <Button size="sm" onClick={onApply} disabled={selectedCount === 0}>
+          <Wand2 className="h-4 w-4 mr-2" />
+          Apply selected ({selectedCount})
+        </Button>
+      </div>
+      {changes.map((change, index) => {
+        const draft = draftOf(change);
+        const unplaced = unplacedOf(change);
+        return (
+          <div key={index} className="mb-3 pb-3 border-b border-gray-200 dark:border-gray-700 last:border-b-0 last:mb-0 last:pb-0">
+            <div className="flex items-center justify-between gap-2 mt-3 mb-2 first:mt-0 border-b-2 border-amber-300 dark:border-amber-600 pb-1">
+              <label className="flex items-center gap-2 cursor-pointer">
+                <Checkbox
+                  checked={draft.selected}
+                  onCheckedChange={(checked) => onDraftChange(change, { ...draft, selected: checked === true })}
+                  aria-label={`Apply this ${change.section} change`}
+                />
+                <h4 className="font-bold text-base text-amber-700 dark:text-amber-300 uppercase tracking-wide">
+                  {change.section}
+                </h4>
+              </label>
+              <Badge variant="outline" className="capitalize shrink-0">
+                {change.category}
+              </Badge>
+            </div>
+            {change.current && (
+              <div className="mb-2">
+                <span className="font-semibold text-red-600 dark:text-red-400 mr-2">CURRENT:</span>
+                <span className="text-gray-700 dark:text-gray-300 bg-red-50 dark:bg-red-950/20 px-2 py-1 rounded">
+                  {change.current}
+                </span>
+              </div>
+            )}
+            <div className="mb-2 space-y-1">
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-semibold text-green-600 dark:text-green-400">
+                  {change.current ? "CHANGE TO:" : "ADD:"}
+                </span>
+                {draft.proposed !== change.proposed && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 text-xs"
+                    onClick={() => onDraftChange(change, { ...draft, proposed: change.proposed })}
+                  >
+                    <RotateCcw className="h-3 w-3 mr-1" />
+                    Reset
+                  </Button>
+                )}
+              </div>
+              <Textarea
+                value={draft.proposed}
+                onChange={(e) => onDraftChange(change, { ...draft, proposed: e.target.value })}
+                className="min-h-12 resize-y text-sm bg-green-50 dark:bg-green-950/20"
+              />
+            </div>
+            {change.rationale && (
+              <p className="text-xs text-muted-foreground italic">
+                Why: {change.rationale}
+              </p>
+            )}
+            {unplaced && (
+              <p className="mt-1 flex items-center gap-1 text-xs text-destructive">
+                <AlertCircle className="h-3 w-3 shrink-0" />
+                Not applied: {unplaced} Edit your resume or apply this change by hand.
+              </p>
+            )}
+          </div>
+        );
+      })}
+    </>
+  );
+};
+
+export default SpecificChangesList;
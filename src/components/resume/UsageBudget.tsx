@@ -0,0 +1,57 @@
+import React from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Progress } from "@/components/ui/progress";
+import { useAuth } from "@/hooks/use-auth";
+import { fetchUsage, USAGE_QUERY_KEY } from "@/lib/usageApi";
+import { PeriodUsage } from "@/types";
+
+const formatTokens = (tokens: number) =>
+  tokens >= 10_000 ? `${Math.round(tokens / 1000).toLocaleString()}k` : tokens.toLocaleString();
+
+const describePeriod = (label: string, period: PeriodUsage) =>
+  period.limit === null
+    ? `${label}: ${formatTokens(period.totalTokens)} tokens used`
+    : `${label}: ${formatTokens(period.remaining ?? 0)} of ${formatTokens(period.limit)} tokens left`;
+
+// Remaining AI budget for the signed-in user (or this browser's IP for guests)
+const UsageBudget: React.FC = () => {
+  const { user } = useAuth();
+  const { data: usage } = useQuery({
+    queryKey: [...USAGE_QUERY_KEY, user?.id ?? "guest"],
+    queryFn: fetchUsage,
+    staleTime: 30_000,
+  });
+
+  if (!usage) return null;
+
+  const { day, month } = usage;
+  // The tighter of the two quotas decides whether the next analysis can run
+  const limiting = [day, month]
+    .filter((period) => period.limit !== null)
+    .sort((a, b) => (a.remaining ?? 0) / (a.limit ?? 1) - (b.remaining ?? 0) / (b.limit ?? 1))[0];
+  const exhausted = limiting?.remaining === 0;
+
+  return (
+    <div className="space-y-1 text-xs text-muted-foreground" aria-live="polite">
+      <div className="flex flex-wrap gap-x-3">
+        <span>{describePeriod("AI budget today", day)}</span>
+        <span>{describePeriod("This month", month)}</span>
+        {month.costUsd > 0 && <span>≈ ${month.costUsd.toFixed(2)} spent this month</span>}
+      </div>
+      {limiting && (
+        <Progress
+          value={((limiting.remaining ?? 0) / (limiting.limit ?? 1)) * 100}
+          className={`h-1.5 ${exhausted ? "bg-destructive/20" : ""}`}
+        />
+      )}
+      {exhausted && (
+        <p className="text-destructive">
+          Budget used up — AI features are paused until{" "}
+          {new Date(limiting.resetsAt).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" })}.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default UsageBudget;
@@ -0,0 +1,75 @@
+import React, { useState, useEffect, useCallback } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { User } from "@/types";
+import * as authApi from "@/lib/authApi";
+import { mergeGuestData, MergeResult } from "@/lib/guestSandbox";
+import { ANALYSIS_JOB_STORAGE_KEY, migrateUnscopedData, removeScoped } from "@/lib/userStorage";
+import { AuthContext, SignupOptions } from "@/hooks/use-auth";
+
+export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [user, setUser] = useState<User | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    // Accounts used to be kept in localStorage with plaintext passwords; drop them
+    localStorage.removeItem("users");
+    localStorage.removeItem("user");
+    // The analysis job id used to be shared by everyone using the browser
+    localStorage.removeItem(ANALYSIS_JOB_STORAGE_KEY);
+    migrateUnscopedData();
+
+    let cancelled = false;
+    authApi
+      .fetchCurrentUser()
+      .then((current) => {
+        if (!cancelled) setUser(current);
+      })
+      .catch((err) => {
+        console.error("Failed to restore session:", err);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const login = useCallback(async (credentials: authApi.Credentials) => {
+    const loggedIn = await authApi.login(credentials);
+    setUser(loggedIn);
+    return loggedIn;
+  }, []);
+
+  const signup = useCallback(async (details: authApi.Credentials & { name?: string }, options: SignupOptions = {}) => {
+    const created = await authApi.signup(details);
+    // Merge before switching user so the stores load the merged data
+    let merged: MergeResult | undefined;
+    if (options.mergeGuestData) {
+      try {
+        merged = await mergeGuestData(created);
+      } catch (err) {
+        console.error("Failed to merge guest data:", err);
+      }
+    }
+    setUser(created);
+    return { user: created, merged };
+  }, []);
+
+  const logout = useCallback(async () => {
+    await authApi.logout();
+    // The server no longer shows this user's analysis job to the browser, so stop following it
+    removeScoped(ANALYSIS_JOB_STORAGE_KEY, user);
+    setUser(null);
+    // Drop the previous user's cached server data
+    queryClient.clear();
+  }, [queryClient, user]);
+
+  return (
+    <AuthContext.Provider value={{ user, isLoggedIn: user !== null, isGuest: user === null, isLoading, login, signup, logout }}>
+      {children}
+    </AuthContext.Provider>
+  );
+};
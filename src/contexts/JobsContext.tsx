@@ -1,9 +1,7 @@
-
-import React, { createContext, useContext, useState, useEffect } from "react";
+import React, { createContext, useContext } from "react";
 import { JobApplication } from "@/types";
-
-// Sample data
-import { sampleJobs } from "@/data/sampleJobs";
+import { useOptimisticList } from "@/hooks/use-optimistic-list";
+import { guestJobs, remoteJobs } from "@/lib/jobsApi";
 
 interface JobsContextType {
   jobs: JobApplication[];
@@ -16,47 +14,21 @@ interface JobsContextType {
 const JobsContext = createContext<JobsContextType | undefined>(undefined);
 
 export const JobsProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const [jobs, setJobs] = useState<JobApplication[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-
-  useEffect(() => {
-    // In a real app, this would fetch from an API or database
-    // For now, we'll use localStorage with sample data as fallback
-    const savedJobs = localStorage.getItem("jobApplications");
-    
-    if (savedJobs) {
-      setJobs(JSON.parse(savedJobs));
-    } else {
-      // Use sample data for demonstration
-      setJobs(sampleJobs);
-    }
-    
-    setIsLoading(false);
-  }, []);
-
-  // Save to localStorage whenever jobs change
-  useEffect(() => {
-    if (!isLoading) {
-      localStorage.setItem("jobApplications", JSON.stringify(jobs));
-    }
-  }, [jobs, isLoading]);
-
-  const addJob = (job: JobApplication) => {
-    setJobs((prevJobs) => [...prevJobs, job]);
-  };
-
-  const updateJob = (updatedJob: JobApplication) => {
-    setJobs((prevJobs) =>
-      prevJobs.map((job) => (job.id === updatedJob.id ? updatedJob : job))
-    );
-  };
-
-  const deleteJob = (id: string) => {
-    setJobs((prevJobs) => prevJobs.filter((job) => job.id !== id));
-  };
+  // Signed-in users' jobs live on the server; guests keep theirs in this browser
+  const { items: jobs, isLoading, add, update, remove } = useOptimisticList<JobApplication>({
+    key: "jobs",
+    remote: remoteJobs,
+    guest: guestJobs,
+    addTo: "end",
+    failures: {
+      add: "Could not save the application",
+      update: "Could not update the application",
+      remove: "Could not delete the application",
+    },
+  });
 
   return (
-    <JobsContext.Provider value={{ jobs, addJob, updateJob, deleteJob, isLoading }}>
+    <JobsContext.Provider value={{ jobs, addJob: add, updateJob: update, deleteJob: remove, isLoading }}>
       {children}
     </JobsContext.Provider>
   );
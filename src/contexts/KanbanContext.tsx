@@ -5,6 +5,8 @@ import React, {
     useEffect,
     ReactNode,
   } from "react";
+  import { useAuth } from "@/hooks/use-auth";
+  import { KANBAN_STORAGE_KEY, scopedKey } from "@/lib/userStorage";
   
   export type TaskStatus = "todo" | "doing" | "done";
   
@@ -26,18 +28,24 @@ import React, {
   export const KanbanProvider: React.FC<{ children: ReactNode }> = ({
     children,
   }) => {
+    const { user, isLoading: isAuthLoading } = useAuth();
     const [tasks, setTasks] = useState<KanbanTask[]>([]);
+    // Storage key the current `tasks` were loaded from; null until the session is known
+    const [loadedKey, setLoadedKey] = useState<string | null>(null);
+    const storageKey = scopedKey(KANBAN_STORAGE_KEY, user);
   
-    // Load from localStorage
+    // Load the signed-in user's (or the guest's) tasks from localStorage
     useEffect(() => {
-      const raw = window.localStorage.getItem("kanban-tasks");
-      if (raw) setTasks(JSON.parse(raw));
-    }, []);
+      if (isAuthLoading) return;
+      const raw = window.localStorage.getItem(storageKey);
+      setTasks(raw ? JSON.parse(raw) : []);
+      setLoadedKey(storageKey);
+    }, [storageKey, isAuthLoading]);
   
-    // Persist on change
+    // Persist on change, always back to the key the tasks came from
     useEffect(() => {
-      window.localStorage.setItem("kanban-tasks", JSON.stringify(tasks));
-    }, [tasks]);
+      if (loadedKey) window.localStorage.setItem(loadedKey, JSON.stringify(tasks));
+    }, [tasks, loadedKey]);
   
     const addTask = (text: string) => {
       setTasks((t) => [
@@ -0,0 +1,28 @@
+import React from "react";
+import { ResumeVersion } from "@/types";
+import { useOptimisticList } from "@/hooks/use-optimistic-list";
+import { guestResumes, remoteResumes } from "@/lib/resumesApi";
+import { ResumesContext } from "@/hooks/use-resumes";
+
+export const ResumesProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  // Signed-in users' resumes live on the server; guests keep theirs in this browser
+  const { items: versions, isLoading, add, update, remove } = useOptimisticList<ResumeVersion>({
+    key: "resumes",
+    remote: remoteResumes,
+    guest: guestResumes,
+    addTo: "start",
+    failures: {
+      add: "Could not save the resume",
+      update: "Could not update the resume",
+      remove: "Could not delete the resume",
+    },
+  });
+
+  return (
+    <ResumesContext.Provider
+      value={{ versions, addVersion: add, updateVersion: update, deleteVersion: remove, isLoading }}
+    >
+      {children}
+    </ResumesContext.Provider>
+  );
+};
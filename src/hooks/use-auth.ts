@@ -0,0 +1,35 @@
+import { createContext, useContext } from "react";
+import { User } from "@/types";
+import * as authApi from "@/lib/authApi";
+import { MergeResult } from "@/lib/guestSandbox";
+
+export interface SignupOptions {
+  // Move the guest sandbox (applications and tasks saved while signed out) into the new account
+  mergeGuestData?: boolean;
+}
+
+export interface AuthContextType {
+  user: User | null;
+  isLoggedIn: boolean;
+  // Not signed in; data lives in this browser's guest sandbox
+  isGuest: boolean;
+  // True until the initial session check finishes
+  isLoading: boolean;
+  login: (credentials: authApi.Credentials) => Promise<User>;
+  signup: (
+    details: authApi.Credentials & { name?: string },
+    options?: SignupOptions,
+  ) => Promise<{ user: User; merged?: MergeResult }>;
+  logout: () => Promise<void>;
+}
+
+// Lives here rather than next to AuthProvider so that module only exports components (Fast Refresh)
+export const AuthContext = createContext<AuthContextType | undefined>(undefined);
+
+export const useAuth = (): AuthContextType => {
+  const context = useContext(AuthContext);
+  if (context === undefined) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+};
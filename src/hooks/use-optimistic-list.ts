@@ -0,0 +1,86 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/use-auth";
+import { toast } from "@/hooks/use-toast";
+
+// Where a list is kept: the API server for signed-in users, the guest sandbox in localStorage otherwise
+export interface ListBackend<T> {
+  list: () => Promise<T[]>;
+  create: (item: T) => Promise<T>;
+  update: (item: T) => Promise<T>;
+  remove: (id: string) => Promise<void>;
+}
+
+interface OptimisticListOptions<T> {
+  // First part of the query key; the user id (or "guest") is the second
+  key: string;
+  remote: ListBackend<T>;
+  guest: ListBackend<T>;
+  // Where new items go, to match the order the backends list them in
+  addTo: "start" | "end";
+  // Toast titles for a failed change
+  failures: { add: string; update: string; remove: string };
+}
+
+type Snapshot<T> = { previous?: T[] };
+
+/**
+ * The signed-in user's (or the guest's) list of records, loaded with React Query. Every change shows up in the
+ * cached list right away; if the request fails the old list is put back and a toast says what went wrong.
+ */
+export const useOptimisticList = <T extends { id?: string }>({
+  key,
+  remote,
+  guest,
+  addTo,
+  failures,
+}: OptimisticListOptions<T>) => {
+  const queryClient = useQueryClient();
+  const { user, isLoading: isAuthLoading } = useAuth();
+
+  const backend = user ? remote : guest;
+  const queryKey = [key, user?.id ?? "guest"];
+
+  const { data: items = [], isLoading } = useQuery({
+    queryKey,
+    queryFn: backend.list,
+    enabled: !isAuthLoading,
+  });
+
+  const optimistic = <V>(apply: (items: T[], variables: V) => T[], failure: string) => ({
+    onMutate: async (variables: V): Promise<Snapshot<T>> => {
+      await queryClient.cancelQueries({ queryKey });
+      const previous = queryClient.getQueryData<T[]>(queryKey);
+      queryClient.setQueryData<T[]>(queryKey, (current = []) => apply(current, variables));
+      return { previous };
+    },
+    onError: (err: Error, _variables: V, context?: Snapshot<T>) => {
+      queryClient.setQueryData(queryKey, context?.previous);
+      toast({ title: failure, description: err.message, variant: "destructive" });
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey }),
+  });
+
+  const addMutation = useMutation({
+    mutationFn: backend.create,
+    ...optimistic((current, item: T) => (addTo === "start" ? [item, ...current] : [...current, item]), failures.add),
+  });
+  const updateMutation = useMutation({
+    mutationFn: backend.update,
+    ...optimistic(
+      (current, updated: T) => current.map((item) => (item.id === updated.id ? updated : item)),
+      failures.update,
+    ),
+  });
+  const deleteMutation = useMutation({
+    mutationFn: backend.remove,
+    ...optimistic((current, id: string) => current.filter((item) => item.id !== id), failures.remove),
+  });
+
+  return {
+    items,
+    isLoading: isAuthLoading || isLoading,
+    add: (item: T) => addMutation.mutate(item),
+    update: (item: T) => updateMutation.mutate(item),
+    remove: (id: string) => deleteMutation.mutate(id),
+  };
+};
@@ -0,0 +1,22 @@
+import { createContext, useContext } from "react";
+import { ResumeVersion } from "@/types";
+
+export interface ResumesContextType {
+  // Newest first
+  versions: ResumeVersion[];
+  addVersion: (version: ResumeVersion) => void;
+  updateVersion: (version: ResumeVersion) => void;
+  deleteVersion: (id: string) => void;
+  isLoading: boolean;
+}
+
+// Lives here rather than next to ResumesProvider so that module only exports components (Fast Refresh)
+export const ResumesContext = createContext<ResumesContextType | undefined>(undefined);
+
+export const useResumes = (): ResumesContextType => {
+  const context = useContext(ResumesContext);
+  if (context === undefined) {
+    throw new Error("useResumes must be used within a ResumesProvider");
+  }
+  return context;
+};
@@ -0,0 +1,74 @@
+import type { ApiErrorBody, ApiErrorCode, ApiErrorDetails, ApiErrorResponse } from "@shared/api";
+
+// Errors from the API server; requests go through the typed client in ./apiClient
+
+// A failed API call, carrying the server's error envelope. Narrow with `isApiError(err, code)`.
+export class ApiError<C extends ApiErrorCode = ApiErrorCode> extends Error {
+  readonly code: C;
+  readonly details?: ApiErrorDetails<C>;
+  readonly requestId?: string;
+
+  constructor(
+    body: ApiErrorBody<C>,
+    readonly status: number,
+  ) {
+    super(body.message);
+    this.name = "ApiError";
+    this.code = body.code;
+    this.details = body.details;
+    this.requestId = body.requestId;
+  }
+}
+
+export const isApiError = <C extends ApiErrorCode>(err: unknown, code: C): err is ApiError<C> =>
+  err instanceof ApiError && err.code === code;
+
+// Rate limits and token quotas both answer 429
+export const isLimitError = (err: unknown): boolean =>
+  isApiError(err, "RATE_LIMITED") || isApiError(err, "QUOTA_EXCEEDED");
+
+// Turns an error envelope (from a response body or a streamed `error` event) into an ApiError
+export const toApiError = (payload: unknown, status: number): ApiError => {
+  const body = (payload as Partial<ApiErrorResponse> | null)?.error;
+  if (body && typeof body.code === "string" && typeof body.message === "string") {
+    return new ApiError(body, status);
+  }
+  // Not from our server (e.g. the dev proxy could not reach it)
+  return new ApiError({ code: "INTERNAL", message: `Server error: ${status}` }, status);
+};
+
+export const readError = async (resp: Response): Promise<ApiError> => {
+  let payload: unknown = null;
+  try {
+    payload = await resp.json();
+  } catch {
+    /* ignore parse errors */
+  }
+  return toApiError(payload, resp.status);
+};
+
+// Toast title and description for a failed call; `fallbackTitle` is used for unexpected failures
+export const describeError = (err: unknown, fallbackTitle: string): { title: string; description: string } => {
+  if (!(err instanceof ApiError)) {
+    return { title: fallbackTitle, description: err instanceof Error ? err.message : "Please try again." };
+  }
+  switch (err.code) {
+    case "OPENAI_NOT_CONFIGURED":
+      return { title: "AI is not available", description: "The server has no AI provider configured. Please try again later." };
+    case "VALIDATION_FAILED":
+      return { title: "Please check your input", description: err.message };
+    case "RATE_LIMITED":
+      return { title: "Slow down", description: err.message };
+    case "QUOTA_EXCEEDED":
+      return { title: "AI limit reached", description: err.message };
+    case "LLM_FAILED":
+    case "INTERNAL":
+      // The reference lets a bug report be matched to the server logs
+      return {
+        title: fallbackTitle,
+        description: err.requestId ? `${err.message} (Reference: ${err.requestId})` : err.message,
+      };
+    default:
+      return { title: fallbackTitle, description: err.message };
+  }
+};
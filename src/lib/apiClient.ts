@@ -0,0 +1,106 @@
+import type { z, ZodTypeAny } from "zod";
+import { API_ROUTES, type RouteDefinition, type RouteName } from "@shared/routes";
+import { ApiError, readError } from "@/lib/api";
+
+// Typed client for the API, derived from the route table that /api/openapi.json is generated from:
+// request bodies, path parameters and responses are typed per route, and every JSON response is parsed
+// with the route's schema, so a server change that breaks the contract fails loudly here.
+
+type Route<N extends RouteName> = (typeof API_ROUTES)[N];
+
+// "/api/jobs/{id}" -> "id"
+type PathParams<P extends string> = P extends `${string}{${infer Name}}${infer Rest}` ? Name | PathParams<Rest> : never;
+
+type BodyOption<N extends RouteName> = Route<N> extends { upload: readonly string[] }
+  ? { file: Blob; body?: undefined }
+  : Route<N> extends { body: infer S extends ZodTypeAny }
+    ? { body: z.input<S>; file?: undefined }
+    : { body?: undefined; file?: undefined };
+
+type QueryOption<N extends RouteName> = Route<N> extends { query: infer S extends ZodTypeAny }
+  ? { query?: z.input<S> }
+  : { query?: undefined };
+
+type ParamsOption<N extends RouteName> = [PathParams<Route<N>["path"]>] extends [never]
+  ? { params?: undefined }
+  : { params: Record<PathParams<Route<N>["path"]>, string> };
+
+export type RequestOptions<N extends RouteName> = BodyOption<N> &
+  QueryOption<N> &
+  ParamsOption<N> & { signal?: AbortSignal };
+
+export type ResponseOf<N extends RouteName> = Route<N>["response"] extends ZodTypeAny
+  ? z.output<Route<N>["response"]>
+  : void;
+
+type StreamRouteName = { [N in RouteName]: Route<N> extends { stream: true } ? N : never }[RouteName];
+
+// Options can be left out for routes without a body or path parameters
+type OptionsArgs<N extends RouteName> = Partial<RequestOptions<N>> extends RequestOptions<N>
+  ? [options?: RequestOptions<N>]
+  : [options: RequestOptions<N>];
+
+const buildUrl = (path: string, params: Record<string, string> = {}, query: Record<string, unknown> = {}) => {
+  const url = path.replace(/\{(\w+)\}/g, (_match, name: string) => encodeURIComponent(params[name] ?? ""));
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value !== undefined) search.set(key, String(value));
+  }
+  return search.size ? `${url}?${search}` : url;
+};
+
+// Requests are same-origin (proxied by Vite in development), so the session cookie is sent automatically
+// Upload routes send the file as the body, with the file's own content type
+const send = async (
+  route: RouteDefinition,
+  {
+    body,
+    file,
+    query,
+    params,
+    signal,
+  }: {
+    body?: unknown;
+    file?: Blob;
+    query?: Record<string, unknown>;
+    params?: Record<string, string>;
+    signal?: AbortSignal;
+  },
+): Promise<Response> => {
+  const headers: Record<string, string> = {};
+  if (file) headers["Content-Type"] = file.type || "application/octet-stream";
+  else if (body !== undefined) headers["Content-Type"] = "application/json";
+  if (route.stream) headers.Accept = "text/event-stream";
+
+  const resp = await fetch(buildUrl(route.path, params, query), {
+    method: route.method.toUpperCase(),
+    headers,
+    body: file ?? (body === undefined ? undefined : JSON.stringify(body)),
+    signal,
+  });
+  if (!resp.ok) {
+    throw await readError(resp);
+  }
+  return resp;
+};
+
+// Calls a JSON route. Rejects with an ApiError for error responses and for responses that do not match the schema.
+export const apiRequest = async <N extends RouteName>(name: N, ...[options]: OptionsArgs<N>): Promise<ResponseOf<N>> => {
+  const route: RouteDefinition = API_ROUTES[name];
+  const resp = await send(route, options ?? {});
+  if (!route.response) return undefined as ResponseOf<N>;
+
+  const parsed = route.response.safeParse(await resp.json());
+  if (!parsed.success) {
+    console.error(`${route.method.toUpperCase()} ${route.path}: unexpected response`, parsed.error.issues);
+    throw new ApiError(
+      { code: "INTERNAL", message: "The server sent a response this version of the app does not understand." },
+      resp.status,
+    );
+  }
+  return parsed.data as ResponseOf<N>;
+};
+
+// Opens a Server-Sent Events route; the caller reads the events from the response body
+export const apiStream = async <N extends StreamRouteName>(name: N, ...[options]: OptionsArgs<N>): Promise<Response> =>
+  send(API_ROUTES[name], options ?? {});
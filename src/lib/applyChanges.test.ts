@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { applyResumeChanges } from "@/lib/applyChanges";
+
+const resume = [
+  "EXPERIENCE",
+  "- Built the billing service",
+  "- Led the “payments” team",
+  "",
+  "SKILLS",
+  "TypeScript",
+].join("\n");
+
+describe("applyResumeChanges", () => {
+  it("replaces exact matches and tolerates whitespace, quote and bullet differences", () => {
+    const result = applyResumeChanges(resume, [
+      { section: "Experience", current: "Built the billing service", proposed: "Built the billing service in Go" },
+      { section: "Experience", current: '• Led the  "payments" team', proposed: "• Led the payments team of 6" },
+    ]);
+
+    expect(result).toEqual({
+      text: resume
+        .replace("Built the billing service", "Built the billing service in Go")
+        .replace("Led the “payments” team", "Led the payments team of 6"),
+      applied: [0, 1],
+      unplaced: [],
+    });
+  });
+
+  it("adds new lines at the end of their section with its bullet style", () => {
+    const result = applyResumeChanges(resume, [
+      { section: "Experience", current: "", proposed: "Mentored four engineers" },
+      { section: "Skills", current: "", proposed: "PostgreSQL" },
+    ]);
+
+    expect(result.text).toBe(
+      resume.replace("team\n", "team\n- Mentored four engineers\n").replace("TypeScript", "TypeScript\nPostgreSQL"),
+    );
+  });
+
+  it("reports changes it cannot place and applies the rest", () => {
+    const result = applyResumeChanges(`${resume}\nTypeScript`, [
+      { section: "Experience", current: "Built the billing", proposed: "Designed the billing" },
+      { section: "Experience", current: "billing service", proposed: "invoicing service" },
+      { section: "Skills", current: "TypeScript", proposed: "TypeScript 5" },
+      { section: "Experience", current: "Ran the on-call rota", proposed: "Ran on-call" },
+      { section: "Awards", current: "", proposed: "Hackathon winner" },
+      { section: "Experience", current: "Led", proposed: " " },
+    ]);
+
+    expect(result.applied).toEqual([0]);
+    expect(result.unplaced).toEqual([
+      { index: 1, reason: "It overlaps another selected change." },
+      { index: 2, reason: "The current text appears 2 times in your resume." },
+      { index: 3, reason: "The current text was not found in your resume." },
+      { index: 4, reason: 'No "Awards" section was found to add this to.' },
+      { index: 5, reason: "The change is empty." },
+    ]);
+    expect(result.text).toContain("- Designed the billing service");
+  });
+});
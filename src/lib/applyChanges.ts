@@ -0,0 +1,115 @@
+// Applies suggested changes (CURRENT -> CHANGE TO) to the resume text
+
+import { BULLET, isHeadingLine } from "@/lib/resumeText";
+
+export interface ChangeToApply {
+  section: string;
+  // Empty for an addition, which goes at the end of `section`
+  current: string;
+  proposed: string;
+}
+
+export interface ApplyResult {
+  text: string;
+  // Indexes into the changes passed in
+  applied: number[];
+  unplaced: { index: number; reason: string }[];
+}
+
+// Equivalent spellings of punctuation that editors and models swap freely
+const CHAR_CLASSES: [RegExp, string][] = [
+  [/['‘’]/g, "['‘’]"],
+  [/["“”]/g, '["“”]'],
+  [/[-–—]/g, "[-–—]"],
+];
+
+const escape = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// The text as a pattern that allows any whitespace between words and either form of quotes and dashes
+const loosePattern = (text: string, flags: string) =>
+  new RegExp(
+    text
+      .trim()
+      .split(/\s+/)
+      .map((word) => CHAR_CLASSES.reduce((pattern, [from, to]) => pattern.replace(from, to), escape(word)))
+      .join(String.raw`\s+`),
+    `g${flags}`,
+  );
+
+type Range = { start: number; end: number; text: string };
+
+// Where `current` is in the text: exactly, then ignoring whitespace and punctuation variants, then ignoring case
+const locate = (text: string, current: string, proposed: string): Range | string => {
+  // A leading bullet in the suggestion may differ from the resume's; match and replace the line content only
+  const bulleted = BULLET.test(current);
+  const needle = bulleted ? current.replace(BULLET, "") : current.trim();
+  const replacement = bulleted ? proposed.replace(BULLET, "") : proposed.trim();
+
+  const attempts = [
+    () => [...text.matchAll(new RegExp(escape(needle), "g"))],
+    () => [...text.matchAll(loosePattern(needle, ""))],
+    () => [...text.matchAll(loosePattern(needle, "i"))],
+  ];
+  for (const attempt of attempts) {
+    const matches = attempt();
+    if (matches.length > 1) return `The current text appears ${matches.length} times in your resume.`;
+    if (matches.length === 1) {
+      const [match] = matches;
+      return { start: match.index, end: match.index + match[0].length, text: replacement };
+    }
+  }
+  return "The current text was not found in your resume.";
+};
+
+// An addition goes after the last line of its section, with the section's bullet style
+const locateAddition = (text: string, section: string, proposed: string): Range | string => {
+  const lines = text.split("\n");
+  const name = section.trim().toLowerCase();
+  const heading = lines.findIndex((line) => {
+    const title = line.trim().replace(/:$/, "").toLowerCase();
+    return title.length > 0 && isHeadingLine(line) && (title === name || title.includes(name) || name.includes(title));
+  });
+  if (heading < 0) return `No "${section}" section was found to add this to.`;
+
+  let last = heading;
+  for (let i = heading + 1; i < lines.length && !isHeadingLine(lines[i]); i++) {
+    if (lines[i].trim()) last = i;
+  }
+  const bullet = lines[last].match(BULLET)?.[0];
+  const line = bullet && !BULLET.test(proposed) && last > heading ? `${bullet}${proposed.trim()}` : proposed.trim();
+  const end = lines.slice(0, last + 1).join("\n").length;
+  return { start: end, end, text: `\n${line}` };
+};
+
+/**
+ * Applies the changes to the text in one pass. Each change's current text must be found exactly once;
+ * changes that are not found, are ambiguous or overlap an earlier change are left out and reported.
+ */
+export const applyResumeChanges = (text: string, changes: ChangeToApply[]): ApplyResult => {
+  const ranges: (Range & { index: number })[] = [];
+  const unplaced: ApplyResult["unplaced"] = [];
+
+  changes.forEach((change, index) => {
+    if (!change.proposed.trim()) {
+      unplaced.push({ index, reason: "The change is empty." });
+      return;
+    }
+    const found = change.current.trim()
+      ? locate(text, change.current, change.proposed)
+      : locateAddition(text, change.section, change.proposed);
+    if (typeof found === "string") {
+      unplaced.push({ index, reason: found });
+    } else if (ranges.some((other) => found.start < other.end && other.start < found.end)) {
+      unplaced.push({ index, reason: "It overlaps another selected change." });
+    } else {
+      ranges.push({ ...found, index });
+    }
+  });
+
+  // Back to front, so earlier offsets stay valid
+  let result = text;
+  for (const range of [...ranges].sort((a, b) => b.start - a.start || b.index - a.index)) {
+    result = result.slice(0, range.start) + range.text + result.slice(range.end);
+  }
+  return { text: result, applied: ranges.map((range) => range.index).sort((a, b) => a - b), unplaced };
+};
@@ -0,0 +1,25 @@
+import { User } from "@/types";
+import { isApiError } from "@/lib/api";
+import { apiRequest } from "@/lib/apiClient";
+
+export interface Credentials {
+  email: string;
+  password: string;
+}
+
+export const signup = async (body: Credentials & { name?: string }): Promise<User> =>
+  (await apiRequest("signup", { body })).user;
+
+export const login = async (body: Credentials): Promise<User> => (await apiRequest("login", { body })).user;
+
+export const logout = (): Promise<void> => apiRequest("logout");
+
+// Resolves with null when there is no valid session
+export const fetchCurrentUser = async (): Promise<User | null> => {
+  try {
+    return (await apiRequest("currentUser")).user;
+  } catch (err: unknown) {
+    if (isApiError(err, "UNAUTHENTICATED")) return null;
+    throw err;
+  }
+};
@@ -0,0 +1,32 @@
+import { DocumentFormat, ParsedDocument } from "@/types";
+import { apiRequest } from "@/lib/apiClient";
+
+// Resume files the server can read, for the file picker's `accept` attribute
+export const RESUME_FILE_ACCEPT = [
+  ".pdf",
+  ".docx",
+  ".rtf",
+  ".md",
+  ".markdown",
+  ".txt",
+  "application/pdf",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  "application/rtf",
+  "text/rtf",
+  "text/markdown",
+  "text/plain",
+].join(",");
+
+export const MAX_RESUME_FILE_MB = 10;
+
+export const FORMAT_LABELS: Record<DocumentFormat, string> = {
+  pdf: "PDF",
+  docx: "Word",
+  rtf: "RTF",
+  markdown: "Markdown",
+  text: "Plain text",
+};
+
+// Extracts the text on the server; the format is detected from the file itself
+export const parseDocument = (file: File, signal?: AbortSignal): Promise<ParsedDocument> =>
+  apiRequest("parseDocument", { file, query: { filename: file.name }, signal });
@@ -0,0 +1,131 @@
+import {
+  AlignmentType,
+  BorderStyle,
+  Document,
+  HeadingLevel,
+  Packer,
+  Paragraph,
+  Tab,
+  TabStopType,
+  TextRun,
+} from "docx";
+import { parseCoverLetterLayout, parseResumeLayout } from "@/lib/resumeText";
+
+const FONT = "Calibri";
+const ACCENT = "1F2937";
+const MUTED = "6B7280";
+// A4 with 2 cm margins, in twentieths of a point
+const PAGE = { width: 11906, height: 16838, margin: 1134 };
+const CONTENT_WIDTH = PAGE.width - PAGE.margin * 2;
+// Space before a paragraph that followed a blank line, in twentieths of a point
+const GAP = 120;
+
+const RULE = { style: BorderStyle.SINGLE, size: 6, color: ACCENT, space: 2 };
+
+// Word styles, so headings and lists stay editable as headings and lists; sizes are in half-points
+const createDocument = (title: string, children: Paragraph[]) =>
+  new Document({
+    title,
+    styles: {
+      default: {
+        document: { run: { font: FONT, size: 21, color: "111827" }, paragraph: { spacing: { after: 40 } } },
+        title: { run: { font: FONT, size: 44, bold: true, color: ACCENT }, paragraph: { spacing: { after: 60 } } },
+        heading1: {
+          run: { font: FONT, size: 24, bold: true, allCaps: true, color: ACCENT },
+          paragraph: { spacing: { before: 240, after: 80 } },
+        },
+      },
+    },
+    sections: [
+      {
+        properties: {
+          page: {
+            size: { width: PAGE.width, height: PAGE.height },
+            margin: { top: PAGE.margin, right: PAGE.margin, bottom: PAGE.margin, left: PAGE.margin },
+          },
+        },
+        children,
+      },
+    ],
+  });
+
+/** The resume as a Word document: the name as the title, a contact block, headings, entries and bullet lists. */
+export const renderResumeDocx = (resume: string): Promise<Blob> => {
+  const children: Paragraph[] = [];
+  let gap = false;
+  for (const line of parseResumeLayout(resume)) {
+    const spacing = gap ? { before: GAP } : undefined;
+    gap = line.kind === "gap";
+    switch (line.kind) {
+      case "name":
+        children.push(new Paragraph({ text: line.text, heading: HeadingLevel.TITLE, alignment: AlignmentType.CENTER }));
+        break;
+      case "contact":
+        children.push(
+          new Paragraph({
+            alignment: AlignmentType.CENTER,
+            children: [new TextRun({ text: line.text, size: 19, color: MUTED })],
+          }),
+        );
+        break;
+      case "heading":
+        children.push(new Paragraph({ text: line.text, heading: HeadingLevel.HEADING_1, border: { bottom: RULE } }));
+        break;
+      case "bullet":
+        children.push(new Paragraph({ text: line.text, bullet: { level: 0 }, spacing }));
+        break;
+      case "entry":
+        children.push(new Paragraph({ children: [new TextRun({ text: line.text, bold: true })], spacing }));
+        break;
+      case "text":
+        children.push(new Paragraph({ text: line.text, spacing }));
+        break;
+    }
+  }
+  return Packer.toBlob(createDocument("Resume", children));
+};
+
+/**
+ * The cover letter as a Word document, in the structure the cover letter prompt asks for: a name and job title
+ * header, contact details in two columns, a rule, the title and then the letter.
+ */
+export const renderCoverLetterDocx = (letter: string): Promise<Blob> => {
+  const { header, body } = parseCoverLetterLayout(letter);
+  const children: Paragraph[] = [];
+
+  if (header) {
+    if (header.name) children.push(new Paragraph({ text: header.name, heading: HeadingLevel.TITLE }));
+    for (const title of header.titles) {
+      children.push(new Paragraph({ children: [new TextRun({ text: title, size: 24, color: MUTED })] }));
+    }
+    // Phone and email on the left, links against the right margin, one pair per line
+    const rows = Math.max(header.contact.length, header.links.length);
+    for (let row = 0; row < rows; row++) {
+      children.push(
+        new Paragraph({
+          tabStops: [{ type: TabStopType.RIGHT, position: CONTENT_WIDTH }],
+          spacing: { before: row === 0 ? GAP * 2 : 0 },
+          children: [new TextRun({ children: [header.contact[row] ?? "", new Tab(), header.links[row] ?? ""], size: 19 })],
+        }),
+      );
+    }
+    children.push(new Paragraph({ border: { bottom: RULE }, spacing: { after: GAP * 2 } }));
+  }
+
+  let gap = false;
+  for (const line of body) {
+    const spacing = gap ? { before: GAP } : undefined;
+    gap = line.kind === "gap";
+    if (line.kind === "title") {
+      children.push(
+        new Paragraph({ text: line.text.toUpperCase(), heading: HeadingLevel.HEADING_1, alignment: AlignmentType.CENTER }),
+      );
+    } else if (line.kind !== "gap") {
+      children.push(
+        new Paragraph({ children: [new TextRun({ text: line.text, bold: line.kind === "signature" })], spacing }),
+      );
+    }
+  }
+
+  return Packer.toBlob(createDocument("Cover letter", children));
+};
@@ -0,0 +1,96 @@
+import { JobApplication, ResumeVersion, User } from "@/types";
+import type { KanbanTask } from "@/contexts/KanbanContext";
+import { sampleJobs } from "@/data/sampleJobs";
+import { remoteJobs } from "@/lib/jobsApi";
+import { remoteResumes } from "@/lib/resumesApi";
+import {
+  JOBS_STORAGE_KEY,
+  KANBAN_STORAGE_KEY,
+  readScoped,
+  removeScoped,
+  RESUMES_STORAGE_KEY,
+  writeScoped,
+} from "@/lib/userStorage";
+
+const SAMPLE_JOB_IDS = new Set(sampleJobs.map((job) => job.id));
+
+// The demo applications are not the guest's own work and stay out of their account
+const guestJobsToMerge = () =>
+  (readScoped<JobApplication[]>(JOBS_STORAGE_KEY, null) ?? []).filter((job) => !SAMPLE_JOB_IDS.has(job.id));
+
+const guestTasks = () => readScoped<KanbanTask[]>(KANBAN_STORAGE_KEY, null) ?? [];
+
+const guestResumes = () => readScoped<ResumeVersion[]>(RESUMES_STORAGE_KEY, null) ?? [];
+
+export const hasGuestData = () =>
+  guestJobsToMerge().length > 0 || guestTasks().length > 0 || guestResumes().length > 0;
+
+export interface MergeResult {
+  jobs: number;
+  tasks: number;
+  resumes: number;
+  // Applications and resume versions the server refused (e.g. an id the account already uses); they stay in the sandbox
+  failedJobs: number;
+  failedResumes: number;
+}
+
+/**
+ * Moves everything the guest saved into the signed-in account: applications and resume versions go to the
+ * server, tasks to the user's own localStorage namespace. Whatever was merged is removed from the sandbox.
+ */
+export const mergeGuestData = async (user: User): Promise<MergeResult> => {
+  const jobs = guestJobsToMerge();
+  const results = await Promise.allSettled(jobs.map((job) => remoteJobs.create(job)));
+  const failed = jobs.filter((_job, index) => results[index].status === "rejected");
+
+  // Versions keep their ids, so applications still point at the resume they were sent with
+  const resumes = guestResumes();
+  const resumeResults = await Promise.allSettled(resumes.map((version) => remoteResumes.create(version)));
+  const failedResumes = resumes.filter((_version, index) => resumeResults[index].status === "rejected");
+  if (failedResumes.length) {
+    writeScoped(RESUMES_STORAGE_KEY, null, failedResumes);
+  } else {
+    removeScoped(RESUMES_STORAGE_KEY, null);
+  }
+
+  const tasks = guestTasks();
+  if (tasks.length) {
+    const existing = readScoped<KanbanTask[]>(KANBAN_STORAGE_KEY, user) ?? [];
+    const existingIds = new Set(existing.map((task) => task.id));
+    writeScoped(KANBAN_STORAGE_KEY, user, [...existing, ...tasks.filter((task) => !existingIds.has(task.id))]);
+    removeScoped(KANBAN_STORAGE_KEY, null);
+  }
+
+  if (failed.length) {
+    writeScoped(JOBS_STORAGE_KEY, null, failed);
+  } else {
+    removeScoped(JOBS_STORAGE_KEY, null);
+  }
+
+  return {
+    jobs: jobs.length - failed.length,
+    tasks: tasks.length,
+    resumes: resumes.length - failedResumes.length,
+    failedJobs: failed.length,
+    failedResumes: failedResumes.length,
+  };
+};
+
+// Toast text for a merge, or undefined when nothing was moved
+export const describeMergeResult = ({
+  jobs,
+  tasks,
+  resumes,
+  failedJobs,
+  failedResumes,
+}: MergeResult): string | undefined => {
+  const count = (n: number, noun: string) => (n ? `${n} ${noun}${n === 1 ? "" : "s"}` : "");
+  const parts = [count(jobs, "application"), count(tasks, "task"), count(resumes, "resume version")].filter(Boolean);
+  const failures = [count(failedJobs, "application"), count(failedResumes, "resume version")].filter(Boolean);
+  if (!parts.length && !failures.length) return undefined;
+  const list = (items: string[]) =>
+    items.length > 1 ? `${items.slice(0, -1).join(", ")} and ${items[items.length - 1]}` : items[0];
+  const moved = parts.length ? `Moved ${list(parts)} from guest mode into your account.` : "";
+  const failed = failures.length ? ` ${list(failures)} could not be moved.` : "";
+  return (moved + failed).trim();
+};
@@ -0,0 +1,39 @@
+import { JobApplication } from "@/types";
+import { apiRequest } from "@/lib/apiClient";
+import { sampleJobs } from "@/data/sampleJobs";
+import { JOBS_STORAGE_KEY, readScoped, writeScoped } from "@/lib/userStorage";
+
+// Where job applications are kept: the API server for signed-in users, the guest sandbox in localStorage otherwise
+export interface JobsBackend {
+  list: () => Promise<JobApplication[]>;
+  create: (job: JobApplication) => Promise<JobApplication>;
+  update: (job: JobApplication) => Promise<JobApplication>;
+  remove: (id: string) => Promise<void>;
+}
+
+export const remoteJobs: JobsBackend = {
+  list: () => apiRequest("listJobs"),
+  create: (job) => apiRequest("createJob", { body: job }),
+  update: (job) => apiRequest("updateJob", { params: { id: job.id }, body: job }),
+  remove: (id) => apiRequest("deleteJob", { params: { id } }),
+};
+
+// The guest sandbox; shows the sample data until the guest saves something
+const readGuestJobs = (): JobApplication[] => readScoped<JobApplication[]>(JOBS_STORAGE_KEY, null) ?? sampleJobs;
+
+const writeGuestJobs = (jobs: JobApplication[]) => writeScoped(JOBS_STORAGE_KEY, null, jobs);
+
+export const guestJobs: JobsBackend = {
+  list: async () => readGuestJobs(),
+  create: async (job) => {
+    writeGuestJobs([...readGuestJobs(), job]);
+    return job;
+  },
+  update: async (job) => {
+    writeGuestJobs(readGuestJobs().map((existing) => (existing.id === job.id ? job : existing)));
+    return job;
+  },
+  remove: async (id) => {
+    writeGuestJobs(readGuestJobs().filter((job) => job.id !== id));
+  },
+};
@@ -0,0 +1,299 @@
+import { jsPDF } from "jspdf";
+import { parseCoverLetterLayout, parseResumeLayout } from "@/lib/resumeText";
+import sansUrl from "dejavu-fonts-ttf/ttf/DejaVuSans.ttf?url";
+import sansBoldUrl from "dejavu-fonts-ttf/ttf/DejaVuSans-Bold.ttf?url";
+import serifUrl from "dejavu-fonts-ttf/ttf/DejaVuSerif.ttf?url";
+import serifBoldUrl from "dejavu-fonts-ttf/ttf/DejaVuSerif-Bold.ttf?url";
+import condensedUrl from "dejavu-fonts-ttf/ttf/DejaVuSansCondensed.ttf?url";
+import condensedBoldUrl from "dejavu-fonts-ttf/ttf/DejaVuSansCondensed-Bold.ttf?url";
+
+export type PdfTemplate = "classic" | "modern" | "compact";
+
+export const PDF_TEMPLATES: Record<PdfTemplate, { label: string; description: string }> = {
+  classic: { label: "Classic", description: "Serif type, centered header and ruled section headings" },
+  modern: { label: "Modern", description: "Clean sans-serif type with a colored name and headings" },
+  compact: { label: "Compact", description: "Condensed type and tight spacing to fit more on each page" },
+};
+
+type Rgb = [number, number, number];
+
+interface TemplateStyle {
+  fonts: { regular: string; bold: string };
+  // Page margin, in points
+  margin: number;
+  size: number;
+  // Line height as a multiple of the font size
+  leading: number;
+  nameSize: number;
+  headingSize: number;
+  headerAlign: "left" | "center";
+  accent: Rgb;
+  text: Rgb;
+  headingRule: boolean;
+}
+
+const STYLES: Record<PdfTemplate, TemplateStyle> = {
+  classic: {
+    fonts: { regular: serifUrl, bold: serifBoldUrl },
+    margin: 56,
+    size: 10.5,
+    leading: 1.35,
+    nameSize: 22,
+    headingSize: 11.5,
+    headerAlign: "center",
+    accent: [31, 41, 55],
+    text: [17, 24, 39],
+    headingRule: true,
+  },
+  modern: {
+    fonts: { regular: sansUrl, bold: sansBoldUrl },
+    margin: 50,
+    size: 10,
+    leading: 1.4,
+    nameSize: 24,
+    headingSize: 11,
+    headerAlign: "left",
+    accent: [79, 70, 229],
+    text: [31, 41, 55],
+    headingRule: false,
+  },
+  compact: {
+    fonts: { regular: condensedUrl, bold: condensedBoldUrl },
+    margin: 36,
+    size: 9,
+    leading: 1.25,
+    nameSize: 18,
+    headingSize: 10,
+    headerAlign: "left",
+    accent: [17, 24, 39],
+    text: [17, 24, 39],
+    headingRule: true,
+  },
+};
+
+const MUTED: Rgb = [107, 114, 128];
+const FONT = "ExportFont";
+// Space kept at the foot of every page for the page number
+const FOOTER_SPACE = 18;
+
+// Font files are fetched once and kept as base64, the form jsPDF embeds
+const fontFiles = new Map<string, Promise<string>>();
+
+const toBase64 = (buffer: ArrayBuffer) => {
+  const bytes = new Uint8Array(buffer);
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const loadFont = (url: string) => {
+  let file = fontFiles.get(url);
+  if (!file) {
+    file = fetch(url).then(async (res) => {
+      if (!res.ok) throw new Error(`Could not load the PDF font (status ${res.status}).`);
+      return toBase64(await res.arrayBuffer());
+    });
+    // Let a later export retry after a failed download
+    file.catch(() => fontFiles.delete(url));
+    fontFiles.set(url, file);
+  }
+  return file;
+};
+
+const createDocument = async (style: TemplateStyle, title: string) => {
+  const [regular, bold] = await Promise.all([loadFont(style.fonts.regular), loadFont(style.fonts.bold)]);
+  const doc = new jsPDF({ unit: "pt", format: "a4" });
+  doc.addFileToVFS("regular.ttf", regular);
+  doc.addFileToVFS("bold.ttf", bold);
+  doc.addFont("regular.ttf", FONT, "normal");
+  doc.addFont("bold.ttf", FONT, "bold");
+  doc.setProperties({ title });
+  return doc;
+};
+
+type TextOptions = {
+  size?: number;
+  bold?: boolean;
+  color?: Rgb;
+  align?: "left" | "center" | "right";
+  indent?: number;
+  // Height of what must stay on the same page as the first lines of this text
+  keepWithNext?: number;
+};
+
+// Writes top to bottom, starting a new page whenever the next line does not fit
+const createWriter = (doc: jsPDF, style: TemplateStyle) => {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const width = pageWidth - style.margin * 2;
+  const bottom = pageHeight - style.margin - FOOTER_SPACE;
+  let y = style.margin;
+
+  const lineHeight = (size = style.size) => size * style.leading;
+
+  const ensure = (height: number) => {
+    if (y + height > bottom && y > style.margin) {
+      doc.addPage();
+      y = style.margin;
+    }
+  };
+
+  const setType = (size: number, bold: boolean, color: Rgb) => {
+    doc.setFont(FONT, bold ? "bold" : "normal");
+    doc.setFontSize(size);
+    doc.setTextColor(...color);
+  };
+
+  const gap = (height: number) => {
+    // A gap at the top of a page would only push the content down
+    if (y > style.margin) y += height;
+  };
+
+  const text = (value: string, options: TextOptions = {}) => {
+    const { size = style.size, bold = false, color = style.text, align = "left", indent = 0, keepWithNext = 0 } = options;
+    setType(size, bold, color);
+    const lines: string[] = doc.splitTextToSize(value, width - indent);
+    const height = lineHeight(size);
+    // Never leave a single line of a paragraph, or a heading, alone at the foot of a page
+    ensure(height * Math.min(lines.length, 2) + keepWithNext);
+    const x = align === "center" ? pageWidth / 2 : align === "right" ? pageWidth - style.margin : style.margin + indent;
+    for (const line of lines) {
+      ensure(height);
+      doc.text(line, x, y, { align, baseline: "top" });
+      y += height;
+    }
+  };
+
+  const bullet = (value: string) => {
+    const hang = style.size * 1.2;
+    setType(style.size, false, style.text);
+    ensure(lineHeight() * Math.min(doc.splitTextToSize(value, width - hang).length, 2));
+    doc.text("•", style.margin + style.size * 0.2, y, { baseline: "top" });
+    text(value, { indent: hang });
+  };
+
+  const rule = (color: Rgb, thickness: number) => {
+    ensure(thickness + 2);
+    doc.setDrawColor(...color);
+    doc.setLineWidth(thickness);
+    doc.line(style.margin, y + 1, pageWidth - style.margin, y + 1);
+    y += thickness + 2;
+  };
+
+  const heading = (value: string) => {
+    gap(style.size * 0.9);
+    text(value.toUpperCase(), {
+      size: style.headingSize,
+      bold: true,
+      color: style.accent,
+      keepWithNext: lineHeight() * 2 + 4,
+    });
+    if (style.headingRule) rule(style.accent, 0.75);
+    gap(style.size * 0.3);
+  };
+
+  // Two columns on the same rows, the right one aligned to the right margin
+  const columns = (left: string[], right: string[]) => {
+    setType(style.size - 0.5, false, style.text);
+    const height = lineHeight(style.size - 0.5);
+    for (let row = 0; row < Math.max(left.length, right.length); row++) {
+      ensure(height);
+      if (left[row]) doc.text(left[row], style.margin, y, { baseline: "top" });
+      if (right[row]) doc.text(right[row], pageWidth - style.margin, y, { align: "right", baseline: "top" });
+      y += height;
+    }
+  };
+
+  // Page numbers go on last, once the page count is known
+  const finish = () => {
+    const pages = doc.getNumberOfPages();
+    if (pages < 2) return;
+    for (let page = 1; page <= pages; page++) {
+      doc.setPage(page);
+      setType(8, false, MUTED);
+      doc.text(`Page ${page} of ${pages}`, pageWidth / 2, pageHeight - style.margin / 2, { align: "center" });
+    }
+  };
+
+  return { lineHeight, gap, text, bullet, rule, heading, columns, finish };
+};
+
+/** Lays the resume out with the template: name and contact header, section headings, entries and bullets. */
+export const renderResumePdf = async (resume: string, template: PdfTemplate): Promise<Blob> => {
+  const style = STYLES[template];
+  const doc = await createDocument(style, "Resume");
+  const write = createWriter(doc, style);
+  const layout = parseResumeLayout(resume);
+
+  layout.forEach((line, index) => {
+    const next = layout[index + 1];
+    switch (line.kind) {
+      case "name":
+        write.text(line.text, { size: style.nameSize, bold: true, color: style.accent, align: style.headerAlign });
+        break;
+      case "contact":
+        write.text(line.text, { size: style.size - 0.5, color: MUTED, align: style.headerAlign });
+        break;
+      case "heading":
+        write.heading(line.text);
+        break;
+      case "bullet":
+        write.bullet(line.text);
+        break;
+      case "entry":
+        write.text(line.text, { bold: true });
+        break;
+      case "text":
+        write.text(line.text);
+        break;
+      case "gap":
+        // Headings bring their own space
+        if (next && next.kind !== "heading") write.gap(write.lineHeight() * 0.4);
+        break;
+    }
+    if ((line.kind === "name" || line.kind === "contact") && next?.kind !== "contact") write.gap(style.size * 0.6);
+  });
+
+  write.finish();
+  return doc.output("blob");
+};
+
+/**
+ * Lays the cover letter out in the structure the cover letter prompt asks for: a name and job title header,
+ * contact details in two columns, a divider, the title and then the letter itself.
+ */
+export const renderCoverLetterPdf = async (letter: string, template: PdfTemplate): Promise<Blob> => {
+  const style = STYLES[template];
+  const doc = await createDocument(style, "Cover letter");
+  const write = createWriter(doc, style);
+  const { header, body } = parseCoverLetterLayout(letter);
+
+  if (header) {
+    if (header.name) {
+      write.text(header.name, { size: style.nameSize, bold: true, color: style.accent, align: style.headerAlign });
+    }
+    for (const title of header.titles) {
+      write.text(title, { size: style.size + 1, color: MUTED, align: style.headerAlign });
+    }
+    write.gap(style.size * 0.8);
+    write.columns(header.contact, header.links);
+    write.gap(style.size * 0.6);
+    write.rule(style.accent, 1);
+    write.gap(style.size);
+  }
+
+  for (const line of body) {
+    if (line.kind === "gap") {
+      write.gap(write.lineHeight() * 0.6);
+    } else if (line.kind === "title") {
+      write.text(line.text.toUpperCase(), { size: style.headingSize + 2, bold: true, color: style.accent, align: "center" });
+    } else {
+      write.text(line.text, { bold: line.kind === "signature" });
+    }
+  }
+
+  write.finish();
+  return doc.output("blob");
+};
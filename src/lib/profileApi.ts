@@ -0,0 +1,56 @@
+import { ProfileParseMode, ResumeProfile } from "@/types";
+import { apiRequest } from "@/lib/apiClient";
+
+export type ExperienceEntry = ResumeProfile["experience"][number];
+export type EducationEntry = ResumeProfile["education"][number];
+export type ProjectEntry = ResumeProfile["projects"][number];
+export type CertificationEntry = ResumeProfile["certifications"][number];
+
+export const EMPTY_EXPERIENCE: ExperienceEntry = {
+  employer: "",
+  title: "",
+  location: "",
+  startDate: "",
+  endDate: "",
+  bullets: [],
+};
+
+export const EMPTY_EDUCATION: EducationEntry = {
+  institution: "",
+  degree: "",
+  field: "",
+  startDate: "",
+  endDate: "",
+  details: [],
+};
+
+export const EMPTY_PROJECT: ProjectEntry = { name: "", description: "", link: "", bullets: [] };
+
+export const EMPTY_CERTIFICATION: CertificationEntry = { name: "", issuer: "", date: "" };
+
+export const PARSE_MODE_LABELS: Record<ProfileParseMode, string> = {
+  llm: "AI",
+  deterministic: "Rule-based",
+};
+
+const nonEmpty = (items: string[]) => items.map((item) => item.trim()).filter(Boolean);
+
+const hasText = (entry: object) =>
+  Object.values(entry).some((value) => (Array.isArray(value) ? nonEmpty(value).length > 0 : Boolean(value?.trim())));
+
+// The editor keeps blank lines and entries while the user types; they are dropped before the profile is sent
+export const compactProfile = (profile: ResumeProfile): ResumeProfile => ({
+  ...profile,
+  contact: { ...profile.contact, links: nonEmpty(profile.contact.links) },
+  experience: profile.experience
+    .map((entry) => ({ ...entry, bullets: nonEmpty(entry.bullets) }))
+    .filter(hasText),
+  education: profile.education.map((entry) => ({ ...entry, details: nonEmpty(entry.details) })).filter(hasText),
+  skills: nonEmpty(profile.skills),
+  projects: profile.projects.map((entry) => ({ ...entry, bullets: nonEmpty(entry.bullets) })).filter(hasText),
+  certifications: profile.certifications.filter(hasText),
+});
+
+// `mode: "llm"` spends AI budget; the server answers with the rule-based parser when no AI provider is configured
+export const parseResumeProfile = (resumeText: string, mode: ProfileParseMode, force = false) =>
+  apiRequest("parseProfile", { body: { resumeText, mode, force } });
@@ -0,0 +1,112 @@
+import {
+  AnalysisJob,
+  AnalysisStep,
+  FabricationFlag,
+  KeywordMatch,
+  ResumeAnalysis,
+  ResumeProfile,
+  ResumeRequest,
+} from "@/types";
+import { streamDoneEventSchema } from "@shared/schemas";
+import { toApiError } from "@/lib/api";
+import { apiRequest, apiStream } from "@/lib/apiClient";
+
+export type Feedback = Pick<ResumeAnalysis, "strengths" | "improvements" | "tailoring" | "source">;
+
+// Every generator result says whether the server answered from its analysis cache
+// and which prompt template version produced it
+export interface Generated<T> {
+  value: T;
+  cached: boolean;
+  promptVersions?: ResumeAnalysis["promptVersions"];
+}
+
+export const fetchFeedback = async (body: ResumeRequest): Promise<Generated<Feedback>> => {
+  const { strengths, improvements, tailoring, source, cached, promptVersions } = await apiRequest("feedback", { body });
+  return { value: { strengths, improvements, tailoring, source }, cached, promptVersions };
+};
+
+interface StreamOptions {
+  /** Called with the full text received so far after every chunk */
+  onText: (text: string) => void;
+  signal?: AbortSignal;
+}
+
+const parseEvent = (raw: string): { event: string; data: string } => {
+  let event = "message";
+  const data: string[] = [];
+  for (const line of raw.split("\n")) {
+    if (line.startsWith("event:")) event = line.slice(6).trim();
+    else if (line.startsWith("data:")) data.push(line.slice(5).trimStart());
+  }
+  return { event, data: data.join("\n") };
+};
+
+// Reads a Server-Sent Events response and resolves with the complete text.
+// A cached result arrives as a single chunk.
+// Rejects on cancellation or if the connection drops; partial text has already been passed to onText.
+const readStream = async (resp: Response, onText: (text: string) => void): Promise<Generated<string>> => {
+  if (!resp.body) {
+    throw new Error("The server did not send a stream. Please try again.");
+  }
+
+  const reader = resp.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let text = "";
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary = buffer.indexOf("\n\n");
+    while (boundary !== -1) {
+      const { event, data } = parseEvent(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf("\n\n");
+
+      if (event === "delta") {
+        text += (JSON.parse(data) as { text: string }).text;
+        onText(text);
+      } else if (event === "done") {
+        const { cached, promptVersions } = streamDoneEventSchema.parse(JSON.parse(data));
+        return { value: text, cached, promptVersions };
+      } else if (event === "error") {
+        throw toApiError(JSON.parse(data), resp.status);
+      }
+    }
+  }
+
+  throw new Error("The connection closed before generation finished.");
+};
+
+export const streamCustomizedResume = async (body: ResumeRequest, { onText, signal }: StreamOptions) =>
+  readStream(await apiStream("streamCustomizedResume", { body, signal }), onText);
+
+export const streamCoverLetter = async (body: ResumeRequest, { onText, signal }: StreamOptions) =>
+  readStream(await apiStream("streamCoverLetter", { body, signal }), onText);
+
+// --- Background analysis jobs ---
+
+export const startAnalysisJob = (body: ResumeRequest, steps: AnalysisStep[]): Promise<AnalysisJob> =>
+  apiRequest("startAnalysisJob", { body: { ...body, steps } });
+
+export const fetchAnalysisJob = (id: string): Promise<AnalysisJob> => apiRequest("analysisJob", { params: { id } });
+
+export const cancelAnalysisJob = (id: string): Promise<AnalysisJob> =>
+  apiRequest("cancelAnalysisJob", { params: { id } });
+
+// Rule-based, so it works without an AI provider and does not use the AI budget
+export const fetchKeywordMatch = (resumeText: string, jobDescription: string): Promise<KeywordMatch> =>
+  apiRequest("keywordMatch", { body: { resumeText, jobDescription } });
+
+// Spans of the customized resume that the original resume (or the reviewed profile) does not back up; rule-based too
+export const checkFabrication = async (
+  resumeText: string,
+  customizedResume: string,
+  profile?: ResumeProfile,
+): Promise<FabricationFlag[]> => {
+  const { flags } = await apiRequest("checkFabrication", { body: { resumeText, customizedResume, profile } });
+  return flags;
+};
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { diffResume, diffWords, mergeResume, type Hunk } from "@/lib/resumeDiff";
+
+const original = ["Jane Doe", "- Built the billing service", "- Wrote docs", "Skills", "TypeScript"].join("\n");
+const customized = ["Jane Doe", "- Built the billing service in Go", "Skills  ", "TypeScript", "Go"].join("\n");
+
+const hunks = (text: string) =>
+  diffResume(original, text).flatMap((block) => (block.kind === "change" ? [block.hunk] : []));
+
+describe("diffResume", () => {
+  it("groups changed lines into hunks and ignores surrounding whitespace", () => {
+    expect(diffResume(original, customized)).toMatchObject([
+      { kind: "same", lines: ["Jane Doe"] },
+      {
+        kind: "change",
+        hunk: { original: ["- Built the billing service", "- Wrote docs"], customized: ["- Built the billing service in Go"] },
+      },
+      { kind: "same", lines: ["Skills  ", "TypeScript"] },
+      { kind: "change", hunk: { original: [], customized: ["Go"] } },
+    ]);
+  });
+
+  it("keeps a hunk's key when the rest of the text changes", () => {
+    const [first] = hunks(customized);
+
+    expect(hunks(customized.replace("TypeScript", "TypeScript 5"))[0].key).toBe(first.key);
+  });
+
+  it("gives repeated identical edits their own keys", () => {
+    const text = "a\nx\nb\nx";
+    const keys = diffResume(text, "a\ny\nb\ny").flatMap((block) => (block.kind === "change" ? [block.hunk.key] : []));
+
+    expect(keys).toHaveLength(2);
+    expect(new Set(keys).size).toBe(2);
+  });
+});
+
+describe("mergeResume", () => {
+  it("keeps the original lines of rejected hunks only", () => {
+    const blocks = diffResume(original, customized);
+    const [rewrite, addition] = hunks(customized) as [Hunk, Hunk];
+
+    expect(mergeResume(blocks, new Set())).toBe(customized);
+    expect(mergeResume(blocks, new Set([rewrite.key]))).toBe(
+      ["Jane Doe", "- Built the billing service", "- Wrote docs", "Skills  ", "TypeScript", "Go"].join("\n"),
+    );
+    expect(mergeResume(blocks, new Set([rewrite.key, addition.key]))).toBe(
+      ["Jane Doe", "- Built the billing service", "- Wrote docs", "Skills  ", "TypeScript"].join("\n"),
+    );
+  });
+});
+
+describe("diffWords", () => {
+  it("marks added and removed words and reads back both texts", () => {
+    const parts = diffWords("Led the team", "Led the payments team");
+    const read = (skip: "added" | "removed") =>
+      parts
+        .filter((part) => part.type !== skip)
+        .map((part) => part.text)
+        .join("");
+
+    expect(parts.filter((part) => part.type !== "same").map((part) => part.text.trim())).toEqual(["payments"]);
+    expect(read("added")).toBe("Led the team");
+    expect(read("removed")).toBe("Led the payments team");
+  });
+});
@@ -0,0 +1,109 @@
+// Line and word diff between the original and the customized resume, split into hunks the user accepts or rejects
+
+export interface DiffPart {
+  type: "same" | "added" | "removed";
+  text: string;
+}
+
+export interface Hunk {
+  // Identifies the hunk by its content, so a decision survives the diff being recomputed after an edit
+  key: string;
+  original: string[];
+  customized: string[];
+}
+
+export type DiffBlock = { kind: "same"; lines: string[] } | { kind: "change"; hunk: Hunk };
+
+// Above this many table cells the texts are treated as one change instead of being diffed
+const MAX_CELLS = 4_000_000;
+
+type Op = { type: DiffPart["type"]; a?: number; b?: number };
+
+// Longest common subsequence walk; `equal` decides which items count as unchanged
+const diffSequences = <T>(a: T[], b: T[], equal: (x: T, y: T) => boolean): Op[] => {
+  if (a.length * b.length > MAX_CELLS) {
+    return [
+      ...a.map((_x, i): Op => ({ type: "removed", a: i })),
+      ...b.map((_y, j): Op => ({ type: "added", b: j })),
+    ];
+  }
+  const width = b.length + 1;
+  const lengths = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i * width + j] = equal(a[i], b[j])
+        ? lengths[(i + 1) * width + j + 1] + 1
+        : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+  const ops: Op[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (equal(a[i], b[j])) ops.push({ type: "same", a: i++, b: j++ });
+    else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) ops.push({ type: "removed", a: i++ });
+    else ops.push({ type: "added", b: j++ });
+  }
+  while (i < a.length) ops.push({ type: "removed", a: i++ });
+  while (j < b.length) ops.push({ type: "added", b: j++ });
+  return ops;
+};
+
+/** Word-level changes between two passages; whitespace is kept as its own parts so the text reads back unchanged. */
+export const diffWords = (original: string, customized: string): DiffPart[] => {
+  const a = original.split(/(\s+)/).filter(Boolean);
+  const b = customized.split(/(\s+)/).filter(Boolean);
+  const parts: DiffPart[] = [];
+  for (const op of diffSequences(a, b, (x, y) => x === y)) {
+    const text = op.type === "added" ? b[op.b!] : a[op.a!];
+    const last = parts[parts.length - 1];
+    if (last?.type === op.type) last.text += text;
+    else parts.push({ type: op.type, text });
+  }
+  return parts;
+};
+
+/**
+ * Splits the two texts into unchanged runs of lines and hunks of changed lines. Lines that differ only in
+ * surrounding whitespace count as unchanged and keep the customized version.
+ */
+export const diffResume = (original: string, customized: string): DiffBlock[] => {
+  const a = original.split("\n");
+  const b = customized.split("\n");
+  const blocks: DiffBlock[] = [];
+  let hunk: Hunk | null = null;
+  for (const op of diffSequences(a, b, (x, y) => x.trim() === y.trim())) {
+    if (op.type === "same") {
+      hunk = null;
+      const last = blocks[blocks.length - 1];
+      if (last?.kind === "same") last.lines.push(b[op.b!]);
+      else blocks.push({ kind: "same", lines: [b[op.b!]] });
+      continue;
+    }
+    if (!hunk) blocks.push({ kind: "change", hunk: (hunk = { key: "", original: [], customized: [] }) });
+    if (op.type === "removed") hunk.original.push(a[op.a!]);
+    else hunk.customized.push(b[op.b!]);
+  }
+  // The same edit made twice still gets two keys
+  const seen = new Map<string, number>();
+  for (const block of blocks) {
+    if (block.kind !== "change") continue;
+    const content = `${block.hunk.original.join("\n")}\u0000${block.hunk.customized.join("\n")}`;
+    const count = seen.get(content) ?? 0;
+    seen.set(content, count + 1);
+    block.hunk.key = `${content}\u0000${count}`;
+  }
+  return blocks;
+};
+
+/** The final resume: the customized lines of every hunk except the rejected ones, which keep the original lines. */
+export const mergeResume = (blocks: DiffBlock[], rejected: ReadonlySet<string>): string =>
+  blocks
+    .flatMap((block) =>
+      block.kind === "same"
+        ? block.lines
+        : rejected.has(block.hunk.key)
+          ? block.hunk.original
+          : block.hunk.customized,
+    )
+    .join("\n");
@@ -0,0 +1,111 @@
+// Line rules and layouts for plain-text resumes and cover letters, shared by the formatted view, edits and exports
+
+export const BULLET = /^\s*(?:[-*•●▪–]|\d{1,2}[.)])\s+/;
+
+const HEADING_WORDS =
+  /^(?:professional |work |technical |core |career )?(?:summary|profile|objective|experience|employment|work history|education|skills|competencies|technologies|projects|certifications?|awards|publications|languages|interests|volunteer(?:ing)?|contact)\b/i;
+
+/** A short line that names a section: a known section word, or all capitals. */
+export const isHeadingLine = (line: string) => {
+  const trimmed = line.trim().replace(/:$/, "");
+  return (
+    trimmed.length > 0 &&
+    trimmed.length <= 40 &&
+    !BULLET.test(line) &&
+    (HEADING_WORDS.test(trimmed) || (/[A-Z]/.test(trimmed) && trimmed === trimmed.toUpperCase()))
+  );
+};
+
+const CONTACT = /@|https?:\/\/|www\.|linkedin|^\+?[\d(][\d\s().-]{6,}$/i;
+const LINK = /https?:\/\/|www\.|linkedin/i;
+const DIVIDER = /^[-=_–—]{3,}$/;
+const CLOSING = /^(?:sincerely|best regards|kind regards|regards|best|thank you|yours truly),?$/i;
+// Company, school and date lines of an experience or education entry
+const ENTRY = /\b(?:19|20)\d{2}\b|\bpresent\b/i;
+
+export type ResumeLineKind = "name" | "contact" | "heading" | "bullet" | "entry" | "text" | "gap";
+
+export interface ResumeLine {
+  kind: ResumeLineKind;
+  // Without the bullet marker for bullets; empty for gaps
+  text: string;
+}
+
+/**
+ * Splits a plain-text resume into the blocks that the formatted view and the PDF and Word exports lay out.
+ * The first line is the name when it looks like one, and the lines under it up to a gap or heading are contact
+ * details. A run of blank lines is one gap.
+ */
+export const parseResumeLayout = (resume: string): ResumeLine[] => {
+  const lines = resume.split("\n").map((line) => line.trim());
+  const result: ResumeLine[] = [];
+  const first = lines.findIndex(Boolean);
+  let index = 0;
+  if (first >= 0 && lines[first].length <= 60 && !CONTACT.test(lines[first]) && !HEADING_WORDS.test(lines[first])) {
+    result.push({ kind: "name", text: lines[first] });
+    for (index = first + 1; index < lines.length && lines[index] && !isHeadingLine(lines[index]); index++) {
+      result.push({ kind: "contact", text: lines[index] });
+    }
+  }
+  for (const line of lines.slice(index)) {
+    if (!line) {
+      if (result.length && result[result.length - 1].kind !== "gap") result.push({ kind: "gap", text: "" });
+    } else if (isHeadingLine(line)) {
+      result.push({ kind: "heading", text: line.replace(/:$/, "") });
+    } else if (BULLET.test(line)) {
+      result.push({ kind: "bullet", text: line.replace(BULLET, "") });
+    } else if (
+      (/\(.*\)/.test(line) && line.length < 80) ||
+      (ENTRY.test(line) && line.length <= 100 && !/[.!?]$/.test(line))
+    ) {
+      result.push({ kind: "entry", text: line });
+    } else {
+      result.push({ kind: "text", text: line });
+    }
+  }
+  return result;
+};
+
+export interface CoverLetterLayout {
+  // Null when there is no divider under a header, as the cover letter prompt asks for
+  header: {
+    name?: string;
+    titles: string[];
+    // Phone and email, shown on the left; profile links, shown on the right
+    contact: string[];
+    links: string[];
+  } | null;
+  body: { kind: "title" | "text" | "signature" | "gap"; text: string }[];
+}
+
+/** Splits a cover letter into the parts the cover letter prompt asks for: header, contact details, title and letter. */
+export const parseCoverLetterLayout = (letter: string): CoverLetterLayout => {
+  const lines = letter.split("\n").map((line) => line.trim());
+  const divider = lines.slice(0, 15).findIndex((line) => DIVIDER.test(line));
+
+  let header: CoverLetterLayout["header"] = null;
+  if (divider >= 0) {
+    const top = lines.slice(0, divider).filter(Boolean);
+    const [name, ...titles] = top.filter((line) => !CONTACT.test(line));
+    // Contact lines may already hold both columns, spaced apart or separated by bars
+    const contact = top.filter((line) => CONTACT.test(line)).flatMap((line) => line.split(/\s{2,}|\s*\|\s*/));
+    header = {
+      name,
+      titles,
+      contact: contact.filter((item) => !LINK.test(item)),
+      links: contact.filter((item) => LINK.test(item)),
+    };
+  }
+
+  const body: CoverLetterLayout["body"] = [];
+  let closed = false;
+  for (const line of lines.slice(divider + 1)) {
+    if (!line) {
+      if (body.length && body[body.length - 1].kind !== "gap") body.push({ kind: "gap", text: "" });
+      continue;
+    }
+    body.push({ kind: /^cover letter$/i.test(line) ? "title" : closed ? "signature" : "text", text: line });
+    closed = CLOSING.test(line);
+  }
+  return { header, body };
+};
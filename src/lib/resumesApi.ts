@@ -0,0 +1,38 @@
+import { ResumeVersion } from "@/types";
+import { apiRequest } from "@/lib/apiClient";
+import { readScoped, RESUMES_STORAGE_KEY, writeScoped } from "@/lib/userStorage";
+
+// Where the resume library is kept: the API server for signed-in users, the guest sandbox in localStorage otherwise
+export interface ResumesBackend {
+  list: () => Promise<ResumeVersion[]>;
+  create: (version: ResumeVersion) => Promise<ResumeVersion>;
+  update: (version: ResumeVersion) => Promise<ResumeVersion>;
+  remove: (id: string) => Promise<void>;
+}
+
+export const remoteResumes: ResumesBackend = {
+  list: () => apiRequest("listResumeVersions"),
+  create: (version) => apiRequest("createResumeVersion", { body: version }),
+  update: (version) => apiRequest("updateResumeVersion", { params: { id: version.id }, body: version }),
+  remove: (id) => apiRequest("deleteResumeVersion", { params: { id } }),
+};
+
+const readGuestVersions = (): ResumeVersion[] => readScoped<ResumeVersion[]>(RESUMES_STORAGE_KEY, null) ?? [];
+
+const writeGuestVersions = (versions: ResumeVersion[]) => writeScoped(RESUMES_STORAGE_KEY, null, versions);
+
+export const guestResumes: ResumesBackend = {
+  // Newest first, like the server
+  list: async () => [...readGuestVersions()].sort((a, b) => b.createdAt.localeCompare(a.createdAt)),
+  create: async (version) => {
+    writeGuestVersions([...readGuestVersions(), version]);
+    return version;
+  },
+  update: async (version) => {
+    writeGuestVersions(readGuestVersions().map((existing) => (existing.id === version.id ? version : existing)));
+    return version;
+  },
+  remove: async (id) => {
+    writeGuestVersions(readGuestVersions().filter((version) => version.id !== id));
+  },
+};
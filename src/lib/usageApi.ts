@@ -0,0 +1,7 @@
+import { UsageSummary } from "@/types";
+import { apiRequest } from "@/lib/apiClient";
+
+// TanStack Query key prefix; invalidate it after anything that spends tokens
+export const USAGE_QUERY_KEY = ["usage"];
+
+export const fetchUsage = (): Promise<UsageSummary> => apiRequest("usage");
@@ -0,0 +1,44 @@
+import { User } from "@/types";
+
+// localStorage keys that hold per-user data
+export const JOBS_STORAGE_KEY = "jobApplications";
+export const KANBAN_STORAGE_KEY = "kanban-tasks";
+export const RESUMES_STORAGE_KEY = "resumeVersions";
+// The background analysis job the analyzer is following, so a page reload picks it back up
+export const ANALYSIS_JOB_STORAGE_KEY = "resume-analysis-job";
+
+const GUEST_SCOPE = "guest";
+
+// Key for one user's copy of a store; everyone who is not signed in shares the guest sandbox
+export const scopedKey = (base: string, user: Pick<User, "id"> | null) => `${base}:${user?.id ?? GUEST_SCOPE}`;
+
+export const readScoped = <T,>(base: string, user: Pick<User, "id"> | null): T | null => {
+  const raw = localStorage.getItem(scopedKey(base, user));
+  if (raw === null) return null;
+  try {
+    return JSON.parse(raw) as T;
+  } catch {
+    return null;
+  }
+};
+
+export const writeScoped = (base: string, user: Pick<User, "id"> | null, value: unknown) => {
+  localStorage.setItem(scopedKey(base, user), JSON.stringify(value));
+};
+
+export const removeScoped = (base: string, user: Pick<User, "id"> | null) => {
+  localStorage.removeItem(scopedKey(base, user));
+};
+
+// Data saved before stores were namespaced is handed to the guest sandbox, so it can still be
+// merged into an account on signup
+export const migrateUnscopedData = () => {
+  for (const base of [JOBS_STORAGE_KEY, KANBAN_STORAGE_KEY]) {
+    const legacy = localStorage.getItem(base);
+    if (legacy === null) continue;
+    if (localStorage.getItem(scopedKey(base, null)) === null) {
+      localStorage.setItem(scopedKey(base, null), legacy);
+    }
+    localStorage.removeItem(base);
+  }
+};
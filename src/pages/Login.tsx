@@ -5,10 +5,13 @@ import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
 
 const LoginPage: React.FC = () => {
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { login } = useAuth();
+  const [isSubmitting, setIsSubmitting] = useState(false);
   const [form, setForm] = useState({ email: "", password: "" });
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -16,15 +19,23 @@ const LoginPage: React.FC = () => {
     setForm(f => ({ ...f, [name]: value }));
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!form.email || !form.password) {
       toast({ title: "Error", description: "Email and password are required.", variant: "destructive" });
       return;
     }
-    // TODO: call your auth API here
-    toast({ title: "Welcome back!", description: "You’re now logged in." });
-    navigate("/dashboard");
+    setIsSubmitting(true);
+    try {
+      await login({ email: form.email, password: form.password });
+      toast({ title: "Welcome back!", description: "You’re now logged in." });
+      navigate("/dashboard");
+    } catch (err) {
+      const description = err instanceof Error ? err.message : "Email or password is incorrect.";
+      toast({ title: "Login failed", description, variant: "destructive" });
+    } finally {
+      setIsSubmitting(false);
+    }
   };
 
   return (
@@ -59,7 +70,9 @@ const LoginPage: React.FC = () => {
                 required
               />
             </div>
-            <Button type="submit" className="w-full">Sign In</Button>
+            <Button type="submit" className="w-full" disabled={isSubmitting}>
+              {isSubmitting ? "Signing in..." : "Sign In"}
+            </Button>
           </form>
           <p className="mt-4 text-center text-sm text-gray-600">
             New here?{" "}
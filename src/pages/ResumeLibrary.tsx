@@ -0,0 +1,19 @@
+import React from "react";
+import MainLayout from "@/components/layout/MainLayout";
+import Header from "@/components/layout/Header";
+import ResumeLibraryList from "@/components/resume/ResumeLibraryList";
+
+const ResumeLibrary: React.FC = () => {
+  return (
+    <MainLayout>
+      <Header
+        title="Resume Library"
+        subtitle="Your base resumes and the versions tailored from them"
+      />
+
+      <ResumeLibraryList />
+    </MainLayout>
+  );
+};
+
+export default ResumeLibrary;
@@ -1,14 +1,21 @@
-import React, { useState } from "react";
+import React, { useMemo, useState } from "react";
 import { useNavigate, Link } from "react-router-dom";
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import MergeGuestDataOption from "@/components/auth/MergeGuestDataOption";
+import { describeMergeResult, hasGuestData } from "@/lib/guestSandbox";
 
 const SignupPage: React.FC = () => {
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { signup } = useAuth();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [mergeGuest, setMergeGuest] = useState(true);
+  const canMergeGuest = useMemo(() => hasGuestData(), []);
   const [form, setForm] = useState({ name: "", email: "", password: "", confirm: "" });
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -16,7 +23,7 @@ const SignupPage: React.FC = () => {
     setForm(f => ({ ...f, [name]: value }));
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!form.name || !form.email || !form.password) {
       toast({ title: "Error", description: "All fields are required.", variant: "destructive" });
@@ -26,9 +33,23 @@ const SignupPage: React.FC = () => {
       toast({ title: "Error", description: "Passwords do not match.", variant: "destructive" });
       return;
     }
-    // TODO: call your signup API here
-    toast({ title: "Account created", description: "You can now log in." });
-    navigate("/login");
+    setIsSubmitting(true);
+    try {
+      const { merged } = await signup(
+        { name: form.name, email: form.email, password: form.password },
+        { mergeGuestData: canMergeGuest && mergeGuest },
+      );
+      toast({
+        title: "Account created",
+        description: ["You’re now logged in.", merged && describeMergeResult(merged)].filter(Boolean).join(" "),
+      });
+      navigate("/dashboard");
+    } catch (err) {
+      const description = err instanceof Error ? err.message : "Could not create the account.";
+      toast({ title: "Sign up failed", description, variant: "destructive" });
+    } finally {
+      setIsSubmitting(false);
+    }
   };
 
   return (
@@ -82,7 +103,10 @@ const SignupPage: React.FC = () => {
                 required
               />
             </div>
-            <Button type="submit" className="w-full">Create Account</Button>
+            {canMergeGuest && <MergeGuestDataOption checked={mergeGuest} onCheckedChange={setMergeGuest} />}
+            <Button type="submit" className="w-full" disabled={isSubmitting}>
+              {isSubmitting ? "Creating account..." : "Create Account"}
+            </Button>
           </form>
           <p className="mt-4 text-center text-sm text-gray-600">
             Already registered?{" "}
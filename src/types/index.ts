@@ -1,38 +1,34 @@
+// API request, response and error types, shared with the server (inferred from shared/schemas.ts)
+import type { JobStatus } from "@shared/api";
 
-export type JobStatus = "interested" | "applied" | "interview" | "rejected" | "offer";
-
-export interface JobApplication {
-  id: string;
-  companyName: string;
-  jobTitle: string;
-  dateApplied: string;
-  jobLink?: string;
-  location?: string;
-  contactPerson?: string;
-  interviewStep?: string;
-  status: JobStatus;
-  reasonOutcome?: string;
-  resumeText?: string;
-  notes?: string;
-  followUpDate?: string;
-  lastUpdated: string;
-}
-
-export interface ResumeAnalysis {
-  strengths: string[];
-  improvements: string[];
-  tailoring: string[];
-  customizedResume?: string;
-  specificChanges?: string;
-  coverLetter?: string;
-}
-
-export interface User {
-  id: string;
-  name: string;
-  email?: string;
-  isGuest: boolean;
-}
+export type {
+  AnalysisJob,
+  AnalysisJobStatus,
+  AnalysisStep,
+  AnalyzeResumeRequest,
+  ApiErrorBody,
+  ApiErrorCode,
+  DocumentFormat,
+  FabricationFlag,
+  FabricationKind,
+  FeedbackSource,
+  JobApplication,
+  JobStatus,
+  KeywordImportance,
+  KeywordMatch,
+  ParsedDocument,
+  PeriodUsage,
+  ProfileParseMode,
+  ResumeAnalysis,
+  ResumeChange,
+  ResumeChangeCategory,
+  ResumeProfile,
+  ResumeRequest,
+  ResumeVersion,
+  ResumeVersionKind,
+  UsageSummary,
+  User,
+} from "@shared/api";
 
 export interface JobFilter {
   status?: JobStatus;
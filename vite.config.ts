@@ -34,10 +34,10 @@ export default defineConfig(({ mode }: { mode: string }) => ({
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),
+      "@shared": path.resolve(__dirname, "./shared"),
     },
   },
   optimizeDeps: {
-    include: ["jspdf", "pdfjs-dist"],
-    exclude: ["pdfjs-dist/build/pdf.worker.min.mjs"],
+    include: ["jspdf"],
   },
 }));